@@ -0,0 +1,158 @@
+/* Solo-Toon service worker
+ *
+ * - App shell: the Vite build listed in /precache-manifest.json is cached on
+ *   install and served cache-first; navigations fall back to index.html.
+ * - Provider JSON: requests to the API origins passed as ?api= on registration
+ *   are network-first, falling back to the last response after a timeout.
+ * - Images: covers and proxied pages are stale-while-revalidate in a cache
+ *   bounded to MAX_IMAGE_ENTRIES, evicting the least recently used entry.
+ *
+ * Cache names share the CACHE_PREFIX that src/lib/serviceWorker.ts reads.
+ */
+
+const CACHE_PREFIX = 'solo-toon-';
+const SHELL_CACHE_PREFIX = `${CACHE_PREFIX}shell-`;
+const API_CACHE = `${CACHE_PREFIX}api`;
+const IMAGE_CACHE = `${CACHE_PREFIX}images`;
+
+const API_TIMEOUT = 4000; // ms before a cached API response is served instead
+const MAX_API_ENTRIES = 200;
+const MAX_IMAGE_ENTRIES = 400;
+
+const apiOrigins = new URL(self.location.href).searchParams.getAll('api')
+  .map(url => {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return null;
+    }
+  })
+  .filter(Boolean);
+
+let shellCacheName = null;
+
+async function getShellCacheName() {
+  if (!shellCacheName) {
+    const names = await caches.keys();
+    shellCacheName = names.filter(name => name.startsWith(SHELL_CACHE_PREFIX)).pop() || null;
+  }
+  return shellCacheName;
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    const manifest = await response.json();
+
+    const cache = await caches.open(`${SHELL_CACHE_PREFIX}${manifest.version}`);
+    await cache.addAll(manifest.files);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Keep only the newest shell cache, which is the one installed last
+    const names = await caches.keys();
+    const shellCaches = names.filter(name => name.startsWith(SHELL_CACHE_PREFIX));
+    await Promise.all(shellCaches.slice(0, -1).map(name => caches.delete(name)));
+    shellCacheName = shellCaches[shellCaches.length - 1] || null;
+
+    await self.clients.claim();
+  })());
+});
+
+// Cache keys are kept in insertion order, so re-inserting on use makes the
+// first key the least recently used one
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  for (let i = 0; i < keys.length - maxEntries; i++) {
+    await cache.delete(keys[i]);
+  }
+}
+
+async function putInCache(cacheName, request, response, maxEntries) {
+  const cache = await caches.open(cacheName);
+  await cache.delete(request);
+  await cache.put(request, response);
+  await trimCache(cacheName, maxEntries);
+}
+
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cacheName = await getShellCacheName();
+    const cached = cacheName && await (await caches.open(cacheName)).match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handleShellAsset(request) {
+  const cacheName = await getShellCacheName();
+  const cached = cacheName && await (await caches.open(cacheName)).match(request);
+  return cached || fetch(request);
+}
+
+async function handleApiRequest(event) {
+  const { request } = event;
+  const network = fetch(request).then(response => {
+    if (response.ok) {
+      event.waitUntil(putInCache(API_CACHE, request, response.clone(), MAX_API_ENTRIES));
+    }
+    return response;
+  });
+
+  const timeout = new Promise(resolve => setTimeout(resolve, API_TIMEOUT, null));
+  const first = await Promise.race([network.catch(() => null), timeout]);
+  if (first) return first;
+
+  // Network failed or is slow: answer from cache, otherwise keep waiting
+  const cached = await (await caches.open(API_CACHE)).match(request);
+  return cached || network;
+}
+
+async function handleImageRequest(event) {
+  const { request } = event;
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+
+  // Only readable responses are cached: CORS images and the /api/image proxy.
+  // Opaque ones hide error pages behind their status and are padded to
+  // several megabytes each in the storage quota.
+  const refresh = fetch(request).then(response => {
+    if (response.ok) {
+      event.waitUntil(putInCache(IMAGE_CACHE, request, response.clone(), MAX_IMAGE_ENTRIES));
+    }
+    return response;
+  });
+
+  if (cached) {
+    // Put back when it is not replaced, so images read offline stay recently used
+    const copy = cached.clone();
+    event.waitUntil(refresh
+      .then(response => response.ok || Promise.reject(new Error(`HTTP ${response.status}`)))
+      .catch(() => putInCache(IMAGE_CACHE, request, copy, MAX_IMAGE_ENTRIES)));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (apiOrigins.includes(url.origin)) {
+    event.respondWith(handleApiRequest(event));
+  } else if (request.destination === 'image' || url.pathname === '/api/image') {
+    event.respondWith(handleImageRequest(event));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleShellAsset(request));
+  }
+});
@@ -0,0 +1,163 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import sharp from "sharp";
+import { isAllowedImageHost } from "../src/lib/imageHosts";
+
+const FETCH_TIMEOUT = 15000;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Data saver output: pages are scaled down to this width and re-encoded
+const LOW_QUALITY_WIDTH = 720;
+const LOW_QUALITY_WEBP = 50;
+
+const CACHE_CONTROL = "public, max-age=86400, s-maxage=86400, stale-while-revalidate=43200";
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(message);
+}
+
+async function downscale(buffer: Buffer): Promise<Buffer> {
+  return sharp(buffer, { animated: false })
+    .resize({ width: LOW_QUALITY_WIDTH, withoutEnlargement: true })
+    .webp({ quality: LOW_QUALITY_WEBP })
+    .toBuffer();
+}
+
+function isAllowedUrl(url: URL): boolean {
+  return ["http:", "https:"].includes(url.protocol) && isAllowedImageHost(url.hostname);
+}
+
+class ProxyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ProxyError";
+  }
+}
+
+// Redirects are followed by hand so every hop has to pass the allowlist;
+// otherwise an allowed host could point the proxy anywhere, internal addresses included
+async function fetchImage(url: URL, signal: AbortSignal): Promise<Response> {
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "SoloToon/1.0",
+        "Referer": `${url.origin}/`,
+        "Accept": "image/avif,image/webp,image/*,*/*;q=0.8",
+      },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) throw new ProxyError(502, "Too many redirects");
+
+    url = new URL(location, url);
+    if (!isAllowedUrl(url)) throw new ProxyError(403, "Redirect to a host that is not allowed");
+  }
+}
+
+// Stops downloading as soon as the body passes the limit instead of buffering all of it
+async function readImage(response: Response, controller: AbortController): Promise<Buffer> {
+  const length = Number(response.headers.get("Content-Length"));
+  if (length > MAX_IMAGE_BYTES) {
+    controller.abort();
+    throw new ProxyError(502, "Image too large");
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.length;
+    if (received > MAX_IMAGE_BYTES) {
+      controller.abort();
+      throw new ProxyError(502, "Image too large");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Serves GET /api/image?src=<url>[&quality=low]. Images are fetched with the
+// CDN's own origin as Referer, since most manga CDNs reject hotlinked requests.
+export async function handleImageProxy(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    sendError(res, 405, "Method not allowed");
+    return;
+  }
+
+  const params = new URL(req.url || "", "http://localhost").searchParams;
+  const src = params.get("src");
+  const quality = params.get("quality");
+
+  let url: URL;
+  try {
+    url = new URL(src || "");
+  } catch {
+    sendError(res, 400, "Missing or invalid src");
+    return;
+  }
+
+  if (!isAllowedUrl(url)) {
+    sendError(res, 403, "Host not allowed");
+    return;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  let contentType: string;
+  let body: Buffer;
+  try {
+    const upstream = await fetchImage(url, controller.signal);
+    if (!upstream.ok) {
+      controller.abort();
+      throw new ProxyError(502, `Failed to fetch image: ${upstream.status}`);
+    }
+
+    contentType = upstream.headers.get("Content-Type") || "image/jpeg";
+    if (!contentType.startsWith("image/")) {
+      controller.abort();
+      throw new ProxyError(502, "Upstream response is not an image");
+    }
+
+    body = await readImage(upstream, controller);
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      sendError(res, error.status, error.message);
+    } else {
+      sendError(res, 504, error instanceof Error ? error.message : "Upstream request failed");
+    }
+    return;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  let outputType = contentType;
+  if (quality === "low" && contentType !== "image/svg+xml") {
+    try {
+      body = await downscale(body);
+      outputType = "image/webp";
+    } catch (error) {
+      // Formats sharp cannot decode are passed through unchanged
+      console.warn(`Image proxy could not downscale ${url.href}:`, error);
+    }
+  }
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", outputType);
+  res.setHeader("Content-Length", body.length);
+  res.setHeader("Cache-Control", CACHE_CONTROL);
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.end(req.method === "HEAD" ? undefined : body);
+}
@@ -9,6 +9,8 @@ import SearchPage from "./pages/Search";
 import LibraryPage from "./pages/Library";
 import SettingsPage from "./pages/Settings";
 import SeriesDetail from "./pages/SeriesDetail";
+import ReaderPage from "./pages/Reader";
+import DiagnosticsPage from "./pages/Diagnostics";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -34,7 +36,9 @@ const App = () => (
               <Route path="/search" element={<SearchPage />} />
               <Route path="/library" element={<LibraryPage />} />
               <Route path="/series/:provider/:id" element={<SeriesDetail />} />
+              <Route path="/read/:chapterId" element={<ReaderPage />} />
               <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/diagnostics" element={<DiagnosticsPage />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { MANGA_PROVIDERS } from '@/lib/api';
+import { providerRegistry } from '@/lib/manga/providers/registry';
 
 interface AdvancedSearchFilters {
   query: string;
@@ -73,6 +73,7 @@ const LANGUAGE_OPTIONS = [
 ];
 
 export default function AdvancedSearch({ onClose, onSearch }: AdvancedSearchProps) {
+  const providers = providerRegistry.getDescriptors().filter(provider => provider.enabled);
   const [filters, setFilters] = useState<AdvancedSearchFilters>({
     query: '',
     provider: 'all',
@@ -154,7 +155,7 @@ export default function AdvancedSearch({ onClose, onSearch }: AdvancedSearchProp
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Providers</SelectItem>
-                {MANGA_PROVIDERS.map(provider => (
+                {providers.map(provider => (
                   <SelectItem key={provider.id} value={provider.id}>
                     {provider.name}
                   </SelectItem>
@@ -4,21 +4,16 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Star, Plus, Check } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { searchWithRetry } from '@/lib/api';
-import { addToLibrary, getLibrary } from '@/lib/storage';
-import { MangaSearchResult, LibrarySeries } from '@/types/manga';
+import { getPopularManga, getCoverUrl } from '@/lib/manga/api';
+import { Manga } from '@/lib/manga/schema';
+import { withPrimarySource } from '@/lib/manga/links';
+import { addToLibrary, getLibrary, libraryGlobalId, toLibrarySeries } from '@/lib/storage';
 import { useToast } from '@/hooks/use-toast';
 
-const POPULAR_QUERIES = [
-  'One Piece',
-  'Attack on Titan', 
-  'Demon Slayer',
-  'My Hero Academia',
-  'Death Note'
-];
+const POPULAR_COUNT = 6;
 
 export default function PopularSection() {
-  const [popularManga, setPopularManga] = useState<MangaSearchResult[]>([]);
+  const [popularManga, setPopularManga] = useState<Manga[]>([]);
   const [loading, setLoading] = useState(true);
   const [librarySeriesIds, setLibrarySeriesIds] = useState<Set<string>>(new Set());
   const navigate = useNavigate();
@@ -32,21 +27,8 @@ export default function PopularSection() {
   const loadPopularManga = async () => {
     try {
       setLoading(true);
-      const results: MangaSearchResult[] = [];
-      
-      // Fetch popular manga from different queries
-      for (const query of POPULAR_QUERIES.slice(0, 3)) {
-        try {
-          const response = await searchWithRetry(query);
-          if (response.data && response.data.length > 0) {
-            results.push(response.data[0]);
-          }
-        } catch (error) {
-          console.error(`Failed to fetch ${query}:`, error);
-        }
-      }
-      
-      setPopularManga(results.slice(0, 6));
+      const response = await getPopularManga();
+      setPopularManga(response.data.slice(0, POPULAR_COUNT));
     } catch (error) {
       console.error('Failed to load popular manga:', error);
     } finally {
@@ -57,26 +39,19 @@ export default function PopularSection() {
   const loadLibraryIds = async () => {
     try {
       const library = await getLibrary();
-      const ids = new Set(library.map(s => `${s.source}-${s.seriesId}`));
+      const ids = new Set(library.map(s => libraryGlobalId(s)));
       setLibrarySeriesIds(ids);
     } catch (error) {
       console.error('Failed to load library:', error);
     }
   };
 
-  const handleAddToLibrary = async (manga: MangaSearchResult) => {
+  const handleAddToLibrary = async (manga: Manga) => {
     try {
-      const series: Omit<LibrarySeries, 'addedAt'> = {
-        source: 'jikan',
-        seriesId: manga.mal_id.toString(),
-        title: manga.title,
-        coverUrl: manga.images.jpg.large_image_url || manga.images.jpg.image_url,
-        lang: 'en',
-        status: 'plan-to-read'
-      };
+      const series = toLibrarySeries(withPrimarySource(manga));
 
       await addToLibrary(series);
-      setLibrarySeriesIds(prev => new Set([...prev, `jikan-${manga.mal_id}`]));
+      setLibrarySeriesIds(prev => new Set([...prev, libraryGlobalId(series)]));
       
       toast({
         title: 'Added to library',
@@ -91,16 +66,19 @@ export default function PopularSection() {
     }
   };
 
-  const isInLibrary = (manga: MangaSearchResult) => {
-    return librarySeriesIds.has(`jikan-${manga.mal_id}`);
+  const isInLibrary = (manga: Manga) => {
+    const series = toLibrarySeries(withPrimarySource(manga));
+    return librarySeriesIds.has(libraryGlobalId(series));
   };
 
+  const openSeries = (manga: Manga) => navigate(`/series/${manga.provider}/${manga.providerId}`);
+
   if (loading) {
     return (
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">Popular</h2>
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-          {Array.from({ length: 6 }).map((_, i) => (
+          {Array.from({ length: POPULAR_COUNT }).map((_, i) => (
             <Card key={i} className="overflow-hidden">
               <div className="aspect-[3/4] bg-muted animate-pulse" />
               <CardContent className="p-3">
@@ -120,7 +98,7 @@ export default function PopularSection() {
         <Button
           variant="ghost"
           size="sm"
-          onClick={() => navigate('/search?q=popular')}
+          onClick={() => navigate('/search')}
         >
           View All
         </Button>
@@ -129,15 +107,15 @@ export default function PopularSection() {
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {popularManga.map((manga) => (
           <Card 
-            key={manga.mal_id}
+            key={manga.id}
             className="group overflow-hidden hover:shadow-lg smooth-transition glass-card"
           >
             <div className="aspect-[3/4] relative overflow-hidden">
               <img
-                src={manga.images.jpg.large_image_url || manga.images.jpg.image_url}
+                src={getCoverUrl(manga.cover)}
                 alt={manga.title}
                 className="w-full h-full object-cover group-hover:scale-105 smooth-transition cursor-pointer"
-                onClick={() => navigate(`/series/jikan/${manga.mal_id}`)}
+                onClick={() => openSeries(manga)}
                 onError={(e) => {
                   const target = e.target as HTMLImageElement;
                   target.src = '/placeholder.svg';
@@ -153,7 +131,7 @@ export default function PopularSection() {
                     size="sm"
                     variant="secondary"
                     className="w-full"
-                    onClick={() => navigate(`/series/jikan/${manga.mal_id}`)}
+                    onClick={() => openSeries(manga)}
                   >
                     <Check className="mr-1 h-3 w-3" />
                     In Library
@@ -188,7 +166,7 @@ export default function PopularSection() {
             <CardContent className="p-3">
               <h3 
                 className="font-medium text-sm line-clamp-2 cursor-pointer hover:text-primary smooth-transition"
-                onClick={() => navigate(`/series/jikan/${manga.mal_id}`)}
+                onClick={() => openSeries(manga)}
               >
                 {manga.title}
               </h3>
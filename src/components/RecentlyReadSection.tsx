@@ -4,8 +4,10 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { BookOpen, Clock } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { getLibrary, getProgress } from '@/lib/storage';
+import { getLibrary, getCurrentProgress, libraryGlobalId, findSeriesProgress } from '@/lib/storage';
 import { LibrarySeries, ReadingProgress } from '@/types/manga';
+import { getReaderPath } from '@/lib/utils';
+import { getCoverUrl } from '@/lib/manga/api';
 
 export default function RecentlyReadSection() {
   const [recentlyRead, setRecentlyRead] = useState<LibrarySeries[]>([]);
@@ -22,7 +24,7 @@ export default function RecentlyReadSection() {
       setLoading(true);
       const [library, allProgress] = await Promise.all([
         getLibrary(),
-        getProgress()
+        getCurrentProgress()
       ]);
 
       // Filter series that have been read and sort by last read time
@@ -44,9 +46,21 @@ export default function RecentlyReadSection() {
     }
   };
 
-  const getSeriesProgress = (seriesId: string) => {
-    const seriesProgress = Object.values(progress).find(p => p.seriesId === seriesId);
-    return seriesProgress;
+  const getSeriesProgress = (series: LibrarySeries) => findSeriesProgress(progress, series);
+
+  // Resume unfinished chapters directly, otherwise open the series page
+  const handleSeriesClick = (series: LibrarySeries) => {
+    const seriesProgress = getSeriesProgress(series);
+    const provider = series.provider || series.source;
+
+    if (seriesProgress && seriesProgress.percent < 100 && seriesProgress.chapterId.includes(':')) {
+      navigate(getReaderPath(seriesProgress.chapterId, {
+        seriesId: `${provider}:${series.seriesId}`,
+        page: seriesProgress.lastPage
+      }));
+    } else {
+      navigate(`/series/${provider}/${series.seriesId}`);
+    }
   };
 
   if (loading) {
@@ -103,17 +117,17 @@ export default function RecentlyReadSection() {
       
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {recentlyRead.map((series) => {
-          const seriesProgress = getSeriesProgress(series.seriesId);
+          const seriesProgress = getSeriesProgress(series);
           
           return (
             <Card 
-              key={`${series.source}-${series.seriesId}`}
+              key={libraryGlobalId(series)}
               className="group overflow-hidden hover:shadow-lg smooth-transition glass-card cursor-pointer"
-              onClick={() => navigate(`/series/${series.source}/${series.seriesId}`)}
+              onClick={() => handleSeriesClick(series)}
             >
               <div className="aspect-[3/4] relative overflow-hidden">
                 <img
-                  src={series.coverUrl}
+                  src={getCoverUrl(series.coverUrl)}
                   alt={series.title}
                   className="w-full h-full object-cover group-hover:scale-105 smooth-transition"
                   onError={(e) => {
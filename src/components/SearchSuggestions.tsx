@@ -1,9 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Clock, TrendingUp, Search } from 'lucide-react';
-import { searchSuggestions } from '@/lib/api';
-import { MangaSearchResult } from '@/types/manga';
+import { searchMangaMulti, getCoverUrl } from '@/lib/manga/api';
+import { isAbortError } from '@/lib/manga/http';
+import { providerRegistry } from '@/lib/manga/providers/registry';
+import { Manga } from '@/lib/manga/schema';
 
 interface SearchSuggestionsProps {
   query: string;
@@ -39,7 +41,7 @@ const GENRE_SUGGESTIONS = [
 
 export default function SearchSuggestions({ query, onSelect, isVisible }: SearchSuggestionsProps) {
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
-  const [apiSuggestions, setApiSuggestions] = useState<MangaSearchResult[]>([]);
+  const [apiSuggestions, setApiSuggestions] = useState<Manga[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -54,31 +56,40 @@ export default function SearchSuggestions({ query, onSelect, isVisible }: Search
     }
   }, []);
 
-  const fetchSuggestions = useCallback(async (searchQuery: string) => {
-    if (!searchQuery.trim() || searchQuery.length < 2) {
+  useEffect(() => {
+    if (!query.trim() || query.length < 2) {
       setApiSuggestions([]);
       return;
     }
 
-    setIsLoading(true);
-    try {
-      const response = await searchSuggestions(searchQuery);
-      setApiSuggestions(response.data || []);
-    } catch (error) {
-      console.error('Failed to fetch suggestions:', error);
-      setApiSuggestions([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    // Suggestions come from the preferred source only, to spare the others a request per keystroke
+    const provider = providerRegistry.getEnabledProviders()[0];
+    if (!provider) return;
 
-  useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      fetchSuggestions(query);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await searchMangaMulti(query, {
+          providers: [provider.id],
+          limit: 5,
+          signal: controller.signal
+        });
+        setApiSuggestions(response.data);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Failed to fetch suggestions:', error);
+        setApiSuggestions([]);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
     }, 300); // Debounce API calls
 
-    return () => clearTimeout(timeoutId);
-  }, [query, fetchSuggestions]);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [query]);
 
   const saveRecentSearch = (searchQuery: string) => {
     const trimmed = searchQuery.trim();
@@ -174,12 +185,12 @@ export default function SearchSuggestions({ query, onSelect, isVisible }: Search
               <div className="space-y-1">
                 {apiSuggestions.slice(0, 5).map((manga) => (
                   <button
-                    key={manga.mal_id}
+                    key={manga.id}
                     className="flex items-center gap-3 w-full text-left px-2 py-2 rounded hover:bg-muted smooth-transition"
                     onClick={() => handleSelect(manga.title)}
                   >
                     <img
-                      src={manga.images.jpg.small_image_url}
+                      src={getCoverUrl(manga.cover)}
                       alt={manga.title}
                       className="w-8 h-10 object-cover rounded"
                       onError={(e) => {
@@ -0,0 +1,77 @@
+import { Download, CheckCircle2, Pause, Play, RotateCcw, X, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DownloadJob } from '@/lib/downloads';
+
+interface ChapterDownloadButtonProps {
+  job?: DownloadJob;
+  isDownloaded: boolean;
+  onDownload: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onDelete: () => void;
+}
+
+// Download state and controls for one chapter row. Clicks never reach the row,
+// which would otherwise open the reader.
+export default function ChapterDownloadButton({
+  job,
+  isDownloaded,
+  onDownload,
+  onPause,
+  onResume,
+  onDelete
+}: ChapterDownloadButtonProps) {
+  const handle = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  if (isDownloaded && (!job || job.status === 'completed')) {
+    return (
+      <Button variant="ghost" size="sm" title="Downloaded - click to remove" onClick={handle(onDelete)}>
+        <CheckCircle2 className="h-4 w-4 text-primary" />
+      </Button>
+    );
+  }
+
+  if (!job) {
+    return (
+      <Button variant="ghost" size="sm" title="Download chapter" onClick={handle(onDownload)}>
+        <Download className="h-4 w-4" />
+      </Button>
+    );
+  }
+
+  const percent = job.totalPages > 0 ? Math.round((job.downloadedPages / job.totalPages) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-1">
+      {job.status === 'downloading' && (
+        <>
+          <span className="text-xs text-muted-foreground w-9 text-right">{percent}%</span>
+          <Button variant="ghost" size="sm" title="Pause download" onClick={handle(onPause)}>
+            <Pause className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      {job.status === 'queued' && (
+        <Button variant="ghost" size="sm" title="Queued - click to pause" onClick={handle(onPause)}>
+          <Clock className="h-4 w-4" />
+        </Button>
+      )}
+      {job.status === 'paused' && (
+        <Button variant="ghost" size="sm" title="Resume download" onClick={handle(onResume)}>
+          <Play className="h-4 w-4" />
+        </Button>
+      )}
+      {job.status === 'failed' && (
+        <Button variant="ghost" size="sm" title={job.error || 'Download failed - click to retry'} onClick={handle(onResume)}>
+          <RotateCcw className="h-4 w-4 text-destructive" />
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" title="Cancel download" onClick={handle(onDelete)}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
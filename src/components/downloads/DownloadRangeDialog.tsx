@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+interface DownloadRangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  minChapter: number;
+  maxChapter: number;
+  onConfirm: (from: number, to: number) => void;
+}
+
+export default function DownloadRangeDialog({
+  open,
+  onOpenChange,
+  minChapter,
+  maxChapter,
+  onConfirm
+}: DownloadRangeDialogProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setFrom(minChapter.toString());
+      setTo(maxChapter.toString());
+    }
+  }, [open, minChapter, maxChapter]);
+
+  const fromNumber = parseFloat(from);
+  const toNumber = parseFloat(to);
+  const isValid = !isNaN(fromNumber) && !isNaN(toNumber) && fromNumber <= toNumber;
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm(fromNumber, toNumber);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Download Range</DialogTitle>
+          <DialogDescription>
+            Save a range of chapters for reading offline
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="range-from">From chapter</Label>
+            <Input
+              id="range-from"
+              type="number"
+              step="any"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="range-to">To chapter</Label>
+            <Input
+              id="range-to"
+              type="number"
+              step="any"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid}>
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getSeries } from '@/lib/manga/api';
+import { Chapter, Manga } from '@/lib/manga/schema';
+import {
+  ExportFormat,
+  ExportProgress,
+  PageFailure,
+  exportChapters,
+  groupIntoVolumes
+} from '@/lib/export/exporter';
+import { downloadBlob } from '@/lib/utils';
+
+type Grouping = 'chapter' | 'volume' | 'single';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  seriesId: string; // provider:seriesId format
+}
+
+export default function ExportDialog({ open, onOpenChange, seriesId }: ExportDialogProps) {
+  const { toast } = useToast();
+  const [manga, setManga] = useState<Manga | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [format, setFormat] = useState<ExportFormat>('cbz');
+  const [grouping, setGrouping] = useState<Grouping>('chapter');
+  const [chaptersPerVolume, setChaptersPerVolume] = useState('10');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [failures, setFailures] = useState<PageFailure[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    // Closing the dialog cancels the requests
+    const controller = new AbortController();
+    setLoading(true);
+    setFailures(null);
+    setProgress(null);
+
+    getSeries(seriesId, { signal: controller.signal })
+      .then(({ manga: mangaData, chapters: chaptersData }) => {
+        if (controller.signal.aborted) return;
+        const numbers = chaptersData.map(c => parseFloat(c.chapterNumber)).filter(n => !isNaN(n));
+        setManga(mangaData);
+        setChapters(chaptersData);
+        setFrom(numbers.length > 0 ? Math.min(...numbers).toString() : '');
+        setTo(numbers.length > 0 ? Math.max(...numbers).toString() : '');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load series for export:', error);
+        setManga(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [open, seriesId]);
+
+  const fromNumber = parseFloat(from);
+  const toNumber = parseFloat(to);
+  const selected = chapters.filter(chapter => {
+    const number = parseFloat(chapter.chapterNumber);
+    return number >= fromNumber && number <= toNumber;
+  });
+
+  const handleExport = async () => {
+    if (!manga || selected.length === 0) return;
+
+    const size = grouping === 'chapter' ? 0
+      : grouping === 'single' ? selected.length
+      : Math.max(1, parseInt(chaptersPerVolume) || 1);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsExporting(true);
+    setFailures(null);
+
+    try {
+      const result = await exportChapters({
+        manga,
+        volumes: groupIntoVolumes(selected, size),
+        format,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+
+      result.files.forEach(file => downloadBlob(file.blob, file.filename));
+      setFailures(result.failures);
+
+      toast({
+        title: controller.signal.aborted ? 'Export cancelled' : 'Export finished',
+        description: `${result.files.length} file${result.files.length === 1 ? '' : 's'} saved` +
+          (result.failures.length > 0 ? `, ${result.failures.length} failed` : '')
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Export failed:', error);
+        toast({
+          title: 'Export failed',
+          description: error instanceof Error ? error.message : 'Could not export chapters',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Chapters</DialogTitle>
+          <DialogDescription>
+            Save chapters as CBZ comic archives or fixed-layout EPUB books
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading chapters...</p>
+        ) : !manga ? (
+          <p className="text-sm text-muted-foreground">This series could not be loaded from its source.</p>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex gap-6"
+              disabled={isExporting}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="cbz" id="format-cbz" />
+                <Label htmlFor="format-cbz">CBZ</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="epub" id="format-epub" />
+                <Label htmlFor="format-epub">EPUB</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-from">From chapter</Label>
+                <Input
+                  id="export-from"
+                  type="number"
+                  step="any"
+                  value={from}
+                  disabled={isExporting}
+                  onChange={(e) => setFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to">To chapter</Label>
+                <Input
+                  id="export-to"
+                  type="number"
+                  step="any"
+                  value={to}
+                  disabled={isExporting}
+                  onChange={(e) => setTo(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Files</Label>
+              <div className="flex gap-2">
+                <Select value={grouping} onValueChange={(value: Grouping) => setGrouping(value)} disabled={isExporting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="chapter">One file per chapter</SelectItem>
+                    <SelectItem value="volume">Group into volumes</SelectItem>
+                    <SelectItem value="single">Everything in one file</SelectItem>
+                  </SelectContent>
+                </Select>
+                {grouping === 'volume' && (
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-28"
+                    aria-label="Chapters per volume"
+                    value={chaptersPerVolume}
+                    disabled={isExporting}
+                    onChange={(e) => setChaptersPerVolume(e.target.value)}
+                  />
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {selected.length} chapter{selected.length === 1 ? '' : 's'} selected
+                {grouping === 'volume' && ', grouped by the number of chapters per volume'}
+              </p>
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="truncate">{progress.fileName}</span>
+                  <span>
+                    {progress.fileIndex + 1} / {progress.fileCount}
+                  </span>
+                </div>
+                <Progress value={(progress.completedPages / Math.max(progress.totalPages, 1)) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {progress.completedPages} of {progress.totalPages} pages
+                  {progress.failedPages > 0 && ` · ${progress.failedPages} failed`}
+                </p>
+              </div>
+            )}
+
+            {failures && failures.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-destructive">
+                  Some pages could not be exported ({failures.length})
+                </Label>
+                <ScrollArea className="max-h-40 rounded-md border p-2">
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {failures.map((failure, index) => (
+                      <li key={index}>
+                        {failure.chapterLabel}
+                        {failure.page !== undefined ? `, page ${failure.page}` : ''}: {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={!manga || selected.length === 0 || isExporting}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -37,6 +37,11 @@ export function Header() {
 
   const isActive = (path: string) => location.pathname === path;
 
+  // The reader renders its own full-screen controls
+  if (location.pathname.startsWith('/read/')) {
+    return null;
+  }
+
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 max-w-screen-xl items-center justify-between px-4">
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { LocalImportProgress, importLocalFiles, suggestSeriesTitle } from '@/lib/local/importer';
+import { addToLibrary } from '@/lib/storage';
+
+interface LocalImportDialogProps {
+  files: File[] | null;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export default function LocalImportDialog({ files, onOpenChange, onImported }: LocalImportDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [progress, setProgress] = useState<LocalImportProgress | null>(null);
+
+  useEffect(() => {
+    if (files) {
+      setTitle(suggestSeriesTitle(files));
+      setProgress(null);
+    }
+  }, [files]);
+
+  const handleImport = async () => {
+    if (!files) return;
+
+    try {
+      setProgress({ processed: 0, total: 1, current: '' });
+      const { series, skipped } = await importLocalFiles(files, title, setProgress);
+
+      await addToLibrary({
+        source: 'custom',
+        seriesId: series.id,
+        title: series.title,
+        coverUrl: series.cover,
+        lang: 'en',
+        status: 'plan-to-read',
+        provider: 'local',
+        providerId: series.id
+      });
+
+      toast({
+        title: 'Imported',
+        description: `${series.title}: ${series.chapters.length} chapter${series.chapters.length === 1 ? '' : 's'} added` +
+          (skipped.length > 0 ? `, ${skipped.length} file${skipped.length === 1 ? '' : 's'} skipped` : '')
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Could not import the selected files',
+        variant: 'destructive'
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!files} onOpenChange={(next) => !progress && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Local Files</DialogTitle>
+          <DialogDescription>
+            Each archive or folder of images becomes one chapter. Files are copied into this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="local-title">Series title</Label>
+            <Input
+              id="local-title"
+              value={title}
+              disabled={!!progress}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {files?.length || 0} file{files?.length === 1 ? '' : 's'} selected
+          </p>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="truncate">{progress.current || 'Finishing...'}</span>
+                <span>{progress.processed} / {progress.total}</span>
+              </div>
+              <Progress value={(progress.processed / Math.max(progress.total, 1)) * 100} className="h-2" />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!progress}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!!progress || !files?.length}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useInView } from 'react-intersection-observer';
 import { ChevronLeft, ChevronRight, Menu, Settings, BookOpen, Home, Maximize, Minimize } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -8,18 +9,54 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { useToast } from '@/hooks/use-toast';
-import { getChapterPages, getMangaDetails, getChapters } from '@/lib/manga/api';
+import { getChapterPages, getMangaDetails, getMergedChapters, getPageImageUrl } from '@/lib/manga/api';
+import { getChapterIds, hasChapterId } from '@/lib/manga/chapters';
+import { providerRegistry } from '@/lib/manga/providers/registry';
+import { seriesLinks } from '@/lib/manga/links';
 import { PageImage, Chapter, Manga } from '@/lib/manga/schema';
-import { getProgress, saveProgress } from '@/lib/storage';
+import { getChapterProgress, updateProgress } from '@/lib/storage';
+import { getDownloadedPages } from '@/lib/downloads';
 import { useSettings } from '@/hooks/useSettings';
+import { getReaderPath } from '@/lib/utils';
 
 interface ReaderProps {
-  chapterId: string;
+  chapterId: string; // provider:chapterId format
+  seriesId?: string; // provider:seriesId format
 }
 
 type ReaderMode = 'webtoon' | 'pages';
 
-export default function Reader({ chapterId }: ReaderProps) {
+interface WebtoonPageProps {
+  src: string;
+  pageNumber: number;
+  onVisible: (pageNumber: number) => void;
+}
+
+// Reports itself as the current page while it crosses the middle of the viewport
+function WebtoonPage({ src, pageNumber, onVisible }: WebtoonPageProps) {
+  const { ref } = useInView({
+    rootMargin: '-50% 0px -50% 0px',
+    onChange: (inView) => {
+      if (inView) onVisible(pageNumber);
+    }
+  });
+
+  return (
+    <div ref={ref} data-page={pageNumber} className="flex justify-center">
+      <img
+        src={src}
+        alt={`Page ${pageNumber}`}
+        className="max-w-full h-auto"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.src = '/placeholder.svg';
+        }}
+      />
+    </div>
+  );
+}
+
+export default function Reader({ chapterId, seriesId }: ReaderProps) {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -41,15 +78,28 @@ export default function Reader({ chapterId }: ReaderProps) {
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
+  const loadControllerRef = useRef<AbortController | null>(null);
 
-  // Parse chapter ID and get series ID
-  const seriesId = chapterId.split(':').slice(0, 2).join(':');
+  // Library and progress entries are keyed by the provider-local series ID
+  // and its provider. Progress of linked series is kept with the primary source
+  const [libraryProvider, librarySeriesId] = seriesId ? seriesLinks.getPrimary(seriesId).split(':') : [];
 
   // Load data
   useEffect(() => {
     loadReaderData();
+    // Leaving the chapter cancels whatever is still loading
+    return () => loadControllerRef.current?.abort();
   }, [chapterId]);
 
+  // Release the object URLs of downloaded pages
+  useEffect(() => {
+    return () => {
+      pages.forEach(page => {
+        if (page.originalUrl.startsWith('blob:')) URL.revokeObjectURL(page.originalUrl);
+      });
+    };
+  }, [pages]);
+
   // Auto-hide controls
   useEffect(() => {
     const resetTimeout = () => {
@@ -99,11 +149,11 @@ export default function Reader({ chapterId }: ReaderProps) {
           break;
         case 'Home':
           event.preventDefault();
-          setCurrentPage(1);
+          goToPage(1);
           break;
         case 'End':
           event.preventDefault();
-          setCurrentPage(pages.length);
+          goToPage(pages.length);
           break;
         case 'Escape':
           if (isFullscreen) {
@@ -130,52 +180,99 @@ export default function Reader({ chapterId }: ReaderProps) {
 
   // Save progress
   useEffect(() => {
-    if (currentChapter && pages.length > 0) {
-      const progress = {
-        seriesId,
-        chapterId,
-        lastPage: currentPage,
-        totalPages: pages.length,
-        percent: Math.round((currentPage / pages.length) * 100),
-        updatedAt: new Date().toISOString()
-      };
-      
-      saveProgress({ [seriesId]: progress });
+    if (!loading && librarySeriesId && pages.length > 0) {
+      updateProgress(librarySeriesId, chapterId, currentPage, pages.length, libraryProvider).catch(error => {
+        console.error('Failed to save reading progress:', error);
+      });
     }
-  }, [currentPage, pages.length, chapterId, seriesId, currentChapter]);
+  }, [loading, currentPage, pages.length, chapterId, librarySeriesId, libraryProvider]);
+
+  // Restore the scroll position once the long strip is rendered. The page is
+  // read through a ref so scrolling through the strip does not re-run this.
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+  useEffect(() => {
+    const page = currentPageRef.current;
+    if (!loading && readerMode === 'webtoon' && page > 1) {
+      containerRef.current
+        ?.querySelector(`[data-page="${page}"]`)
+        ?.scrollIntoView({ block: 'start' });
+    }
+  }, [loading, readerMode]);
 
   const loadReaderData = async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const { signal } = controller;
+
     try {
       setLoading(true);
       setError(null);
 
-      // Load pages for current chapter
-      const [pagesData, mangaData, chaptersData] = await Promise.all([
-        getChapterPages(chapterId, { dataSaver }),
-        getMangaDetails(seriesId),
-        getChapters(seriesId)
+      // Downloaded chapters are read from IndexedDB without touching the network.
+      // Series metadata is optional: the reader still works without it
+      const [firstPages, mangaData, chaptersData] = await Promise.all([
+        getDownloadedPages(chapterId)
+          .catch(() => null)
+          .then(downloaded => downloaded || getChapterPages(chapterId, { dataSaver, signal }))
+          .catch(error => {
+            if (signal.aborted) throw error;
+            console.error(`Failed to load pages for ${chapterId}:`, error);
+            return null;
+          }),
+        seriesId ? getMangaDetails(seriesId, { signal }).catch(() => null) : Promise.resolve(null),
+        seriesId ? getMergedChapters(seriesId, { signal }) : Promise.resolve([] as Chapter[])
       ]);
+      const chapter = chaptersData.find(c => hasChapterId(c, chapterId));
+
+      // Other sources of the same chapter are tried when this one has no pages
+      let pagesData = firstPages || [];
+      if (pagesData.length === 0 && chapter) {
+        for (const alternativeId of getChapterIds(chapter).filter(id => id !== chapterId)) {
+          pagesData = await getChapterPages(alternativeId, { dataSaver, signal }).catch(() => []);
+          if (signal.aborted) return;
+          if (pagesData.length > 0) {
+            const providerId = alternativeId.split(':')[0];
+            toast({
+              title: 'Switched source',
+              description: `Loaded from ${providerRegistry.getProvider(providerId)?.displayName || providerId}`
+            });
+            break;
+          }
+        }
+      }
+      if (!firstPages && pagesData.length === 0) {
+        throw new Error('Failed to load chapter pages');
+      }
 
+      // Resume from ?page= first, then from saved progress
+      let initialPage = 1;
+      const pageParam = parseInt(searchParams.get('page') || '');
+      if (pageParam >= 1 && pageParam <= pagesData.length) {
+        initialPage = pageParam;
+      } else {
+        // Finished chapters start over from the first page
+        const savedProgress = await getChapterProgress(chapterId);
+        if (savedProgress && savedProgress.percent < 100 && savedProgress.lastPage <= pagesData.length) {
+          initialPage = savedProgress.lastPage;
+        }
+      }
+      if (signal.aborted) return;
+
+      setCurrentPage(initialPage);
       setPages(pagesData);
       setManga(mangaData);
       setChapters(chaptersData);
 
-      // Find current chapter
-      const chapter = chaptersData.find(c => c.id === chapterId);
       setCurrentChapter(chapter || null);
 
       if (pagesData.length === 0) {
         setError('No pages found for this chapter');
       }
 
-      // Load saved progress
-      const savedProgress = await getProgress();
-      const progress = savedProgress[seriesId];
-      if (progress && progress.chapterId === chapterId) {
-        setCurrentPage(progress.lastPage);
-      }
-
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Failed to load reader data:', error);
       setError('Failed to load chapter');
       toast({
@@ -184,49 +281,55 @@ export default function Reader({ chapterId }: ReaderProps) {
         variant: 'destructive'
       });
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  // Keep ?page= in sync without adding a history entry per page
+  const goToPage = useCallback((page: number) => {
+    setCurrentPage(page);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('page', page.toString());
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
   const goToNextPage = useCallback(() => {
     if (currentPage < pages.length) {
-      const nextPage = currentPage + 1;
-      setCurrentPage(nextPage);
-      setSearchParams({ page: nextPage.toString() });
+      goToPage(currentPage + 1);
     } else {
       // Go to next chapter
       goToNextChapter();
     }
-  }, [currentPage, pages.length, setSearchParams]);
+  }, [currentPage, pages.length, goToPage]);
 
   const goToPreviousPage = useCallback(() => {
     if (currentPage > 1) {
-      const prevPage = currentPage - 1;
-      setCurrentPage(prevPage);
-      setSearchParams({ page: prevPage.toString() });
+      goToPage(currentPage - 1);
     } else {
       // Go to previous chapter
       goToPreviousChapter();
     }
-  }, [currentPage, setSearchParams]);
+  }, [currentPage, goToPage]);
 
   const goToNextChapter = () => {
     if (!currentChapter || chapters.length === 0) return;
     
-    const currentIndex = chapters.findIndex(c => c.id === chapterId);
+    const currentIndex = chapters.findIndex(c => hasChapterId(c, chapterId));
     if (currentIndex >= 0 && currentIndex < chapters.length - 1) {
       const nextChapter = chapters[currentIndex + 1];
-      navigate(`/read/${nextChapter.id}`);
+      navigate(getReaderPath(nextChapter.id, { seriesId }));
     }
   };
 
   const goToPreviousChapter = () => {
     if (!currentChapter || chapters.length === 0) return;
     
-    const currentIndex = chapters.findIndex(c => c.id === chapterId);
+    const currentIndex = chapters.findIndex(c => hasChapterId(c, chapterId));
     if (currentIndex > 0) {
       const prevChapter = chapters[currentIndex - 1];
-      navigate(`/read/${prevChapter.id}`);
+      navigate(getReaderPath(prevChapter.id, { seriesId }));
     }
   };
 
@@ -383,24 +486,19 @@ export default function Reader({ chapterId }: ReaderProps) {
           // Long strip mode
           <div className="w-full max-w-4xl mx-auto space-y-2 overflow-y-auto h-full px-4">
             {pages.map((page, index) => (
-              <div key={index} className="flex justify-center">
-                <img
-                  src={`/api/image?src=${encodeURIComponent(page.originalUrl)}`}
-                  alt={`Page ${index + 1}`}
-                  className="max-w-full h-auto"
-                  onError={(e) => {
-                    const target = e.target as HTMLImageElement;
-                    target.src = '/placeholder.svg';
-                  }}
-                />
-              </div>
+              <WebtoonPage
+                key={index}
+                src={getPageImageUrl(page, dataSaver)}
+                pageNumber={index + 1}
+                onVisible={goToPage}
+              />
             ))}
           </div>
         ) : (
           // Page by page mode
           <div className="relative w-full h-full flex items-center justify-center">
             <img
-              src={`/api/image?src=${encodeURIComponent(currentPageData.originalUrl)}`}
+              src={getPageImageUrl(currentPageData, dataSaver)}
               alt={`Page ${currentPage}`}
               className="max-w-full max-h-full object-contain"
               onError={(e) => {
@@ -442,10 +540,7 @@ export default function Reader({ chapterId }: ReaderProps) {
           <div className="flex-1">
             <Slider
               value={[currentPage]}
-              onValueChange={([value]) => {
-                setCurrentPage(value);
-                setSearchParams({ page: value.toString() });
-              }}
+              onValueChange={([value]) => goToPage(value)}
               min={1}
               max={pages.length}
               step={1}
@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link2, Loader2, Search, Star, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getSeriesSources, searchMangaMulti, getCoverUrl } from '@/lib/manga/api';
+import { linkSeries, seriesLinks, setPrimarySource, splitSeries } from '@/lib/manga/links';
+import { providerRegistry } from '@/lib/manga/providers/registry';
+
+interface SeriesSourcesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  seriesId: string; // provider:seriesId format
+  title: string;
+}
+
+interface Candidate {
+  id: string; // provider:seriesId
+  title: string;
+  cover: string;
+}
+
+function getProviderName(globalId: string): string {
+  const provider = globalId.split(':')[0];
+  return providerRegistry.getProvider(provider)?.displayName || provider;
+}
+
+// Lists where a series is read from and lets the user correct search grouping:
+// link the same work from another source, split off a wrong one, or pick the
+// source the library entry and reading progress follow
+export default function SeriesSourcesDialog({ open, onOpenChange, seriesId, title }: SeriesSourcesDialogProps) {
+  const { toast } = useToast();
+  const [sources, setSources] = useState<string[]>([]);
+  const [primary, setPrimary] = useState(() => seriesLinks.getPrimary(seriesId));
+  const [query, setQuery] = useState(title);
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSources = useCallback(async () => {
+    const list = await getSeriesSources(seriesId);
+    setSources(list.map(source => `${source.provider}:${source.id}`));
+    setPrimary(seriesLinks.getPrimary(seriesId));
+  }, [seriesId]);
+
+  useEffect(() => {
+    if (!open) return;
+    loadSources();
+    setQuery(title);
+    setCandidates(null);
+  }, [open, title, loadSources]);
+
+  useEffect(() => seriesLinks.subscribe(() => {
+    loadSources();
+  }), [loadSources]);
+
+  const isLinked = !!seriesLinks.getLink(seriesId);
+
+  const run = async (action: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast(success);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update sources',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const { data } = await searchMangaMulti(query.trim(), { limit: 10 });
+      const known = new Set(sources);
+      setCandidates(data.flatMap(manga =>
+        (manga.sources || [{ provider: manga.provider, id: manga.providerId }])
+          .map(source => ({ id: `${source.provider}:${source.id}`, title: manga.title, cover: manga.cover }))
+          .filter(candidate => !known.has(candidate.id))
+      ));
+    } catch (error) {
+      console.error('Failed to search for sources:', error);
+      setCandidates([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleLink = (candidate: Candidate) => run(
+    async () => {
+      await linkSeries([...sources, candidate.id], primary);
+      setCandidates(prev => prev?.filter(other => other.id !== candidate.id) || null);
+    },
+    { title: 'Source linked', description: `${getProviderName(candidate.id)} now counts as the same series` }
+  );
+
+  const handleSplit = (sourceId: string) => run(
+    () => splitSeries(sourceId, sources),
+    { title: 'Source split off', description: `${getProviderName(sourceId)} is no longer grouped with this series` }
+  );
+
+  const handleMakePrimary = (sourceId: string) => run(
+    () => setPrimarySource(sourceId, sources),
+    { title: 'Primary source changed', description: `Your library entry and reading progress now follow ${getProviderName(sourceId)}` }
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sources</DialogTitle>
+          <DialogDescription>
+            Chapters are merged from every source of this series. Link a source search missed, or split off one
+            that is a different series.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sources.map(sourceId => {
+            const isPrimary = isLinked && sourceId === primary;
+            return (
+              <div key={sourceId} className="flex items-center gap-3 rounded-md border p-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{getProviderName(sourceId)}</span>
+                    {isPrimary && <Badge className="text-xs">Primary</Badge>}
+                    {sourceId === seriesId && <Badge variant="secondary" className="text-xs">This page</Badge>}
+                    {sourceId !== seriesId && (
+                      <Badge variant="outline" className="text-xs">
+                        {seriesLinks.areLinked(seriesId, sourceId) ? 'Linked' : 'Matched by search'}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">{sourceId.split(':')[1]}</p>
+                </div>
+
+                {sources.length > 1 && !isPrimary && (
+                  <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleMakePrimary(sourceId)}>
+                    <Star className="mr-2 h-4 w-4" />
+                    Make primary
+                  </Button>
+                )}
+                {sourceId !== seriesId && !isPrimary && (
+                  <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleSplit(sourceId)}>
+                    <Unlink className="mr-2 h-4 w-4" />
+                    Split
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="source-search">Link another source</Label>
+          <div className="flex gap-2">
+            <Input
+              id="source-search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            />
+            <Button variant="outline" onClick={handleSearch} disabled={isSearching || !query.trim()}>
+              {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          {candidates && (
+            <ScrollArea className="max-h-64">
+              {candidates.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No other sources found</p>
+              ) : (
+                <div className="space-y-1">
+                  {candidates.map(candidate => (
+                    <div key={candidate.id} className="flex items-center gap-3 rounded-md p-2 hover:bg-muted">
+                      <img
+                        src={getCoverUrl(candidate.cover)}
+                        alt={candidate.title}
+                        className="h-10 w-8 rounded object-cover"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = '/placeholder.svg';
+                        }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-sm font-medium">{candidate.title}</div>
+                        <div className="text-xs text-muted-foreground">{getProviderName(candidate.id)}</div>
+                      </div>
+                      <Button size="sm" variant="outline" disabled={isSaving} onClick={() => handleLink(candidate)}>
+                        <Link2 className="mr-2 h-4 w-4" />
+                        Link
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { BackupFile, ImportMode, ImportPreview, ImportChangeCounts, previewImport, importBackup } from '@/lib/backup';
+
+interface BackupImportDialogProps {
+  backup: BackupFile | null;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+function ChangeSummary({ label, counts }: { label: string; counts: ImportChangeCounts }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-medium">{label}</span>
+      <span className="text-muted-foreground">
+        +{counts.added} new · {counts.updated} updated · {counts.removed} removed · {counts.unchanged} unchanged
+      </span>
+    </div>
+  );
+}
+
+export default function BackupImportDialog({ backup, onOpenChange, onImported }: BackupImportDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!backup) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    previewImport(backup, mode).then(result => {
+      if (!cancelled) setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, mode]);
+
+  const handleImport = async () => {
+    if (!backup) return;
+
+    try {
+      setIsImporting(true);
+      await importBackup(backup, mode);
+      toast({
+        title: 'Import complete',
+        description: mode === 'merge' ? 'The backup was merged into your data' : 'Your data was replaced by the backup'
+      });
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      toast({
+        title: 'Import failed',
+        description: 'Could not import the backup file',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!backup} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Backup</DialogTitle>
+          <DialogDescription>
+            {backup && `Exported on ${new Date(backup.exportedAt).toLocaleString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value: ImportMode) => setMode(value)} className="space-y-2">
+          <div className="flex items-start gap-3">
+            <RadioGroupItem value="merge" id="import-merge" className="mt-1" />
+            <Label htmlFor="import-merge" className="space-y-1">
+              <span className="block">Merge</span>
+              <span className="block text-sm font-normal text-muted-foreground">
+                Keep your data and add the backup, preferring whichever copy was read most recently
+              </span>
+            </Label>
+          </div>
+          <div className="flex items-start gap-3">
+            <RadioGroupItem value="replace" id="import-replace" className="mt-1" />
+            <Label htmlFor="import-replace" className="space-y-1">
+              <span className="block">Replace</span>
+              <span className="block text-sm font-normal text-muted-foreground">
+                Discard your current library, progress and settings and use the backup instead
+              </span>
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <div className="space-y-2 rounded-md border p-3">
+          {preview ? (
+            <>
+              <ChangeSummary label="Library" counts={preview.library} />
+              <ChangeSummary label="Chapter progress" counts={preview.progress} />
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Settings</span>
+                <span className="text-muted-foreground">{preview.settingsChanged ? 'Replaced' : 'Unchanged'}</span>
+              </div>
+            </>
+          ) : (
+            <div className="h-16 bg-muted rounded animate-pulse" />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            onClick={handleImport}
+            disabled={!preview || isImporting}
+          >
+            {mode === 'merge' ? 'Merge Backup' : 'Replace Data'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
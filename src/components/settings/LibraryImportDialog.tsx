@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ImportedEntry } from '@/lib/import/schema';
+import {
+  ImportProgress,
+  LibraryImportResult,
+  ReviewItem,
+  importLibraryEntries,
+  getReviewQueue,
+  confirmReviewItem,
+  dismissReviewItem
+} from '@/lib/import/importer';
+import { Manga } from '@/lib/manga/schema';
+import { getCoverUrl } from '@/lib/manga/api';
+
+interface LibraryImportDialogProps {
+  open: boolean;
+  entries: ImportedEntry[] | null; // null opens the review queue only
+  onOpenChange: (open: boolean) => void;
+  onQueueChange: (size: number) => void; // keep it stable, a change re-runs the import
+}
+
+export default function LibraryImportDialog({ open, entries, onOpenChange, onQueueChange }: LibraryImportDialogProps) {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [result, setResult] = useState<LibraryImportResult | null>(null);
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const run = async () => {
+      if (entries) {
+        setResult(null);
+        const importResult = await importLibraryEntries(entries, update => {
+          if (!cancelled) setProgress(update);
+        });
+        if (cancelled) return;
+        setResult(importResult);
+        setProgress(null);
+      }
+
+      const reviewQueue = await getReviewQueue();
+      if (!cancelled) {
+        setQueue(reviewQueue);
+        onQueueChange(reviewQueue.length);
+      }
+    };
+
+    run().catch(error => {
+      console.error('Library import failed:', error);
+      toast({
+        title: 'Import failed',
+        description: 'Could not import the library',
+        variant: 'destructive'
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, entries, onQueueChange, toast]);
+
+  const removeFromQueue = (id: string) => {
+    setQueue(prev => {
+      const next = prev.filter(item => item.id !== id);
+      onQueueChange(next.length);
+      return next;
+    });
+  };
+
+  const handleConfirm = async (item: ReviewItem, manga: Manga) => {
+    try {
+      await confirmReviewItem(item.id, manga);
+      removeFromQueue(item.id);
+      toast({
+        title: 'Added to library',
+        description: `${item.entry.title} was linked to ${manga.title}`
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to add',
+        description: 'Could not add manga to library',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDismiss = async (item: ReviewItem) => {
+    await dismissReviewItem(item.id);
+    removeFromQueue(item.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !progress && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Library</DialogTitle>
+          <DialogDescription>
+            Series are matched against your sources by title. Uncertain matches need your confirmation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="truncate">Matching {progress.current}</span>
+              <span>{progress.processed} / {progress.total}</span>
+            </div>
+            <Progress value={(progress.processed / Math.max(progress.total, 1)) * 100} className="h-2" />
+          </div>
+        )}
+
+        {result && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="secondary">{result.added.length} added</Badge>
+            <Badge variant="outline">{result.queued.length} to review</Badge>
+            {result.failed.length > 0 && (
+              <Badge variant="destructive">{result.failed.length} failed</Badge>
+            )}
+          </div>
+        )}
+
+        {!progress && (
+          queue.length > 0 ? (
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <div className="space-y-4">
+                {queue.map(item => (
+                  <div key={item.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{item.entry.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.entry.origin === 'mal' ? 'MyAnimeList' : item.entry.sourceName || 'Tachiyomi'}
+                          {' · '}{item.entry.status.replace(/-/g, ' ')}
+                          {item.entry.chaptersRead ? ` · ${item.entry.chaptersRead} chapters read` : ''}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => handleDismiss(item)}>
+                        <X className="mr-1 h-4 w-4" />
+                        Skip
+                      </Button>
+                    </div>
+
+                    {item.candidates.length > 0 ? (
+                      item.candidates.map(({ manga, confidence }) => (
+                        <div key={manga.id} className="flex items-center gap-3">
+                          <img
+                            src={getCoverUrl(manga.cover)}
+                            alt={manga.title}
+                            className="w-8 h-11 object-cover rounded"
+                            onError={(e) => {
+                              const target = e.target as HTMLImageElement;
+                              target.src = '/placeholder.svg';
+                            }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm truncate">{manga.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {manga.provider} · {Math.round(confidence * 100)}% match
+                            </p>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={() => handleConfirm(item, manga)}>
+                            <Check className="mr-1 h-4 w-4" />
+                            Link
+                          </Button>
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No matching series found</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          ) : (
+            <p className="text-sm text-muted-foreground">No matches are waiting for review.</p>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
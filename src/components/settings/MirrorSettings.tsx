@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { MirrorStatus, consumetMirrors, normalizeMirrorUrl, saveMirrorList } from '@/lib/manga/providers/mirrors';
+
+function describeStatus(status: MirrorStatus): string {
+  if (!status.lastChecked && status.latencyMs === undefined) return 'Not checked yet';
+  if (!status.healthy) return status.lastError || 'Unreachable';
+  return status.latencyMs !== undefined ? `${status.latencyMs} ms` : 'Healthy';
+}
+
+export default function MirrorSettings() {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<MirrorStatus[]>(() => consumetMirrors.getStatuses());
+  const [activeUrl, setActiveUrl] = useState(() => consumetMirrors.getActiveUrl());
+  const [newMirror, setNewMirror] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = consumetMirrors.subscribe(() => {
+      setStatuses(consumetMirrors.getStatuses());
+      setActiveUrl(consumetMirrors.getActiveUrl());
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      await consumetMirrors.checkAll();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const save = async (urls: string[]) => {
+    try {
+      await saveMirrorList(urls);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save mirrors',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleAdd = async () => {
+    let url: string;
+    try {
+      url = normalizeMirrorUrl(newMirror);
+    } catch (error) {
+      toast({
+        title: 'Invalid mirror',
+        description: 'Enter the full URL of a Consumet instance, including http:// or https://',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    await save([...consumetMirrors.getMirrors(), url]);
+    setNewMirror('');
+    consumetMirrors.checkMirror(url);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const urls = consumetMirrors.getMirrors();
+    const target = index + offset;
+    if (target < 0 || target >= urls.length) return;
+
+    [urls[index], urls[target]] = [urls[target], urls[index]];
+    save(urls);
+  };
+
+  const handleRemove = (url: string) => {
+    save(consumetMirrors.getMirrors().filter(mirror => mirror !== url));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <Label>Consumet Mirrors</Label>
+          <p className="text-sm text-muted-foreground">
+            Requests use the first mirror that is responding and move to the next one on timeouts or server errors
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={isChecking}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+          Check
+        </Button>
+      </div>
+
+      {statuses.map((status, index) => (
+        <div key={status.url} className="flex items-center gap-3 rounded-md border p-3">
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Move mirror up"
+              disabled={index === 0}
+              onClick={() => handleMove(index, -1)}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Move mirror down"
+              disabled={index === statuses.length - 1}
+              onClick={() => handleMove(index, 1)}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="truncate text-sm font-medium">{status.url}</span>
+              {status.url === activeUrl && <Badge variant="secondary" className="text-xs">In use</Badge>}
+            </div>
+            <p className={`text-xs ${status.healthy ? 'text-muted-foreground' : 'text-destructive'}`}>
+              {describeStatus(status)}
+            </p>
+          </div>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Remove ${status.url}`}
+            disabled={statuses.length === 1}
+            onClick={() => handleRemove(status.url)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          type="url"
+          placeholder="http://localhost:3000"
+          value={newMirror}
+          onChange={(e) => setNewMirror(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <Button variant="outline" onClick={handleAdd} disabled={!newMirror.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArrowDown, ArrowUp, FileInput, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { ProviderDescriptor } from '@/lib/manga/providers/base';
+import { persistProviderPreferences, providerRegistry } from '@/lib/manga/providers/registry';
+import { SourceDefinition, parseSourceDefinition } from '@/lib/manga/sources/definition';
+import { isInstalledSource, removeSourceDefinition } from '@/lib/manga/sources/installed';
+import SourceDefinitionDialog from './SourceDefinitionDialog';
+
+export default function ProviderSettings() {
+  const { toast } = useToast();
+  const [providers, setProviders] = useState<ProviderDescriptor[]>(() => providerRegistry.getDescriptors());
+  const [pendingDefinition, setPendingDefinition] = useState<SourceDefinition | null>(null);
+  const definitionInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return providerRegistry.subscribe(() => setProviders(providerRegistry.getDescriptors()));
+  }, []);
+
+  const save = async () => {
+    try {
+      await persistProviderPreferences();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save source settings',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleToggle = (id: string, enabled: boolean) => {
+    providerRegistry.setEnabled(id, enabled);
+    save();
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = providers.map(provider => provider.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    providerRegistry.reorder(ids);
+    save();
+  };
+
+  const handleRemove = async (provider: ProviderDescriptor) => {
+    if (!confirm(`Remove ${provider.name}? Series from this source will no longer open.`)) return;
+
+    try {
+      await removeSourceDefinition(provider.id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the source',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDefinitionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingDefinition(parseSourceDefinition(await file.text()));
+    } catch (error) {
+      toast({
+        title: 'Invalid source definition',
+        description: error instanceof Error ? error.message : 'Could not read the file',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {providers.map((provider, index) => (
+        <div key={provider.id} className="flex items-center gap-3 rounded-md border p-3">
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Move ${provider.name} up`}
+              disabled={index === 0}
+              onClick={() => handleMove(index, -1)}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={`Move ${provider.name} down`}
+              disabled={index === providers.length - 1}
+              onClick={() => handleMove(index, 1)}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium">{provider.name}</span>
+              <Badge variant="outline" className="text-xs">{provider.id}</Badge>
+              {!provider.capabilities.pages && (
+                <Badge variant="secondary" className="text-xs">No reader</Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {provider.languages.join(', ')}
+              {provider.baseUrl && ` · ${provider.baseUrl}`}
+            </p>
+          </div>
+
+          {isInstalledSource(provider.id) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${provider.name}`}
+              onClick={() => handleRemove(provider)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Switch
+            checked={provider.enabled}
+            aria-label={`Use ${provider.name}`}
+            onCheckedChange={(checked) => handleToggle(provider.id, checked)}
+          />
+        </div>
+      ))}
+
+      <div className="pt-2">
+        <Button variant="outline" onClick={() => definitionInputRef.current?.click()}>
+          <FileInput className="mr-2 h-4 w-4" />
+          Add Source Definition
+        </Button>
+        <input
+          ref={definitionInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleDefinitionFile}
+        />
+        <p className="mt-2 text-sm text-muted-foreground">
+          Add a site from a JSON source definition; recorded responses in the file are checked first
+        </p>
+      </div>
+
+      <SourceDefinitionDialog
+        definition={pendingDefinition}
+        onOpenChange={(open) => !open && setPendingDefinition(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { SourceDefinition } from '@/lib/manga/sources/definition';
+import { FixtureResult, installSourceDefinition, isInstalledSource, testSourceDefinition } from '@/lib/manga/sources/installed';
+import { persistProviderPreferences } from '@/lib/manga/providers/registry';
+
+interface SourceDefinitionDialogProps {
+  definition: SourceDefinition | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SourceDefinitionDialog({ definition, onOpenChange }: SourceDefinitionDialogProps) {
+  const { toast } = useToast();
+  const [results, setResults] = useState<FixtureResult[] | null>(null);
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  useEffect(() => {
+    if (!definition) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    testSourceDefinition(definition).then(result => {
+      if (!cancelled) setResults(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [definition]);
+
+  const handleInstall = async () => {
+    if (!definition) return;
+
+    try {
+      setIsInstalling(true);
+      const updating = isInstalledSource(definition.id);
+      await installSourceDefinition(definition);
+      await persistProviderPreferences();
+      toast({
+        title: updating ? 'Source updated' : 'Source added',
+        description: `${definition.name} is now available in search`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Could not add source',
+        description: error instanceof Error ? error.message : 'Failed to install the source definition',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsInstalling(false);
+    }
+  };
+
+  const failed = results?.filter(result => !result.passed).length || 0;
+
+  return (
+    <Dialog open={!!definition} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Source</DialogTitle>
+          <DialogDescription>
+            {definition && `${definition.name} (${definition.id}) · ${definition.baseUrl}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Fixture checks</span>
+            {results && results.length > 0 && (
+              <Badge variant={failed > 0 ? 'destructive' : 'secondary'}>
+                {results.length - failed} of {results.length} passed
+              </Badge>
+            )}
+          </div>
+
+          {!results ? (
+            <div className="h-16 bg-muted rounded animate-pulse" />
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              This definition has no recorded responses, so it could not be checked before adding it
+            </p>
+          ) : (
+            <ScrollArea className="max-h-60 rounded-md border p-2">
+              <ul className="space-y-2 text-sm">
+                {results.map((result, index) => (
+                  <li key={index} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      {result.passed ? (
+                        <CheckCircle2 className="h-4 w-4 text-primary" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-destructive" />
+                      )}
+                      <span className="font-medium">{result.operation}</span>
+                      <span className="truncate text-muted-foreground">{result.input}</span>
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {result.itemCount} item{result.itemCount === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    {result.errors.map((error, i) => (
+                      <p key={i} className="pl-6 text-xs text-destructive">{error}</p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleInstall} disabled={!results || isInstalling}>
+            {definition && isInstalledSource(definition.id) ? 'Update Source' : 'Add Source'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
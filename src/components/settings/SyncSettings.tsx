@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AppSettings, getLastSync, getSyncConfig, saveSyncConfig } from '@/lib/storage';
+import { syncNow } from '@/lib/sync/scheduler';
+
+const HOUR = 60 * 60 * 1000;
+
+const SYNC_INTERVALS = [
+  { value: HOUR, label: 'Every hour' },
+  { value: 6 * HOUR, label: 'Every 6 hours' },
+  { value: 12 * HOUR, label: 'Every 12 hours' },
+  { value: 24 * HOUR, label: 'Every day' }
+];
+
+interface SyncSettingsProps {
+  settings: AppSettings;
+  updateSetting: <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => Promise<void>;
+  onSynced: () => void;
+}
+
+export default function SyncSettings({ settings, updateSetting, onSynced }: SyncSettingsProps) {
+  const { toast } = useToast();
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [lastSync, setLastSync] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    getSyncConfig().then(config => {
+      if (config) {
+        setUrl(config.url);
+        setUsername(config.username || '');
+        setPassword(config.password || '');
+        setIsConfigured(true);
+      }
+    });
+    getLastSync().then(setLastSync);
+  }, []);
+
+  const handleSaveServer = async () => {
+    try {
+      if (url.trim()) {
+        new URL(url.trim());
+        await saveSyncConfig({
+          type: 'http',
+          url: url.trim(),
+          username: username.trim() || undefined,
+          password: password || undefined
+        });
+        setIsConfigured(true);
+      } else {
+        await saveSyncConfig(null);
+        setIsConfigured(false);
+      }
+      toast({
+        title: 'Saved',
+        description: url.trim() ? 'Sync server updated' : 'Sync server removed'
+      });
+    } catch (error) {
+      toast({
+        title: 'Invalid server',
+        description: 'Enter the full URL of the sync file, including https://',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSyncNow = async () => {
+    try {
+      setIsSyncing(true);
+      const result = await syncNow();
+      setLastSync(result.syncedAt);
+      toast({
+        title: 'Synced',
+        description: result.pulled ? 'Changes from other devices were merged' : 'Your data was uploaded'
+      });
+      onSynced();
+    } catch (error) {
+      toast({
+        title: 'Sync failed',
+        description: error instanceof Error ? error.message : 'Could not reach the sync server',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Sync Server */}
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="sync-url">Sync Server</Label>
+          <p className="text-sm text-muted-foreground">
+            A WebDAV or HTTP file URL that accepts GET and PUT, shared by all your devices
+          </p>
+        </div>
+        <Input
+          id="sync-url"
+          type="url"
+          placeholder="https://dav.example.com/solo-toon/sync.json"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Username (optional)"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Password (optional)"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSaveServer}>
+            Save Server
+          </Button>
+          <Button variant="outline" onClick={handleSyncNow} disabled={!isConfigured || isSyncing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync Now
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : 'Not synced yet'}
+        </p>
+      </div>
+
+      <Separator />
+
+      {/* Auto Sync */}
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <Label htmlFor="auto-sync">Auto Sync</Label>
+          <p className="text-sm text-muted-foreground">
+            Automatically sync your library and progress with the server
+          </p>
+        </div>
+        <Switch
+          id="auto-sync"
+          checked={settings.autoSync}
+          disabled={!isConfigured}
+          onCheckedChange={(checked) => updateSetting('autoSync', checked)}
+        />
+      </div>
+
+      {settings.autoSync && (
+        <div className="space-y-2">
+          <Label>Sync Interval</Label>
+          <Select
+            value={settings.syncInterval.toString()}
+            onValueChange={(value) => updateSetting('syncInterval', parseInt(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SYNC_INTERVALS.map(interval => (
+                <SelectItem key={interval.value} value={interval.value.toString()}>
+                  {interval.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DownloadJob, DownloadedChapter, downloadManager, getDownloadedChapters } from '@/lib/downloads';
+
+export function useDownloads() {
+  const [jobs, setJobs] = useState<Record<string, DownloadJob>>({});
+  const [downloaded, setDownloaded] = useState<Record<string, DownloadedChapter>>({});
+
+  const loadDownloaded = useCallback(async () => {
+    setDownloaded(await getDownloadedChapters());
+  }, []);
+
+  useEffect(() => {
+    setJobs(Object.fromEntries(downloadManager.getJobs().map(job => [job.chapterId, job])));
+    loadDownloaded();
+
+    return downloadManager.subscribe((chapterId, job) => {
+      setJobs(prev => {
+        const next = { ...prev };
+        if (job) {
+          next[chapterId] = job;
+        } else {
+          delete next[chapterId];
+        }
+        return next;
+      });
+
+      if (!job || job.status === 'completed') {
+        loadDownloaded();
+      }
+    });
+  }, [loadDownloaded]);
+
+  return {
+    jobs,
+    downloaded,
+    refreshDownloaded: loadDownloaded
+  };
+}
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { LibrarySeries, ReadingProgress } from '@/lib/storage';
 import { 
   getLibrary, 
-  getProgress, 
+  getCurrentProgress,
   addToLibrary as addToStorageLibrary,
   removeFromLibrary as removeFromStorageLibrary,
   updateSeriesStatus as updateStorageSeriesStatus
@@ -20,7 +20,7 @@ export function useLibrary() {
 
   const progressQuery = useQuery({
     queryKey: ['progress'],
-    queryFn: getProgress,
+    queryFn: getCurrentProgress,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
@@ -32,8 +32,7 @@ export function useLibrary() {
   });
 
   const removeFromLibraryMutation = useMutation({
-    mutationFn: ({ seriesId, source }: { seriesId: string; source: string }) => 
-      removeFromStorageLibrary(seriesId, source),
+    mutationFn: removeFromStorageLibrary,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['library'] });
     }
@@ -41,14 +40,12 @@ export function useLibrary() {
 
   const updateSeriesStatusMutation = useMutation({
     mutationFn: ({ 
-      seriesId, 
-      source, 
+      globalId, 
       status 
     }: { 
-      seriesId: string; 
-      source: string; 
+      globalId: string; // provider:seriesId
       status: LibrarySeries['status'];
-    }) => updateStorageSeriesStatus(seriesId, source, status),
+    }) => updateStorageSeriesStatus(globalId, status),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['library'] });
     }
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import {
+  getSyncData,
+  saveLibrary,
+  saveProgress,
+  saveCurrentChapters,
+  saveSettings,
+  saveSeriesLinks,
+  libraryGlobalId
+} from './storage';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import {
+  LibrarySeriesSchema,
+  ReadingProgressSchema,
+  CurrentChapterSchema,
+  AppSettingsSchema,
+  SeriesLinkTableSchema
+} from './storage-schema';
+import { mergeSyncData } from './sync/merge';
+import { loadSeriesLinks } from './manga/links';
+import { downloadBlob } from './utils';
+import { SyncData } from '@/types/manga';
+
+const BACKUP_FORMAT = 'solo-toon-backup';
+const BACKUP_VERSION = 1;
+
+export const BackupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  data: z.object({
+    library: z.array(LibrarySeriesSchema),
+    progress: z.record(z.string(), ReadingProgressSchema),
+    currentChapters: z.record(z.string(), CurrentChapterSchema),
+    settings: AppSettingsSchema,
+    seriesLinks: SeriesLinkTableSchema.optional() // not in backups from before series links
+  })
+});
+
+export type BackupFile = z.infer<typeof BackupFileSchema>;
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportChangeCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface ImportPreview {
+  library: ImportChangeCounts;
+  progress: ImportChangeCounts;
+  settingsChanged: boolean;
+}
+
+export async function createBackup(): Promise<BackupFile> {
+  const { library, progress, currentChapters, settings, seriesLinks } = await getSyncData();
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: { library, progress, currentChapters, settings, seriesLinks }
+  };
+}
+
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `solo-toon-backup-${backup.exportedAt.slice(0, 10)}.json`);
+}
+
+export function parseBackup(text: string): BackupFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = BackupFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a valid Solo-Toon backup (${issue.path.join('.') || 'file'}: ${issue.message})`);
+  }
+
+  const backup = result.data;
+  if (backup.version > BACKUP_VERSION || backup.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was created by a newer version of Solo-Toon');
+  }
+
+  return backup;
+}
+
+function backupToSyncData(backup: BackupFile): SyncData {
+  return { ...backup.data, lastSync: backup.exportedAt };
+}
+
+// Replacing with a backup that has no series links keeps the current ones
+function resolveImport(local: SyncData, backup: BackupFile, mode: ImportMode): SyncData {
+  const incoming = backupToSyncData(backup);
+  return mode === 'merge'
+    ? mergeSyncData(local, incoming)
+    : { ...incoming, seriesLinks: incoming.seriesLinks || local.seriesLinks, lastSync: local.lastSync };
+}
+
+function countChanges<T>(before: Map<string, T>, after: Map<string, T>): ImportChangeCounts {
+  const counts: ImportChangeCounts = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  for (const [key, value] of after) {
+    if (!before.has(key)) {
+      counts.added++;
+    } else if (JSON.stringify(before.get(key)) !== JSON.stringify(value)) {
+      counts.updated++;
+    } else {
+      counts.unchanged++;
+    }
+  }
+  for (const key of before.keys()) {
+    if (!after.has(key)) counts.removed++;
+  }
+
+  return counts;
+}
+
+export async function previewImport(backup: BackupFile, mode: ImportMode): Promise<ImportPreview> {
+  const local = await getSyncData();
+  const result = resolveImport(local, backup, mode);
+
+  return {
+    library: countChanges(
+      new Map(local.library.map(series => [libraryGlobalId(series), series])),
+      new Map(result.library.map(series => [libraryGlobalId(series), series]))
+    ),
+    progress: countChanges(
+      new Map(Object.entries(local.progress)),
+      new Map(Object.entries(result.progress))
+    ),
+    settingsChanged: JSON.stringify(local.settings) !== JSON.stringify(result.settings)
+  };
+}
+
+export async function importBackup(backup: BackupFile, mode: ImportMode): Promise<void> {
+  const local = await getSyncData();
+  const result = resolveImport(local, backup, mode);
+
+  await Promise.all([
+    saveLibrary(result.library),
+    saveProgress(result.progress),
+    saveCurrentChapters(result.currentChapters),
+    saveSettings(result.settings),
+    result.seriesLinks && saveSeriesLinks(result.seriesLinks)
+  ]);
+  await loadSeriesLinks();
+}
@@ -0,0 +1,290 @@
+import localforage from 'localforage';
+import { getChapterPages, getImageUrl } from './manga/api';
+import { PageImage } from './manga/schema';
+
+// Page images live in their own store so they never bloat the main data store
+const pageStore = localforage.createInstance({
+  name: 'SoloToon',
+  storeName: 'chapter_pages',
+  description: 'Downloaded chapter page images'
+});
+
+const chapterStore = localforage.createInstance({
+  name: 'SoloToon',
+  storeName: 'chapter_downloads',
+  description: 'Downloaded chapter metadata'
+});
+
+export interface DownloadRequest {
+  chapterId: string; // provider:chapterId format
+  seriesId: string; // provider:seriesId format
+  seriesTitle: string;
+  chapterLabel: string;
+}
+
+export interface DownloadedChapter extends DownloadRequest {
+  pageCount: number;
+  bytes: number;
+  downloadedAt: string;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'failed';
+
+export interface DownloadJob extends DownloadRequest {
+  status: DownloadStatus;
+  downloadedPages: number;
+  totalPages: number;
+  error?: string;
+}
+
+// job is null once a download has been cancelled or deleted
+type DownloadListener = (chapterId: string, job: DownloadJob | null) => void;
+
+function pageKey(chapterId: string, index: number): string {
+  return `${chapterId}#${index}`;
+}
+
+class DownloadCancelled extends Error {
+  constructor() {
+    super('Download cancelled');
+    this.name = 'DownloadCancelled';
+  }
+}
+
+export class DownloadManager {
+  private jobs = new Map<string, DownloadJob>();
+  private controllers = new Map<string, AbortController>();
+  private runs = new Map<string, Promise<void>>(); // settles once no run of the chapter is writing
+  private listeners = new Set<DownloadListener>();
+  private maxConcurrentChapters: number;
+  private pageConcurrency: number;
+
+  constructor(maxConcurrentChapters: number = 1, pageConcurrency: number = 3) {
+    this.maxConcurrentChapters = maxConcurrentChapters;
+    this.pageConcurrency = pageConcurrency;
+  }
+
+  subscribe(listener: DownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJobs(): DownloadJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  getJob(chapterId: string): DownloadJob | undefined {
+    return this.jobs.get(chapterId);
+  }
+
+  enqueue(request: DownloadRequest): void {
+    const existing = this.jobs.get(request.chapterId);
+    if (existing && existing.status !== 'failed') return;
+
+    this.update({ ...request, status: 'queued', downloadedPages: 0, totalPages: 0 });
+    this.processQueue();
+  }
+
+  pause(chapterId: string): void {
+    const job = this.jobs.get(chapterId);
+    if (!job || (job.status !== 'queued' && job.status !== 'downloading')) return;
+
+    this.controllers.get(chapterId)?.abort();
+    this.update({ ...job, status: 'paused' });
+    this.processQueue();
+  }
+
+  // Pages stored before a pause are kept, so a resumed download continues where it
+  // stopped; a failed download starts over
+  resume(chapterId: string): void {
+    const job = this.jobs.get(chapterId);
+    if (!job || (job.status !== 'paused' && job.status !== 'failed')) return;
+
+    this.update({ ...job, status: 'queued', error: undefined });
+    this.processQueue();
+  }
+
+  // Also deletes whatever was already stored, including completed downloads.
+  // A running download is stopped first, so none of its writes lands afterwards.
+  async cancel(chapterId: string): Promise<void> {
+    this.controllers.get(chapterId)?.abort();
+    const run = this.runs.get(chapterId);
+    this.jobs.delete(chapterId);
+    this.processQueue();
+
+    await run;
+    await deleteDownload(chapterId);
+    this.emit(chapterId, null);
+  }
+
+  private update(job: DownloadJob): void {
+    this.jobs.set(job.chapterId, job);
+    this.emit(job.chapterId, job);
+  }
+
+  private emit(chapterId: string, job: DownloadJob | null): void {
+    this.listeners.forEach(listener => listener(chapterId, job));
+  }
+
+  private processQueue(): void {
+    const running = this.getJobs().filter(job => job.status === 'downloading').length;
+    const queued = this.getJobs().filter(job => job.status === 'queued');
+
+    queued.slice(0, Math.max(0, this.maxConcurrentChapters - running)).forEach(job => {
+      // A paused run may still be stopping when the chapter is resumed
+      const run = Promise.all([this.runs.get(job.chapterId), this.run(job)]).then(() => {
+        if (this.runs.get(job.chapterId) === run) this.runs.delete(job.chapterId);
+      });
+      this.runs.set(job.chapterId, run);
+    });
+  }
+
+  private async run(job: DownloadJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.chapterId, controller);
+    this.update({ ...job, status: 'downloading' });
+    let workers: Promise<void>[] = [];
+
+    try {
+      const pages = await getChapterPages(job.chapterId, { signal: controller.signal });
+      if (pages.length === 0) {
+        throw new Error('No pages found for this chapter');
+      }
+
+      const storedKeys = new Set(await pageStore.keys());
+      let downloaded = pages.filter(page => storedKeys.has(pageKey(job.chapterId, page.index))).length;
+      this.progress(job.chapterId, downloaded, pages.length);
+
+      // Fixed pool of workers pulling from the remaining pages
+      const remaining = pages.filter(page => !storedKeys.has(pageKey(job.chapterId, page.index)));
+      const worker = async () => {
+        for (let page = remaining.shift(); page; page = remaining.shift()) {
+          if (controller.signal.aborted) throw new DownloadCancelled();
+
+          const response = await fetch(getImageUrl(page.originalUrl), { signal: controller.signal });
+          if (!response.ok) {
+            throw new Error(`Page ${page.index + 1} failed with HTTP ${response.status}`);
+          }
+          const blob = await response.blob();
+          if (controller.signal.aborted) throw new DownloadCancelled();
+          await pageStore.setItem(pageKey(job.chapterId, page.index), blob);
+
+          downloaded++;
+          this.progress(job.chapterId, downloaded, pages.length);
+        }
+      };
+      workers = Array.from({ length: this.pageConcurrency }, worker);
+      await Promise.all(workers);
+
+      const blobs = await Promise.all(
+        pages.map(page => pageStore.getItem<Blob>(pageKey(job.chapterId, page.index)))
+      );
+      if (controller.signal.aborted) throw new DownloadCancelled();
+      const downloadedChapter: DownloadedChapter = {
+        chapterId: job.chapterId,
+        seriesId: job.seriesId,
+        seriesTitle: job.seriesTitle,
+        chapterLabel: job.chapterLabel,
+        pageCount: pages.length,
+        bytes: blobs.reduce((total, blob) => total + (blob?.size || 0), 0),
+        downloadedAt: new Date().toISOString()
+      };
+      await chapterStore.setItem(job.chapterId, { ...downloadedChapter, pageIndexes: pages.map(page => page.index) });
+
+      const current = this.jobs.get(job.chapterId);
+      if (current) this.update({ ...current, status: 'completed' });
+    } catch (error) {
+      // Pausing or cancelling aborts the fetches; the status was already updated
+      const failed = this.jobs.get(job.chapterId)?.status === 'downloading' && !controller.signal.aborted;
+
+      // One failed page stops the other workers; their writes are waited for so
+      // none lands after the pages are deleted
+      controller.abort();
+      await Promise.allSettled(workers);
+
+      if (failed) {
+        console.error(`Download failed for ${job.chapterId}:`, error);
+        await deleteDownload(job.chapterId).catch(cleanupError => {
+          console.error(`Failed to delete pages of ${job.chapterId}:`, cleanupError);
+        });
+
+        const current = this.jobs.get(job.chapterId);
+        if (current && current.status === 'downloading') {
+          this.update({
+            ...current,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Download failed'
+          });
+        }
+      }
+    } finally {
+      // A quick pause and resume may already have started a new run
+      if (this.controllers.get(job.chapterId) === controller) {
+        this.controllers.delete(job.chapterId);
+      }
+      this.processQueue();
+    }
+  }
+
+  private progress(chapterId: string, downloadedPages: number, totalPages: number): void {
+    const job = this.jobs.get(chapterId);
+    if (job && job.status === 'downloading') {
+      this.update({ ...job, downloadedPages, totalPages });
+    }
+  }
+}
+
+export const downloadManager = new DownloadManager();
+
+// Downloaded chapter operations
+export async function getDownloadedChapters(): Promise<Record<string, DownloadedChapter>> {
+  const chapters: Record<string, DownloadedChapter> = {};
+  try {
+    await chapterStore.iterate<DownloadedChapter, void>((value, key) => {
+      chapters[key] = value;
+    });
+  } catch (error) {
+    console.error('Failed to get downloaded chapters:', error);
+  }
+  return chapters;
+}
+
+// Pages of a downloaded chapter as object URLs; revoke them when done
+export async function getDownloadedPages(chapterId: string): Promise<PageImage[] | null> {
+  const chapter = await chapterStore.getItem<DownloadedChapter & { pageIndexes: number[] }>(chapterId);
+  if (!chapter) return null;
+
+  const pages: PageImage[] = [];
+  for (const index of chapter.pageIndexes) {
+    const blob = await pageStore.getItem<Blob>(pageKey(chapterId, index));
+    if (!blob) {
+      // Partially evicted: treat as not downloaded
+      pages.forEach(page => URL.revokeObjectURL(page.originalUrl));
+      return null;
+    }
+    pages.push({ index, originalUrl: URL.createObjectURL(blob) });
+  }
+  return pages;
+}
+
+export async function deleteDownload(chapterId: string): Promise<void> {
+  const keys = await pageStore.keys();
+  await Promise.all(
+    keys
+      .filter(key => key.startsWith(`${chapterId}#`))
+      .map(key => pageStore.removeItem(key))
+  );
+  await chapterStore.removeItem(chapterId);
+}
+
+export async function getDownloadsSize(): Promise<number> {
+  const chapters = await getDownloadedChapters();
+  return Object.values(chapters).reduce((total, chapter) => total + chapter.bytes, 0);
+}
+
+export async function clearDownloads(): Promise<void> {
+  await Promise.all(downloadManager.getJobs().map(job => downloadManager.cancel(job.chapterId)));
+  await Promise.all([pageStore.clear(), chapterStore.clear()]);
+}
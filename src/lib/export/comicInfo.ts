@@ -0,0 +1,72 @@
+import { Chapter, Manga } from '../manga/schema';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export interface ComicInfoPage {
+  bookmark?: string; // set on the first page of each chapter
+}
+
+interface ComicInfoOptions {
+  manga: Manga;
+  chapters: Chapter[];
+  volume?: number;
+  pages: ComicInfoPage[];
+}
+
+// ComicInfo.xml (Anansi ComicInfo v2.0) as read by Komga, Kavita, Tachiyomi and most CBZ readers
+export function buildComicInfo({ manga, chapters, volume, pages }: ComicInfoOptions): string {
+  const first = chapters[0];
+  const last = chapters[chapters.length - 1];
+  const published = first?.publishedAt ? new Date(first.publishedAt) : null;
+
+  const title = chapters.length === 1
+    ? first.title
+    : `Chapters ${first?.chapterNumber || first?.title}-${last?.chapterNumber || last?.title}`;
+
+  const fields: Array<[string, string | number | undefined]> = [
+    ['Title', title],
+    ['Series', manga.title],
+    ['Number', chapters.length === 1 ? first.chapterNumber : undefined],
+    ['Volume', volume],
+    ['Summary', manga.synopsis],
+    ['Year', published && !isNaN(published.getTime()) ? published.getFullYear() : undefined],
+    ['Month', published && !isNaN(published.getTime()) ? published.getMonth() + 1 : undefined],
+    ['Day', published && !isNaN(published.getTime()) ? published.getDate() : undefined],
+    ['Writer', manga.authors.join(', ') || undefined],
+    ['Genre', manga.tags.join(', ') || undefined],
+    ['Tags', manga.tags.join(', ') || undefined],
+    ['Web', first?.externalUrl],
+    ['PageCount', pages.length],
+    ['LanguageISO', 'en'],
+    ['Manga', 'Yes']
+  ];
+
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`);
+
+  const pageLines = pages.map((page, index) => {
+    const attributes = [`Image="${index}"`];
+    if (index === 0) attributes.push('Type="FrontCover"');
+    if (page.bookmark) attributes.push(`Bookmark="${escapeXml(page.bookmark)}"`);
+    return `    <Page ${attributes.join(' ')} />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    ...lines,
+    '  <Pages>',
+    ...pageLines,
+    '  </Pages>',
+    '</ComicInfo>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,122 @@
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { Manga } from '../manga/schema';
+import { escapeXml } from './comicInfo';
+import { ExportPage, getImageExtension } from './pages';
+
+interface EpubOptions {
+  manga: Manga;
+  title: string;
+  pages: ExportPage[];
+}
+
+const XHTML_DOCTYPE = '<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>';
+
+function pageName(index: number): string {
+  return `page-${String(index + 1).padStart(4, '0')}`;
+}
+
+function buildPageXhtml(page: ExportPage, index: number, imageFile: string): string {
+  return `${XHTML_DOCTYPE}
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+  <title>Page ${index + 1}</title>
+  <meta name="viewport" content="width=${page.width}, height=${page.height}" />
+  <style>html, body { margin: 0; padding: 0; } img { display: block; width: ${page.width}px; height: ${page.height}px; }</style>
+</head>
+<body>
+  <img src="images/${imageFile}" alt="Page ${index + 1}" />
+</body>
+</html>
+`;
+}
+
+function buildNav(title: string, pages: ExportPage[]): string {
+  const entries = pages
+    .map((page, index) => page.bookmark
+      ? `      <li><a href="${pageName(index)}.xhtml">${escapeXml(page.bookmark)}</a></li>`
+      : null)
+    .filter(Boolean);
+
+  // The toc must list at least one entry
+  if (entries.length === 0) {
+    entries.push(`      <li><a href="${pageName(0)}.xhtml">${escapeXml(title)}</a></li>`);
+  }
+
+  return `${XHTML_DOCTYPE}
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <ol>
+${entries.join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+}
+
+function buildPackage({ manga, title, pages }: EpubOptions, imageFiles: string[]): string {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const metadata = [
+    `    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>`,
+    `    <dc:title>${escapeXml(title)}</dc:title>`,
+    '    <dc:language>en</dc:language>',
+    ...manga.authors.map(author => `    <dc:creator>${escapeXml(author)}</dc:creator>`),
+    ...manga.tags.map(tag => `    <dc:subject>${escapeXml(tag)}</dc:subject>`),
+    ...(manga.synopsis ? [`    <dc:description>${escapeXml(manga.synopsis)}</dc:description>`] : []),
+    `    <meta property="dcterms:modified">${modified}</meta>`,
+    '    <meta property="rendition:layout">pre-paginated</meta>',
+    '    <meta property="rendition:orientation">portrait</meta>',
+    '    <meta property="rendition:spread">none</meta>'
+  ];
+
+  const manifest = pages.flatMap((page, index) => [
+    `    <item id="${pageName(index)}" href="${pageName(index)}.xhtml" media-type="application/xhtml+xml" />`,
+    `    <item id="img-${pageName(index)}" href="images/${imageFiles[index]}" media-type="${page.type}"${index === 0 ? ' properties="cover-image"' : ''} />`
+  ]);
+  const spine = pages.map((_, index) => `    <itemref idref="${pageName(index)}" />`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+${manifest.join('\n')}
+  </manifest>
+  <spine>
+${spine.join('\n')}
+  </spine>
+</package>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+// Fixed-layout EPUB 3 with one page document per image
+export function buildEpub(options: EpubOptions): Blob {
+  const imageFiles = options.pages.map((page, index) => `${pageName(index)}.${getImageExtension(page.type)}`);
+
+  // The mimetype entry must come first and be stored uncompressed
+  const files: Zippable = {
+    'mimetype': [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(CONTAINER_XML),
+    'OEBPS/content.opf': strToU8(buildPackage(options, imageFiles)),
+    'OEBPS/nav.xhtml': strToU8(buildNav(options.title, options.pages))
+  };
+
+  options.pages.forEach((page, index) => {
+    files[`OEBPS/${pageName(index)}.xhtml`] = strToU8(buildPageXhtml(page, index, imageFiles[index]));
+    files[`OEBPS/images/${imageFiles[index]}`] = [page.data, { level: 0 }];
+  });
+
+  return new Blob([zipSync(files)], { type: 'application/epub+zip' });
+}
@@ -0,0 +1,222 @@
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { getChapterPages } from '../manga/api';
+import { Chapter, Manga, PageImage } from '../manga/schema';
+import { getChapterLabel } from '../manga/chapters';
+import { getDownloadedPages } from '../downloads';
+import { buildComicInfo } from './comicInfo';
+import { buildEpub } from './epub';
+import { ExportPage, fetchExportPage, getImageExtension } from './pages';
+
+const PAGE_CONCURRENCY = 3;
+
+export type ExportFormat = 'cbz' | 'epub';
+
+export interface ExportVolume {
+  volume?: number; // unset when each chapter is exported on its own
+  chapters: Chapter[];
+}
+
+export interface ExportProgress {
+  fileIndex: number;
+  fileCount: number;
+  fileName: string;
+  completedPages: number; // of the current file, including failed pages
+  totalPages: number;
+  failedPages: number;
+}
+
+export interface PageFailure {
+  chapterId: string;
+  chapterLabel: string; // "Chapter 12", or the title of an extra
+  page?: number; // 1-based; unset when the whole chapter failed
+  message: string;
+}
+
+export interface ExportedFile {
+  filename: string;
+  blob: Blob;
+}
+
+export interface ExportResult {
+  files: ExportedFile[];
+  failures: PageFailure[];
+}
+
+export interface ExportOptions {
+  manga: Manga;
+  volumes: ExportVolume[];
+  format: ExportFormat;
+  dataSaver?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+function sortChapters(chapters: Chapter[]): Chapter[] {
+  return [...chapters].sort((a, b) => parseFloat(a.chapterNumber || '0') - parseFloat(b.chapterNumber || '0'));
+}
+
+// Splits chapters into numbered volumes; a size of 0 exports every chapter separately
+export function groupIntoVolumes(chapters: Chapter[], chaptersPerVolume: number): ExportVolume[] {
+  const sorted = sortChapters(chapters);
+  if (chaptersPerVolume <= 0) {
+    return sorted.map(chapter => ({ chapters: [chapter] }));
+  }
+
+  const volumes: ExportVolume[] = [];
+  for (let i = 0; i < sorted.length; i += chaptersPerVolume) {
+    volumes.push({
+      volume: volumes.length + 1,
+      chapters: sorted.slice(i, i + chaptersPerVolume)
+    });
+  }
+  return volumes;
+}
+
+function sanitizeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function getVolumeTitle(manga: Manga, volume: ExportVolume): string {
+  if (volume.volume !== undefined) {
+    return `${manga.title} - Vol. ${String(volume.volume).padStart(2, '0')}`;
+  }
+  const chapter = volume.chapters[0];
+  return `${manga.title} - ${chapter?.chapterNumber ? `Ch. ${chapter.chapterNumber}` : chapter?.title}`;
+}
+
+// Prefers pages saved for offline reading over a network request
+async function resolveChapterPages(
+  chapter: Chapter,
+  dataSaver: boolean,
+  signal?: AbortSignal
+): Promise<PageImage[]> {
+  const downloaded = await getDownloadedPages(chapter.id).catch(() => null);
+  return downloaded || getChapterPages(chapter.id, { dataSaver, signal });
+}
+
+function buildCbz(manga: Manga, volume: ExportVolume, pages: ExportPage[]): Blob {
+  const files: Zippable = {
+    'ComicInfo.xml': strToU8(buildComicInfo({
+      manga,
+      chapters: volume.chapters,
+      volume: volume.volume,
+      pages
+    }))
+  };
+
+  // Images are already compressed, so they are stored as-is
+  pages.forEach((page, index) => {
+    files[`${String(index + 1).padStart(4, '0')}.${getImageExtension(page.type)}`] = [page.data, { level: 0 }];
+  });
+
+  return new Blob([zipSync(files)], { type: 'application/vnd.comicbook+zip' });
+}
+
+async function exportVolume(
+  options: ExportOptions,
+  volume: ExportVolume,
+  report: (progress: Omit<ExportProgress, 'fileIndex' | 'fileCount' | 'fileName'>) => void,
+  failures: PageFailure[]
+): Promise<Blob | null> {
+  const { manga, format, dataSaver = false, signal } = options;
+
+  const chapterPages: Array<{ chapter: Chapter; pages: PageImage[] }> = [];
+  for (const chapter of volume.chapters) {
+    try {
+      const pages = await resolveChapterPages(chapter, dataSaver, signal);
+      if (pages.length === 0) throw new Error('No pages found for this chapter');
+      chapterPages.push({ chapter, pages });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      failures.push({
+        chapterId: chapter.id,
+        chapterLabel: getChapterLabel(chapter),
+        message: error instanceof Error ? error.message : 'Failed to load chapter'
+      });
+    }
+  }
+
+  const tasks = chapterPages.flatMap(({ chapter, pages }) =>
+    pages.map((page, index) => ({ chapter, page, index }))
+  );
+  const results: Array<ExportPage | null> = new Array(tasks.length).fill(null);
+  let completed = 0;
+  let failed = 0;
+  report({ completedPages: 0, totalPages: tasks.length, failedPages: 0 });
+
+  try {
+    let next = 0;
+    const worker = async () => {
+      while (next < tasks.length) {
+        const taskIndex = next++;
+        const { chapter, page, index } = tasks[taskIndex];
+
+        try {
+          results[taskIndex] = await fetchExportPage(page, dataSaver, signal);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          failed++;
+          failures.push({
+            chapterId: chapter.id,
+            chapterLabel: getChapterLabel(chapter),
+            page: index + 1,
+            message: error instanceof Error ? error.message : 'Failed to fetch page'
+          });
+        }
+
+        completed++;
+        report({ completedPages: completed, totalPages: tasks.length, failedPages: failed });
+      }
+    };
+    await Promise.all(Array.from({ length: PAGE_CONCURRENCY }, worker));
+  } finally {
+    chapterPages.forEach(({ pages }) => pages.forEach(page => {
+      if (page.originalUrl.startsWith('blob:')) URL.revokeObjectURL(page.originalUrl);
+    }));
+  }
+
+  // Bookmark the first page of each chapter that made it into the file
+  const bookmarked = new Set<Chapter>();
+  results.forEach((page, i) => {
+    const { chapter } = tasks[i];
+    if (page && !bookmarked.has(chapter)) {
+      page.bookmark = chapter.title || getChapterLabel(chapter);
+      bookmarked.add(chapter);
+    }
+  });
+
+  const pages = results.filter((page): page is ExportPage => page !== null);
+  if (pages.length === 0) return null;
+
+  return format === 'epub'
+    ? buildEpub({ manga, title: getVolumeTitle(manga, volume), pages })
+    : buildCbz(manga, volume, pages);
+}
+
+// Packages each volume into one archive. Pages that fail are skipped and
+// reported; a volume without a single page produces no file.
+export async function exportChapters(options: ExportOptions): Promise<ExportResult> {
+  const { manga, volumes, format, signal, onProgress } = options;
+  const files: ExportedFile[] = [];
+  const failures: PageFailure[] = [];
+
+  for (let i = 0; i < volumes.length; i++) {
+    if (signal?.aborted) break;
+
+    const volume = { ...volumes[i], chapters: sortChapters(volumes[i].chapters) };
+    const fileName = sanitizeFilename(`${getVolumeTitle(manga, volume)}.${format}`);
+
+    const blob = await exportVolume(
+      options,
+      volume,
+      progress => onProgress?.({ ...progress, fileIndex: i, fileCount: volumes.length, fileName }),
+      failures
+    );
+
+    if (blob) {
+      files.push({ filename: fileName, blob });
+    }
+  }
+
+  return { files, failures };
+}
@@ -0,0 +1,81 @@
+import { getPageImageUrl } from '../manga/api';
+import { PageImage } from '../manga/schema';
+
+// One page image ready to be packaged
+export interface ExportPage {
+  data: Uint8Array;
+  type: string; // MIME type
+  width: number;
+  height: number;
+  bookmark?: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif'
+};
+
+// Unknown types keep their own subtype, e.g. image/jxl is saved as .jxl
+export function getImageExtension(type: string): string {
+  return IMAGE_EXTENSIONS[type] || type.match(/^image\/([a-z0-9.-]+)/)?.[1] || 'jpg';
+}
+
+function startsWith(data: Uint8Array, signature: number[] | string, offset = 0): boolean {
+  const bytes = typeof signature === 'string' ? Array.from(signature, char => char.charCodeAt(0)) : signature;
+  return data.length >= offset + bytes.length && bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+// The format from the first bytes of the file. Sources and proxies often send
+// the wrong Content-Type, or a generic one like application/octet-stream.
+export function detectImageType(data: Uint8Array): string | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a')) return 'image/gif';
+  if (startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8)) return 'image/webp';
+
+  // AVIF is an ISO media file whose ftyp box lists an AVIF brand
+  if (startsWith(data, 'ftyp', 4)) {
+    const boxSize = (data[0] << 24 | data[1] << 16 | data[2] << 8 | data[3]) >>> 0;
+    for (let offset = 8; offset + 4 <= Math.min(boxSize, data.length); offset += 4) {
+      if (startsWith(data, 'avif', offset) || startsWith(data, 'avis', offset)) return 'image/avif';
+    }
+  }
+  return null;
+}
+
+// Used when the image cannot be decoded to read its size
+const FALLBACK_SIZE = { width: 800, height: 1200 };
+
+async function getImageSize(blob: Blob): Promise<{ width: number; height: number }> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return FALLBACK_SIZE;
+  }
+}
+
+export async function fetchExportPage(page: PageImage, dataSaver: boolean, signal?: AbortSignal): Promise<ExportPage> {
+  const response = await fetch(getPageImageUrl(page, dataSaver), { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const type = detectImageType(data) || (blob.type.startsWith('image/') ? blob.type : null);
+  if (!type) {
+    throw new Error('Response is not an image');
+  }
+
+  return {
+    data,
+    type,
+    ...(await getImageSize(blob))
+  };
+}
@@ -0,0 +1,17 @@
+// Image CDNs the /api/image proxy is allowed to fetch from
+export const IMAGE_PROXY_HOSTS = [
+  'cdn.mangadex.org',
+  'uploads.mangadex.org',
+  'api.mangadex.org',
+  'mangadex.network', // at-home servers, e.g. abc123.xyz.mangadex.network
+  'comick.fun',
+  'mangasee123.com',
+  'mangakakalot.com',
+  'mangapark.net',
+  'apiconsumetorg-kappa.vercel.app'
+];
+
+// Matches a listed host or one of its subdomains
+export function isAllowedImageHost(hostname: string): boolean {
+  return IMAGE_PROXY_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
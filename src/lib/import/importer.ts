@@ -0,0 +1,135 @@
+import localforage from 'localforage';
+import { STORAGE_KEYS, addToLibrary, toLibrarySeries } from '@/lib/storage';
+import { searchMangaMulti } from '@/lib/manga/api';
+import { bestTitleMatch, getTitles } from '@/lib/manga/dedupe';
+import { withPrimarySource } from '@/lib/manga/links';
+import { Manga } from '@/lib/manga/schema';
+import { ImportedEntry } from './schema';
+import { parseMalXml } from './mal';
+import { parseTachiyomiBackup } from './tachiyomi';
+
+// Matches at or above this score are added without asking
+export const AUTO_MATCH_THRESHOLD = 0.92;
+const MAX_CANDIDATES = 5;
+
+export interface MatchCandidate {
+  manga: Manga;
+  confidence: number;
+}
+
+export interface ReviewItem {
+  id: string;
+  entry: ImportedEntry;
+  candidates: MatchCandidate[];
+  queuedAt: string;
+}
+
+export interface ImportProgress {
+  processed: number;
+  total: number;
+  current?: string;
+}
+
+export interface LibraryImportResult {
+  added: ImportedEntry[];
+  queued: ReviewItem[];
+  failed: Array<{ entry: ImportedEntry; error: string }>;
+}
+
+// Detect the export type from its content rather than its file name
+export function parseImportFile(text: string): ImportedEntry[] {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) {
+    return parseMalXml(text);
+  }
+  if (trimmed.startsWith('{')) {
+    return parseTachiyomiBackup(text);
+  }
+  throw new Error('Unsupported file. Expected a MyAnimeList XML export or a Tachiyomi/Mihon JSON backup');
+}
+
+async function findCandidates(entry: ImportedEntry): Promise<MatchCandidate[]> {
+  const { data } = await searchMangaMulti(entry.title, { limit: MAX_CANDIDATES });
+
+  return data
+    .map(manga => ({
+      manga,
+      confidence: bestTitleMatch([entry.title], getTitles(manga)).similarity
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+}
+
+export async function addMatchToLibrary(entry: ImportedEntry, manga: Manga): Promise<void> {
+  await addToLibrary(toLibrarySeries(withPrimarySource(manga), entry.status));
+}
+
+// Match every entry against the providers; confident matches go straight into the library
+export async function importLibraryEntries(
+  entries: ImportedEntry[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<LibraryImportResult> {
+  const result: LibraryImportResult = { added: [], queued: [], failed: [] };
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    onProgress?.({ processed: i, total: entries.length, current: entry.title });
+
+    try {
+      const candidates = await findCandidates(entry);
+      const best = candidates[0];
+
+      if (best && best.confidence >= AUTO_MATCH_THRESHOLD) {
+        await addMatchToLibrary(entry, best.manga);
+        result.added.push(entry);
+      } else {
+        result.queued.push({
+          id: `${entry.origin}:${entry.externalId || entry.title}`,
+          entry,
+          candidates,
+          queuedAt: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      result.failed.push({ entry, error: error instanceof Error ? error.message : 'Search failed' });
+    }
+  }
+
+  onProgress?.({ processed: entries.length, total: entries.length });
+
+  if (result.queued.length > 0) {
+    const queue = await getReviewQueue();
+    const queuedIds = new Set(result.queued.map(item => item.id));
+    await saveReviewQueue([...queue.filter(item => !queuedIds.has(item.id)), ...result.queued]);
+  }
+
+  return result;
+}
+
+// Review queue operations
+export async function getReviewQueue(): Promise<ReviewItem[]> {
+  try {
+    return await localforage.getItem<ReviewItem[]>(STORAGE_KEYS.IMPORT_REVIEW_QUEUE) || [];
+  } catch (error) {
+    console.error('Failed to get import review queue:', error);
+    return [];
+  }
+}
+
+async function saveReviewQueue(queue: ReviewItem[]): Promise<void> {
+  await localforage.setItem(STORAGE_KEYS.IMPORT_REVIEW_QUEUE, queue);
+}
+
+export async function confirmReviewItem(id: string, manga: Manga): Promise<void> {
+  const queue = await getReviewQueue();
+  const item = queue.find(queued => queued.id === id);
+  if (!item) return;
+
+  await addMatchToLibrary(item.entry, manga);
+  await saveReviewQueue(queue.filter(queued => queued.id !== id));
+}
+
+export async function dismissReviewItem(id: string): Promise<void> {
+  const queue = await getReviewQueue();
+  await saveReviewQueue(queue.filter(queued => queued.id !== id));
+}
@@ -0,0 +1,47 @@
+import { ImportedEntry } from './schema';
+
+const MAL_STATUS_MAP: Record<string, ImportedEntry['status']> = {
+  'reading': 'reading',
+  'completed': 'completed',
+  'on-hold': 'reading',
+  'dropped': 'dropped',
+  'plan to read': 'plan-to-read'
+};
+
+function readText(element: Element, tag: string): string | undefined {
+  const value = element.getElementsByTagName(tag)[0]?.textContent?.trim();
+  return value || undefined;
+}
+
+function readNumber(element: Element, tag: string): number | undefined {
+  const value = parseInt(readText(element, tag) || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Parse a MyAnimeList manga list export (mangalist_*.xml)
+export function parseMalXml(text: string): ImportedEntry[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  if (!doc.getElementsByTagName('myanimelist').length) {
+    throw new Error('Not a MyAnimeList export');
+  }
+
+  return Array.from(doc.getElementsByTagName('manga'))
+    .map((element): ImportedEntry | null => {
+      const title = readText(element, 'manga_title');
+      if (!title) return null;
+
+      const status = readText(element, 'my_status')?.toLowerCase() || '';
+      return {
+        origin: 'mal',
+        externalId: readText(element, 'manga_mangadb_id'),
+        title,
+        status: MAL_STATUS_MAP[status] || 'plan-to-read',
+        chaptersRead: readNumber(element, 'my_read_chapters'),
+        totalChapters: readNumber(element, 'manga_chapters')
+      };
+    })
+    .filter(Boolean) as ImportedEntry[];
+}
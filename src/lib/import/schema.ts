@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { LibrarySeries } from '@/types/manga';
+
+// A series read from another app's export, before it is matched to a provider
+export interface ImportedEntry {
+  origin: 'mal' | 'tachiyomi';
+  externalId?: string;
+  title: string;
+  status: LibrarySeries['status'];
+  chaptersRead?: number;
+  totalChapters?: number;
+  sourceName?: string; // Tachiyomi extension the series was read on
+}
+
+// Legacy Tachiyomi JSON backup (version 2): tuples plus short-keyed chapter objects
+export const TachiyomiLegacyBackupSchema = z.object({
+  version: z.number().optional(),
+  mangas: z.array(z.object({
+    manga: z.tuple([z.string(), z.string(), z.union([z.number(), z.string()])]).rest(z.unknown()),
+    chapters: z.array(z.object({
+      u: z.string().optional(),
+      r: z.number().optional()
+    })).optional()
+  })),
+  extensions: z.array(z.string()).optional()
+});
+
+// Mihon/Tachiyomi protobuf backup converted to JSON (.tachibk → .json)
+export const TachiyomiBackupSchema = z.object({
+  backupManga: z.array(z.object({
+    source: z.union([z.number(), z.string()]),
+    url: z.string(),
+    title: z.string(),
+    status: z.number().optional(),
+    chapters: z.array(z.object({
+      url: z.string().optional(),
+      read: z.boolean().optional()
+    })).optional()
+  })),
+  backupSources: z.array(z.object({
+    name: z.string(),
+    sourceId: z.union([z.number(), z.string()])
+  })).optional()
+});
@@ -0,0 +1,71 @@
+import { ImportedEntry, TachiyomiBackupSchema, TachiyomiLegacyBackupSchema } from './schema';
+
+// Tachiyomi SManga.COMPLETED
+const TACHIYOMI_STATUS_COMPLETED = 2;
+
+function readingStatus(readCount: number, totalCount: number, seriesCompleted: boolean): ImportedEntry['status'] {
+  if (readCount === 0) return 'plan-to-read';
+  if (readCount >= totalCount && seriesCompleted) return 'completed';
+  return 'reading';
+}
+
+// Parse a Tachiyomi/Mihon backup in either the legacy JSON or the converted protobuf layout
+export function parseTachiyomiBackup(text: string): ImportedEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const current = TachiyomiBackupSchema.safeParse(json);
+  if (current.success) {
+    const sourceNames = new Map(
+      (current.data.backupSources || []).map(source => [String(source.sourceId), source.name])
+    );
+
+    return current.data.backupManga.map(manga => {
+      const chapters = manga.chapters || [];
+      const readCount = chapters.filter(chapter => chapter.read).length;
+
+      return {
+        origin: 'tachiyomi',
+        externalId: `${manga.source}:${manga.url}`,
+        title: manga.title,
+        status: readingStatus(readCount, chapters.length, manga.status === TACHIYOMI_STATUS_COMPLETED),
+        chaptersRead: readCount || undefined,
+        totalChapters: chapters.length || undefined,
+        sourceName: sourceNames.get(String(manga.source))
+      };
+    });
+  }
+
+  const legacy = TachiyomiLegacyBackupSchema.safeParse(json);
+  if (legacy.success) {
+    // Extensions are listed as "sourceId:name"
+    const sourceNames = new Map(
+      (legacy.data.extensions || []).map(extension => {
+        const [sourceId, ...name] = extension.split(':');
+        return [sourceId, name.join(':')];
+      })
+    );
+
+    return legacy.data.mangas.map(({ manga, chapters = [] }) => {
+      const [url, title, source] = manga;
+      const readCount = chapters.filter(chapter => chapter.r === 1).length;
+
+      // Legacy backups carry no publication status
+      return {
+        origin: 'tachiyomi',
+        externalId: `${source}:${url}`,
+        title,
+        status: readingStatus(readCount, chapters.length, false),
+        chaptersRead: readCount || undefined,
+        totalChapters: chapters.length || undefined,
+        sourceName: sourceNames.get(String(source))
+      };
+    });
+  }
+
+  throw new Error('Not a Tachiyomi/Mihon JSON backup');
+}
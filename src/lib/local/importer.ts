@@ -0,0 +1,260 @@
+import { unzip, Unzipped } from 'fflate';
+import { LocalChapter, LocalSeries, saveLocalPages, saveLocalSeries } from './store';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif'
+};
+
+const ARCHIVE_EXTENSIONS = ['cbz', 'zip'];
+
+const COVER_WIDTH = 300;
+
+export interface LocalImportProgress {
+  processed: number;
+  total: number;
+  current: string;
+}
+
+export interface LocalImportResult {
+  series: LocalSeries;
+  skipped: string[]; // files or archives without readable images
+}
+
+interface ComicInfoData {
+  series?: string;
+  number?: string;
+  title?: string;
+  volume?: number;
+  writer?: string;
+  summary?: string;
+  genre?: string;
+}
+
+// One chapter (or volume) to import: an archive or a folder of images
+interface ImportUnit {
+  name: string;
+  load(): Promise<{ images: Blob[]; comicInfo?: ComicInfoData }>;
+}
+
+function getExtension(name: string): string {
+  return name.split('.').pop()?.toLowerCase() || '';
+}
+
+function getBaseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+function naturalCompare(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(
+      data,
+      {
+        filter: file => !!IMAGE_TYPES[getExtension(file.name)] || getBaseName(file.name).toLowerCase() === 'comicinfo.xml'
+      },
+      (error, files) => (error ? reject(error) : resolve(files))
+    );
+  });
+}
+
+function parseComicInfo(xml: string): ComicInfoData | undefined {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) return undefined;
+
+  const text = (tag: string) => doc.querySelector(tag)?.textContent?.trim() || undefined;
+  const volume = parseInt(text('Volume') || '');
+
+  return {
+    series: text('Series'),
+    number: text('Number'),
+    title: text('Title'),
+    volume: isNaN(volume) ? undefined : volume,
+    writer: text('Writer'),
+    summary: text('Summary'),
+    genre: text('Genre')
+  };
+}
+
+// "Vol. 3 Ch. 12.5" -> chapter 12.5 volume 3; a bare number is taken as the chapter
+function parseNumbers(name: string): { chapter?: string; volume?: number } {
+  const base = name.replace(/\.[^.]+$/, '');
+  const chapter = base.match(/\b(?:chapter|chap|ch|c)\.?\s*(\d+(?:\.\d+)?)/i)?.[1];
+  const volume = base.match(/\b(?:volume|vol|v)\.?\s*(\d+)/i)?.[1];
+  const bare = chapter || volume ? undefined : base.match(/(\d+(?:\.\d+)?)(?!.*\d)/)?.[1];
+
+  return {
+    chapter: chapter || bare,
+    volume: volume ? parseInt(volume) : undefined
+  };
+}
+
+function archiveUnit(file: File): ImportUnit {
+  return {
+    name: file.name,
+    async load() {
+      const entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+      const names = Object.keys(entries).sort(naturalCompare);
+
+      const infoName = names.find(name => getBaseName(name).toLowerCase() === 'comicinfo.xml');
+      const comicInfo = infoName ? parseComicInfo(new TextDecoder().decode(entries[infoName])) : undefined;
+
+      const images = names
+        .filter(name => IMAGE_TYPES[getExtension(name)])
+        .map(name => new Blob([entries[name]], { type: IMAGE_TYPES[getExtension(name)] }));
+
+      return { images, comicInfo };
+    }
+  };
+}
+
+function folderUnit(name: string, files: File[]): ImportUnit {
+  return {
+    name,
+    async load() {
+      const images = [...files]
+        .sort((a, b) => naturalCompare(a.name, b.name))
+        .map(file => new Blob([file], { type: file.type || IMAGE_TYPES[getExtension(file.name)] }));
+      return { images };
+    }
+  };
+}
+
+// Each archive becomes one chapter, and so does each folder of loose images
+function collectImportUnits(files: File[]): { units: ImportUnit[]; skipped: string[] } {
+  const units: ImportUnit[] = [];
+  const skipped: string[] = [];
+  const folders = new Map<string, File[]>();
+
+  for (const file of files) {
+    const extension = getExtension(file.name);
+    const path = file.webkitRelativePath || file.name;
+
+    if (ARCHIVE_EXTENSIONS.includes(extension)) {
+      units.push(archiveUnit(file));
+    } else if (IMAGE_TYPES[extension]) {
+      const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+      folders.set(folder, [...(folders.get(folder) || []), file]);
+    } else {
+      skipped.push(path);
+    }
+  }
+
+  folders.forEach((folderFiles, folder) => {
+    units.push(folderUnit(folder ? getBaseName(folder) : 'Images', folderFiles));
+  });
+
+  return {
+    units: units.sort((a, b) => naturalCompare(a.name, b.name)),
+    skipped
+  };
+}
+
+// Picks a series title from the selected folder or the first file name
+export function suggestSeriesTitle(files: File[]): string {
+  const first = files[0];
+  if (!first) return '';
+
+  if (first.webkitRelativePath) {
+    return first.webkitRelativePath.split('/')[0];
+  }
+
+  const baseName = first.name.replace(/\.[^.]+$/, '');
+  return baseName
+    .replace(/[\s_-]*\b(?:chapter|chap|ch|c|volume|vol|v)?\.?\s*\d+(?:\.\d+)?.*$/i, '')
+    .replace(/_+/g, ' ')
+    .trim() || baseName;
+}
+
+async function createCoverThumbnail(image: Blob): Promise<string> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, COVER_WIDTH / bitmap.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error('Failed to create cover thumbnail:', error);
+    return '/placeholder.svg';
+  }
+}
+
+// Copies the selected archives and image folders into IndexedDB as one series
+export async function importLocalFiles(
+  files: File[],
+  title: string,
+  onProgress?: (progress: LocalImportProgress) => void
+): Promise<LocalImportResult> {
+  const { units, skipped } = collectImportUnits(files);
+  const chapters: LocalChapter[] = [];
+  const infos: ComicInfoData[] = [];
+  let cover = '/placeholder.svg';
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    onProgress?.({ processed: i, total: units.length, current: unit.name });
+
+    try {
+      const { images, comicInfo } = await unit.load();
+      if (images.length === 0) {
+        skipped.push(unit.name);
+        continue;
+      }
+
+      const parsed = parseNumbers(unit.name);
+      const number = comicInfo?.number || parsed.chapter || (parsed.volume ?? chapters.length + 1).toString();
+      const volume = comicInfo?.volume ?? parsed.volume;
+      const chapter: LocalChapter = {
+        id: crypto.randomUUID(),
+        number,
+        title: comicInfo?.title || (parsed.chapter || !volume ? `Chapter ${number}` : `Volume ${volume}`),
+        volume,
+        pageCount: images.length,
+        bytes: images.reduce((total, image) => total + image.size, 0),
+        sourceName: unit.name,
+        addedAt: new Date().toISOString()
+      };
+
+      await saveLocalPages(chapter.id, images);
+      if (chapters.length === 0) {
+        cover = await createCoverThumbnail(images[0]);
+      }
+      chapters.push(chapter);
+      if (comicInfo) infos.push(comicInfo);
+    } catch (error) {
+      console.error(`Failed to import ${unit.name}:`, error);
+      skipped.push(unit.name);
+    }
+  }
+
+  onProgress?.({ processed: units.length, total: units.length, current: '' });
+
+  if (chapters.length === 0) {
+    throw new Error('No readable images were found in the selected files');
+  }
+
+  const info = infos[0];
+  const series: LocalSeries = {
+    id: crypto.randomUUID(),
+    title: title.trim() || info?.series || suggestSeriesTitle(files),
+    cover,
+    authors: info?.writer ? info.writer.split(',').map(a => a.trim()).filter(Boolean) : [],
+    tags: info?.genre ? info.genre.split(',').map(g => g.trim()).filter(Boolean) : [],
+    synopsis: info?.summary,
+    chapters,
+    addedAt: new Date().toISOString()
+  };
+
+  await saveLocalSeries(series);
+  return { series, skipped };
+}
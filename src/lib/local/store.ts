@@ -0,0 +1,124 @@
+import localforage from 'localforage';
+
+// Imported files are copied into their own stores, separate from downloads
+const seriesStore = localforage.createInstance({
+  name: 'SoloToon',
+  storeName: 'local_series',
+  description: 'Series imported from local files'
+});
+
+const pageStore = localforage.createInstance({
+  name: 'SoloToon',
+  storeName: 'local_pages',
+  description: 'Page images of imported local files'
+});
+
+export interface LocalChapter {
+  id: string;
+  number: string;
+  title: string;
+  volume?: number;
+  pageCount: number;
+  bytes: number;
+  sourceName: string; // archive or folder the pages came from
+  addedAt: string;
+}
+
+export interface LocalSeries {
+  id: string;
+  title: string;
+  cover: string; // data URL thumbnail, stays valid across sessions
+  authors: string[];
+  tags: string[];
+  synopsis?: string;
+  chapters: LocalChapter[];
+  addedAt: string;
+}
+
+type LocalSeriesListener = (seriesId: string) => void;
+const listeners = new Set<LocalSeriesListener>();
+
+// Called with the id of every series that is saved or deleted, so what was
+// cached about it can be dropped
+export function subscribeToLocalSeries(listener: LocalSeriesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function emit(seriesId: string) {
+  listeners.forEach(listener => listener(seriesId));
+}
+
+function pageKey(chapterId: string, index: number): string {
+  return `${chapterId}#${index}`;
+}
+
+export async function getLocalSeries(seriesId: string): Promise<LocalSeries | null> {
+  return seriesStore.getItem<LocalSeries>(seriesId);
+}
+
+export async function getAllLocalSeries(): Promise<LocalSeries[]> {
+  const series: LocalSeries[] = [];
+  await seriesStore.iterate<LocalSeries, void>(value => {
+    series.push(value);
+  });
+  return series;
+}
+
+export async function saveLocalSeries(series: LocalSeries): Promise<void> {
+  await seriesStore.setItem(series.id, series);
+  emit(series.id);
+}
+
+// Chapter ids are unique across series, so the owning series is looked up by scan
+export async function findLocalChapter(chapterId: string): Promise<{ series: LocalSeries; chapter: LocalChapter } | null> {
+  for (const series of await getAllLocalSeries()) {
+    const chapter = series.chapters.find(c => c.id === chapterId);
+    if (chapter) return { series, chapter };
+  }
+  return null;
+}
+
+export async function saveLocalPages(chapterId: string, pages: Blob[]): Promise<void> {
+  for (let i = 0; i < pages.length; i++) {
+    await pageStore.setItem(pageKey(chapterId, i), pages[i]);
+  }
+}
+
+export async function getLocalPages(chapterId: string, pageCount: number): Promise<Blob[]> {
+  const pages: Blob[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    const blob = await pageStore.getItem<Blob>(pageKey(chapterId, i));
+    if (blob) pages.push(blob);
+  }
+  return pages;
+}
+
+export async function deleteLocalSeries(seriesId: string): Promise<void> {
+  const series = await getLocalSeries(seriesId);
+  if (!series) return;
+
+  for (const chapter of series.chapters) {
+    for (let i = 0; i < chapter.pageCount; i++) {
+      await pageStore.removeItem(pageKey(chapter.id, i));
+    }
+  }
+  await seriesStore.removeItem(seriesId);
+  emit(seriesId);
+}
+
+export async function getLocalStorageSize(): Promise<number> {
+  const series = await getAllLocalSeries();
+  return series.reduce(
+    (total, s) => total + s.chapters.reduce((sum, chapter) => sum + chapter.bytes, 0),
+    0
+  );
+}
+
+export async function clearLocalSeries(): Promise<void> {
+  const seriesIds = await seriesStore.keys();
+  await Promise.all([seriesStore.clear(), pageStore.clear()]);
+  seriesIds.forEach(emit);
+}
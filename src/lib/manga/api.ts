@@ -1,20 +1,76 @@
 import { providerRegistry } from './providers/registry';
-import { dedupeAndMerge, LRUCache } from './dedupe';
-import { Manga, Chapter, PageImage, MangaSchema } from './schema';
+import { MangaDexProvider } from './providers/mangadex';
+import { MangaProvider } from './providers/base';
+import { addToGroups, dedupeAndMerge, getTitleVariants, DEFAULT_MATCH_OPTIONS, LRUCache } from './dedupe';
+import { seriesLinks } from './links';
+import { TieredCache } from './cache';
+import { healthMonitor } from './health';
+import { mergeChapterLists } from './chapters';
+import { Manga, Chapter, PageImage, MangaSchema, MangaApiError, ProviderSearchResult, ProviderChapter } from './schema';
+import { throwIfAborted } from './http';
+import { subscribeToLocalSeries } from '../local/store';
+
+type MangaSource = NonNullable<Manga['sources']>[number];
 
 // Cache instances
-const searchCache = new LRUCache<string, { data: Manga[]; pagination: any }>(50);
-const detailsCache = new LRUCache<string, Manga>(100);
-const chaptersCache = new LRUCache<string, Chapter[]>(100);
+const searchCache = new TieredCache<SearchResult>('search');
+const detailsCache = new TieredCache<Manga>('details');
+const chaptersCache = new TieredCache<Chapter[]>('chapters');
+const sourcesCache = new TieredCache<MangaSource[]>('sources');
+
+// Cached results may include providers that were just disabled or removed
+providerRegistry.subscribe(() => {
+  searchCache.clear();
+});
+
+// ...or be grouped differently from the user's links
+seriesLinks.subscribe(() => {
+  searchCache.clear();
+});
+
+// Local series are read from IndexedDB and cached under local: ids like any
+// other source, so a deleted or re-imported series must not be served from cache
+subscribeToLocalSeries(seriesId => {
+  const globalId = `local:${seriesId}`;
+  detailsCache.delete(globalId);
+  chaptersCache.deletePrefix(`${globalId}:`);
+  sourcesCache.delete(globalId);
+});
+
+const POPULAR_PAGE_SIZE = 20; // MangaDex search page size
 
 interface SearchOptions {
   page?: number;
   lang?: string;
   providers?: string[];
   limit?: number;
+  cursor?: string; // from the previous page, takes precedence over `page`
+  signal?: AbortSignal;
+}
+
+export interface SearchResult {
+  data: Manga[];
+  pagination: PaginationInfo;
+  cursor?: string; // continues the search; absent on the last page
+  providers?: ProviderSearchStatus[];
+}
+
+export type ProviderSearchState = 'loading' | 'done' | 'failed';
+
+// How one provider is doing in a search; `count` is how many results it has returned
+export interface ProviderSearchStatus {
+  provider: string;
+  state: ProviderSearchState;
+  count: number;
+  error?: string;
+}
+
+export interface SearchProgress extends SearchResult {
+  providers: ProviderSearchStatus[];
+  done: boolean; // the page is complete
 }
 
-interface PaginationInfo {
+export interface PaginationInfo {
   current_page: number;
   has_next_page: boolean;
   last_visible_page: number;
@@ -25,197 +81,598 @@ interface PaginationInfo {
   };
 }
 
+// One provider's results, read a page at a time
+interface ProviderStream {
+  provider: string;
+  page: number; // last page fetched
+  hasNextPage: boolean;
+  buffer: ProviderSearchResult[];
+  received: number; // results read so far
+  error?: string; // why the last request failed
+}
+
+// Where a multi-provider search stopped. Groups already shown are kept so
+// later pages never repeat a series, only add sources to it.
+interface SearchCursorState {
+  streams: ProviderStream[];
+  groups: Manga[];
+  seen: Set<string>; // provider:id of every result read
+  served: number; // pages returned so far
+}
+
+// What the opaque continuation token carries: enough to replay the search
+// when its state is no longer in memory, e.g. after a reload
+interface SearchCursorToken {
+  id: string;
+  q: string;
+  lang?: string;
+  providers?: string[];
+  limit: number;
+  n: number;
+}
+
+const cursorStates = new LRUCache<string, SearchCursorState>(20);
+
+function encodeCursor(token: SearchCursorToken): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(token));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function decodeCursor(cursor: string): SearchCursorToken {
+  try {
+    const bytes = Uint8Array.from(atob(cursor), char => char.charCodeAt(0));
+    const token = JSON.parse(new TextDecoder().decode(bytes)) as SearchCursorToken;
+    if (typeof token.id !== 'string' || typeof token.q !== 'string' || !(token.n >= 1)) throw new Error();
+    return token;
+  } catch {
+    throw new MangaApiError('INVALID_CURSOR', 'search', undefined, undefined, 'Invalid search cursor');
+  }
+}
+
+function emptySearchResult(page: number, limit: number): SearchResult {
+  return {
+    data: [],
+    pagination: {
+      current_page: page,
+      has_next_page: false,
+      last_visible_page: page,
+      items: { count: 0, total: 0, per_page: limit }
+    }
+  };
+}
+
+// The cursor a search request continues from; later pages without a cursor
+// are reached by reading through the earlier ones. Only first pages are cached.
+function toSearchToken(query: string, opts: SearchOptions): { token: SearchCursorToken; cacheKey?: string } {
+  const { lang, providers, limit = 20, cursor } = opts;
+  if (cursor) return { token: decodeCursor(cursor) };
+
+  const page = opts.page || 1;
+  return {
+    token: { id: createCursorId(), q: query, lang, providers, limit, n: page - 1 },
+    cacheKey: page === 1 ? `${query}:${limit}:${lang || 'all'}:${providers?.join(',') || 'all'}` : undefined
+  };
+}
+
 // Main API functions
 export async function searchMangaMulti(
   query: string,
   opts: SearchOptions = {}
-): Promise<{ data: Manga[]; pagination: PaginationInfo }> {
-  const { page = 1, lang, providers, limit = 20 } = opts;
-  
-  if (!query?.trim()) {
-    return {
-      data: [],
-      pagination: {
-        current_page: page,
-        has_next_page: false,
-        last_visible_page: page,
-        items: { count: 0, total: 0, per_page: limit }
-      }
-    };
+): Promise<SearchResult> {
+  const { signal } = opts;
+  if (!opts.cursor && !query?.trim()) return emptySearchResult(opts.page || 1, opts.limit || 20);
+
+  const { token, cacheKey } = toSearchToken(query, opts);
+  if (!cacheKey) return runSearch(token, signal);
+
+  // Empty results are not cached, they usually mean a failed request
+  return searchCache.fetch(
+    cacheKey,
+    signal => runSearch(token, signal),
+    { signal, shouldCache: response => response.data.length > 0 }
+  );
+}
+
+// Like searchMangaMulti, but yields the page as it fills: once when the
+// search starts and again as each provider answers, merged and deduped so
+// far. The last update is the complete page, with `done` set and the cursor.
+export async function* searchMangaProgressive(
+  query: string,
+  opts: SearchOptions = {}
+): AsyncGenerator<SearchProgress> {
+  const { signal } = opts;
+  if (!opts.cursor && !query?.trim()) {
+    yield { ...emptySearchResult(opts.page || 1, opts.limit || 20), providers: [], done: true };
+    return;
   }
 
-  // Generate cache key
-  const cacheKey = `${query}:${page}:${lang || 'all'}:${providers?.join(',') || 'all'}`;
-  const cached = searchCache.get(cacheKey);
-  if (cached) {
-    return cached;
+  const { token, cacheKey } = toSearchToken(query, opts);
+  const hit = cacheKey ? await searchCache.get(cacheKey) : undefined;
+  if (cacheKey && hit) {
+    if (!hit.fresh) {
+      searchCache.revalidate(cacheKey, async () => {
+        const response = await runSearch(token);
+        if (response.data.length > 0) await searchCache.set(cacheKey, response);
+      });
+    }
+    yield { ...hit.value, providers: hit.value.providers || [], done: true };
+    return;
   }
 
-  // Determine which providers to use
-  let targetProviders = providerRegistry.getAllProviders();
-  
+  const state = takeCursorState(token);
+  while (state.served < token.n) {
+    await readSearchPage(state, token, signal);
+    state.served++;
+  }
+
+  // The first requests of the page run here so each answer can be shown;
+  // readSearchPage then finds them done
+  const pending = new Map<ProviderStream, Promise<ProviderStream>>();
+  state.streams.filter(needsFetch).forEach(stream => {
+    pending.set(stream, fetchStreamPage(stream, state.seen, token, signal).then(() => stream));
+  });
+
+  while (pending.size > 0) {
+    yield previewSearchPage(state, token, pending);
+    pending.delete(await Promise.race(pending.values()));
+    throwIfAborted(signal);
+  }
+
+  const data = await readSearchPage(state, token, signal);
+  state.served++;
+  const response = finishSearchPage(state, token, data);
+  if (cacheKey && response.data.length > 0) searchCache.set(cacheKey, response);
+  yield { ...response, providers: response.providers || [], done: true };
+}
+
+function createCursorId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getSearchProviders(lang?: string, providers?: string[]): MangaProvider[] {
+  // An explicit list may include disabled providers
   if (providers && providers.length > 0) {
-    targetProviders = providers
+    return providers
       .map(id => providerRegistry.getProvider(id))
-      .filter(Boolean) as any[];
-  } else if (lang) {
-    targetProviders = providerRegistry.getProvidersByLanguage(lang);
+      .filter((provider): provider is MangaProvider => !!provider);
   }
+  return lang ? providerRegistry.getProvidersByLanguage(lang) : providerRegistry.getEnabledProviders();
+}
 
-  // Search across providers in parallel
-  const searchPromises = targetProviders.map(async provider => {
-    try {
-      const results = await provider.search(query, page, lang);
-      return { data: results, provider: provider.id };
-    } catch (error) {
-      console.error(`Search failed for provider ${provider.id}:`, error);
-      return { data: [], provider: provider.id };
-    }
-  });
+// The saved state of a cursor, or a fresh search to replay when it is gone.
+// It is taken out of the cache so a failed or cancelled page is replayed too.
+function takeCursorState(token: SearchCursorToken): SearchCursorState {
+  let state = cursorStates.get(token.id);
+  if (!state || state.served !== token.n) {
+    state = {
+      streams: getSearchProviders(token.lang, token.providers).map(provider => ({
+        provider: provider.id,
+        page: 0,
+        hasNextPage: true,
+        buffer: [],
+        received: 0
+      })),
+      groups: [],
+      seen: new Set(),
+      served: 0
+    };
+  }
+  cursorStates.delete(token.id);
+  return state;
+}
+
+function getStatus(stream: ProviderStream, loading: boolean): ProviderSearchStatus {
+  return {
+    provider: stream.provider,
+    state: loading ? 'loading' : stream.error ? 'failed' : 'done',
+    count: stream.received,
+    error: loading ? undefined : stream.error
+  };
+}
 
-  const results = await Promise.allSettled(searchPromises);
-  const successfulResults = results
-    .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-    .map(result => result.value);
+// Serves page `token.n + 1` of a search
+async function runSearch(token: SearchCursorToken, signal?: AbortSignal): Promise<SearchResult> {
+  const state = takeCursorState(token);
 
-  // Deduplicate and merge results
-  const deduplicatedManga = dedupeAndMerge(successfulResults);
-  
-  // Paginate results
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
-  const paginatedData = deduplicatedManga.slice(startIndex, endIndex);
+  let data: Manga[] = [];
+  while (state.served <= token.n) {
+    data = await readSearchPage(state, token, signal);
+    state.served++;
+  }
 
-  const response = {
-    data: paginatedData,
+  return finishSearchPage(state, token, data);
+}
+
+// Saves the state for the next page and hands out its cursor
+function finishSearchPage(state: SearchCursorState, token: SearchCursorToken, data: Manga[]): SearchResult {
+  const hasNextPage = state.streams.some(stream => stream.buffer.length > 0 || stream.hasNextPage);
+  const next = { ...token, id: createCursorId(), n: state.served };
+  if (hasNextPage) cursorStates.set(next.id, state);
+
+  return {
+    data,
     pagination: {
-      current_page: page,
-      has_next_page: endIndex < deduplicatedManga.length,
-      last_visible_page: Math.ceil(deduplicatedManga.length / limit),
+      current_page: state.served,
+      has_next_page: hasNextPage,
+      last_visible_page: hasNextPage ? state.served + 1 : state.served,
       items: {
-        count: paginatedData.length,
-        total: deduplicatedManga.length,
-        per_page: limit
+        count: data.length,
+        total: state.groups.length,
+        per_page: token.limit
       }
-    }
+    },
+    cursor: hasNextPage ? encodeCursor(next) : undefined,
+    providers: state.streams.map(stream => getStatus(stream, false))
   };
+}
+
+// The page as it would look with the providers that answered so far; the
+// state itself is left alone
+function previewSearchPage(
+  state: SearchCursorState,
+  token: SearchCursorToken,
+  pending: Map<ProviderStream, unknown>
+): SearchProgress {
+  const groups = state.groups.map(copyGroup);
+  const streams = byPriority(state.streams)
+    .filter(stream => !pending.has(stream))
+    .map(stream => ({ ...stream, buffer: [...stream.buffer] }));
+  const page: Manga[] = [];
+  takeSearchResults(groups, streams, page, new Set(), token.limit);
+
+  return {
+    data: page.map(copyGroup),
+    pagination: {
+      current_page: state.served + 1,
+      has_next_page: false,
+      last_visible_page: state.served + 1,
+      items: {
+        count: page.length,
+        total: groups.length,
+        per_page: token.limit
+      }
+    },
+    providers: state.streams.map(stream => getStatus(stream, pending.has(stream))),
+    done: false
+  };
+}
 
-  // Cache the result
-  searchCache.set(cacheKey, response);
-  return response;
+function copyGroup(group: Manga): Manga {
+  return { ...group, sources: group.sources?.map(source => ({ ...source })), altTitles: group.altTitles?.slice() };
 }
 
-export async function getMangaDetails(globalId: string): Promise<Manga> {
-  // Check cache first
-  const cached = detailsCache.get(globalId);
-  if (cached) {
-    return cached;
+function byPriority(streams: ProviderStream[]): ProviderStream[] {
+  return [...streams].sort(
+    (a, b) => providerRegistry.getPriority(b.provider) - providerRegistry.getPriority(a.provider)
+  );
+}
+
+function needsFetch(stream: ProviderStream): boolean {
+  return stream.buffer.length === 0 && stream.hasNextPage;
+}
+
+// Takes results from the providers in turn, by priority, until `limit` new
+// series are found. A provider's next page is only requested once its
+// previous one is used up; those requests run in parallel.
+async function readSearchPage(
+  state: SearchCursorState,
+  token: SearchCursorToken,
+  signal?: AbortSignal
+): Promise<Manga[]> {
+  const page: Manga[] = [];
+  const touched = new Set<Manga>();
+  const streams = byPriority(state.streams);
+
+  while (page.length < token.limit) {
+    await Promise.all(streams
+      .filter(needsFetch)
+      .map(stream => fetchStreamPage(stream, state.seen, token, signal)));
+    throwIfAborted(signal);
+
+    if (!streams.some(stream => stream.buffer.length > 0)) break;
+    takeSearchResults(state.groups, streams, page, touched, token.limit);
   }
 
-  // Parse global ID (format: provider:id)
-  const [providerId, seriesId] = globalId.split(':');
-  if (!providerId || !seriesId) {
-    throw new Error('Invalid manga ID format. Expected: provider:id');
+  rememberSources(Array.from(touched));
+  // Copies, so series shown earlier can keep gaining sources without changing what was returned
+  return page.map(copyGroup);
+}
+
+// Stops as soon as a provider that has more pages runs dry, so it is refilled first
+function takeSearchResults(
+  groups: Manga[],
+  streams: ProviderStream[],
+  page: Manga[],
+  touched: Set<Manga>,
+  limit: number
+) {
+  while (page.length < limit && !streams.some(needsFetch)) {
+    const available = streams.filter(stream => stream.buffer.length > 0);
+    if (available.length === 0) break;
+
+    for (const stream of available) {
+      const result = stream.buffer.shift()!;
+      const { group, isNew } = addToGroups(groups, result, stream.provider, DEFAULT_MATCH_OPTIONS, seriesLinks);
+      touched.add(group);
+      if (isNew) page.push(group);
+      if (page.length >= limit) break;
+    }
   }
+}
 
-  const provider = providerRegistry.getProvider(providerId);
+async function fetchStreamPage(
+  stream: ProviderStream,
+  seen: Set<string>,
+  token: SearchCursorToken,
+  signal?: AbortSignal
+) {
+  const provider = providerRegistry.getProvider(stream.provider);
   if (!provider) {
-    throw new Error(`Provider not found: ${providerId}`);
+    stream.hasNextPage = false;
+    stream.error = 'Provider not found';
+    return;
   }
 
+  const page = stream.page + 1;
   try {
-    const details = await provider.details(seriesId);
-    
-    // Convert to normalized format
-    const manga: Manga = {
-      id: globalId,
-      title: details.title,
-      cover: details.image || '/placeholder.svg',
-      status: details.status || 'Unknown',
-      score: details.rating,
-      synopsis: details.description,
-      tags: (details.genres || []).map(g => typeof g === 'string' ? g : g.name),
-      authors: (details.authors || []).map(a => typeof a === 'string' ? a : a.name),
-      year: details.releaseDate ? new Date(details.releaseDate).getFullYear() : undefined,
-      provider: providerId,
-      providerId: seriesId,
-      chapters: details.chapters,
-      volumes: details.volumes
-    };
+    // Without paging information, an empty page is the only sign of the end
+    const { results, hasNextPage } = provider.searchPage
+      ? await provider.searchPage(token.q, page, token.lang, { signal })
+      : await provider.search(token.q, page, token.lang, { signal }).then(results => ({
+        results,
+        hasNextPage: results.length > 0
+      }));
 
-    // Validate with schema
-    const validatedManga = MangaSchema.parse(manga);
-    
-    // Cache the result
-    detailsCache.set(globalId, validatedManga);
-    return validatedManga;
+    // Sources that ignore the page number repeat themselves instead of ending
+    const fresh = results.filter(result => !seen.has(`${stream.provider}:${result.id}`));
+    fresh.forEach(result => seen.add(`${stream.provider}:${result.id}`));
+
+    stream.page = page;
+    stream.buffer = fresh;
+    stream.hasNextPage = hasNextPage && fresh.length > 0;
+    stream.received += fresh.length;
+    stream.error = undefined;
   } catch (error) {
-    console.error(`Failed to get manga details for ${globalId}:`, error);
-    throw error;
+    throwIfAborted(signal, stream.provider);
+    console.error(`Search failed for provider ${stream.provider}:`, error);
+    stream.hasNextPage = false;
+    stream.error = error instanceof Error ? error.message : 'Search failed';
   }
 }
 
-export async function getChapters(
-  globalSeriesId: string,
-  opts: { lang?: string; order?: 'asc' | 'desc' } = {}
-): Promise<Chapter[]> {
-  // Check cache first
-  const cacheKey = `${globalSeriesId}:${opts.lang || 'all'}:${opts.order || 'asc'}`;
-  const cached = chaptersCache.get(cacheKey);
-  if (cached) {
-    return cached;
-  }
+// Most followed series on MangaDex, the only source that can list without a query
+export async function getPopularManga(
+  opts: { page?: number; lang?: string; signal?: AbortSignal } = {}
+): Promise<SearchResult> {
+  const { page = 1, lang, signal } = opts;
+  const provider = providerRegistry.getProvider('mangadex');
 
-  // Parse global ID
-  const [providerId, seriesId] = globalSeriesId.split(':');
-  if (!providerId || !seriesId) {
-    throw new Error('Invalid series ID format. Expected: provider:id');
+  if (!(provider instanceof MangaDexProvider) || !providerRegistry.isEnabled(provider.id)) {
+    return emptySearchResult(page, POPULAR_PAGE_SIZE);
   }
 
-  const provider = providerRegistry.getProvider(providerId);
-  if (!provider) {
-    throw new Error(`Provider not found: ${providerId}`);
-  }
+  return searchCache.fetch(`popular:${page}:${lang || 'all'}`, async signal => {
+    const { results, hasNextPage } = await provider.searchWithFilters('', page, { order: 'followedCount' }, lang, signal);
+    const data = dedupeAndMerge([{ data: results, provider: provider.id }], DEFAULT_MATCH_OPTIONS, seriesLinks);
 
-  try {
-    const providerChapters = await provider.chapters(seriesId, opts);
-    
-    // Convert to normalized format
-    const chapters: Chapter[] = providerChapters.map(chapter => ({
+    return {
+      data,
+      pagination: {
+        current_page: page,
+        has_next_page: hasNextPage,
+        last_visible_page: hasNextPage ? page + 1 : page,
+        items: {
+          count: data.length,
+          total: (page - 1) * POPULAR_PAGE_SIZE + data.length,
+          per_page: POPULAR_PAGE_SIZE
+        }
+      }
+    };
+  }, { signal, shouldCache: response => response.data.length > 0 });
+}
+
+function toManga(globalId: string, providerId: string, seriesId: string, details: ProviderSearchResult): Manga {
+  const manga: Manga = {
+    id: globalId,
+    title: details.title,
+    ...getTitleVariants(details),
+    cover: details.image || '/placeholder.svg',
+    status: details.status || 'Unknown',
+    score: details.rating,
+    synopsis: details.description,
+    tags: (details.genres || []).map(g => typeof g === 'string' ? g : g.name),
+    authors: (details.authors || []).map(a => typeof a === 'string' ? a : a.name),
+    year: details.releaseDate ? new Date(details.releaseDate).getFullYear() : undefined,
+    provider: providerId,
+    providerId: seriesId,
+    chapters: details.chapters,
+    volumes: details.volumes
+  };
+
+  // Validate with schema
+  return MangaSchema.parse(manga);
+}
+
+function toChapters(globalSeriesId: string, providerId: string, providerChapters: ProviderChapter[]): Chapter[] {
+  return providerChapters.map(chapter => {
+    // Left unset rather than defaulted, so extras are not mistaken for chapter 0
+    const chapterNumber = chapter.chapterNumber?.toString() || undefined;
+    return {
       id: `${providerId}:${chapter.id}`,
       seriesId: globalSeriesId,
-      chapterNumber: chapter.chapterNumber?.toString() || '0',
-      title: chapter.title || `Chapter ${chapter.chapterNumber}`,
+      chapterNumber,
+      title: chapter.title || (chapterNumber ? `Chapter ${chapterNumber}` : 'Extra'),
       pagesCount: chapter.pages,
       publishedAt: chapter.releaseDate || new Date().toISOString(),
       externalUrl: chapter.url,
       provider: providerId,
       providerId: chapter.id
-    }));
+    };
+  });
+}
+
+function getChaptersCacheKey(globalSeriesId: string, opts: { lang?: string; order?: 'asc' | 'desc' }): string {
+  return `${globalSeriesId}:${opts.lang || 'all'}:${opts.order || 'asc'}`;
+}
 
-    // Cache the result
-    chaptersCache.set(cacheKey, chapters);
-    return chapters;
+function resolveProvider(globalId: string, kind: 'manga' | 'series' | 'chapter') {
+  // Parse global ID (format: provider:id)
+  const [providerId, rawId] = globalId.split(':');
+  if (!providerId || !rawId) {
+    throw new Error(`Invalid ${kind} ID format. Expected: provider:id`);
+  }
+
+  const provider = providerRegistry.getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Provider not found: ${providerId}`);
+  }
+
+  return { provider, providerId, rawId };
+}
+
+export async function getMangaDetails(
+  globalId: string,
+  opts: { signal?: AbortSignal } = {}
+): Promise<Manga> {
+  const { provider, providerId, rawId: seriesId } = resolveProvider(globalId, 'manga');
+
+  // Sources that list chapters with the details fill both caches from one request
+  if (provider.detailsWithChapters) {
+    const { manga } = await getSeries(globalId, opts);
+    return manga;
+  }
+
+  return detailsCache.fetch(globalId, async signal => {
+    try {
+      const details = await provider.details(seriesId, { signal });
+      return toManga(globalId, providerId, seriesId, details);
+    } catch (error) {
+      console.error(`Failed to get manga details for ${globalId}:`, error);
+      throw error;
+    }
+  }, opts);
+}
+
+export async function getChapters(
+  globalSeriesId: string,
+  opts: { lang?: string; order?: 'asc' | 'desc'; signal?: AbortSignal } = {}
+): Promise<Chapter[]> {
+  const { provider, providerId, rawId: seriesId } = resolveProvider(globalSeriesId, 'series');
+  const { signal, ...chapterOpts } = opts;
+
+  try {
+    // Providers report failures as an empty list, which is not worth keeping
+    return await chaptersCache.fetch(getChaptersCacheKey(globalSeriesId, opts), async signal => {
+      const providerChapters = await provider.chapters(seriesId, { ...chapterOpts, signal });
+      throwIfAborted(signal, providerId);
+      return toChapters(globalSeriesId, providerId, providerChapters);
+    }, { signal, shouldCache: chapters => chapters.length > 0 });
   } catch (error) {
+    throwIfAborted(signal, providerId);
     console.error(`Failed to get chapters for ${globalSeriesId}:`, error);
     return [];
   }
 }
 
-export async function getChapterPages(
-  globalChapterId: string,
-  opts: { dataSaver?: boolean } = {}
-): Promise<PageImage[]> {
-  // Parse global chapter ID
-  const [providerId, chapterId] = globalChapterId.split(':');
-  if (!providerId || !chapterId) {
-    throw new Error('Invalid chapter ID format. Expected: provider:id');
+// Details and chapters together, in a single request when the source allows it
+export async function getSeries(
+  globalId: string,
+  opts: { order?: 'asc' | 'desc'; signal?: AbortSignal } = {}
+): Promise<{ manga: Manga; chapters: Chapter[] }> {
+  const { provider, providerId, rawId: seriesId } = resolveProvider(globalId, 'manga');
+  if (!provider.detailsWithChapters) {
+    const [manga, chapters] = await Promise.all([getMangaDetails(globalId, opts), getChapters(globalId, opts)]);
+    return { manga, chapters };
   }
+  const loadBundle = provider.detailsWithChapters.bind(provider);
 
-  const provider = providerRegistry.getProvider(providerId);
-  if (!provider) {
-    throw new Error(`Provider not found: ${providerId}`);
+  const cacheKey = getChaptersCacheKey(globalId, opts);
+  const load = async (signal?: AbortSignal) => {
+    try {
+      const bundle = await loadBundle(seriesId, { order: opts.order, signal });
+      const manga = toManga(globalId, providerId, seriesId, bundle.details);
+      const chapters = toChapters(globalId, providerId, bundle.chapters);
+
+      detailsCache.set(globalId, manga);
+      if (chapters.length > 0) chaptersCache.set(cacheKey, chapters);
+      return { manga, chapters };
+    } catch (error) {
+      console.error(`Failed to get series ${globalId}:`, error);
+      throw error;
+    }
+  };
+
+  const [cachedManga, cachedChapters] = await Promise.all([
+    detailsCache.get(globalId),
+    chaptersCache.get(cacheKey)
+  ]);
+  if (cachedManga && cachedChapters) {
+    if (!cachedManga.fresh || !cachedChapters.fresh) {
+      detailsCache.revalidate(globalId, async () => {
+        await load();
+      });
+    }
+    return { manga: cachedManga.value, chapters: cachedChapters.value };
+  }
+
+  return load(opts.signal);
+}
+
+// Groups seen in search let a series page list chapters from all of its sources.
+// A source missing from one search (e.g. it timed out) does not split a group.
+function rememberSources(manga: Manga[]) {
+  for (const item of manga) {
+    if (!item.sources || item.sources.length < 2) continue;
+    item.sources.forEach(source => sourcesCache.set(`${source.provider}:${source.id}`, item.sources!));
   }
+}
+
+// Every known source of a series, the given one included: those grouped by
+// search and those the user linked, minus any they split off. A linked
+// primary source comes first, the rest in the user's provider order.
+export async function getSeriesSources(globalId: string): Promise<MangaSource[]> {
+  const hit = await sourcesCache.get(globalId);
+  const grouped = (hit?.value || []).map(source => `${source.provider}:${source.id}`);
+  const ids = new Set([...seriesLinks.getLinked(globalId), ...grouped]);
+  const primary = seriesLinks.getPrimary(globalId);
+  const rank = (id: string) => (id === primary ? 1 : 0);
+
+  return Array.from(ids)
+    .filter(id => id === globalId || (!seriesLinks.areSplit(globalId, id) && providerRegistry.isEnabled(id.split(':')[0])))
+    .map(id => {
+      const [provider, rawId] = id.split(':');
+      return { provider, id: rawId, priority: providerRegistry.getPriority(provider) };
+    })
+    .sort((a, b) => rank(`${b.provider}:${b.id}`) - rank(`${a.provider}:${a.id}`) || b.priority - a.priority);
+}
+
+// A source can serve a chapter when it reads pages and is not paused by the circuit breaker
+function canServeChapters(providerId: string): boolean {
+  const provider = providerRegistry.getProvider(providerId);
+  if (!provider?.supportsPages) return false;
+  return healthMonitor.getHealth(providerId).circuit !== 'open';
+}
+
+// Chapters of a series from all of its sources, aligned by chapter number. Each
+// chapter comes from the highest-priority source that can serve it and lists the others.
+export async function getMergedChapters(
+  globalSeriesId: string,
+  opts: { lang?: string; order?: 'asc' | 'desc'; signal?: AbortSignal } = {}
+): Promise<Chapter[]> {
+  const sources = await getSeriesSources(globalSeriesId);
+  const lists = await Promise.all(
+    sources.map(source => getChapters(`${source.provider}:${source.id}`, { ...opts, order: 'asc' }))
+  );
+  throwIfAborted(opts.signal);
+
+  return mergeChapterLists(lists, canServeChapters, opts.order);
+}
+
+export async function getChapterPages(
+  globalChapterId: string,
+  opts: { dataSaver?: boolean; signal?: AbortSignal } = {}
+): Promise<PageImage[]> {
+  const { provider, providerId, rawId: chapterId } = resolveProvider(globalChapterId, 'chapter');
 
   if (!provider.supportsPages) {
     throw new Error(`Provider ${providerId} does not support reading pages`);
@@ -223,24 +680,23 @@ export async function getChapterPages(
 
   try {
     const providerPages = await provider.pages(chapterId, opts);
+    throwIfAborted(opts.signal, providerId);
     
     // Convert to normalized format
     const pages: PageImage[] = providerPages.map((page, index) => ({
       index: page.page || index,
       originalUrl: page.img,
-      dataSaverUrl: opts.dataSaver ? page.img : undefined // Some providers may have different URLs
+      dataSaverUrl: page.dataSaverImg
     }));
 
     return pages.sort((a, b) => a.index - b.index);
   } catch (error) {
+    throwIfAborted(opts.signal, providerId);
     console.error(`Failed to get pages for ${globalChapterId}:`, error);
     return [];
   }
 }
 
-// Utility functions for backward compatibility
-export { providerRegistry as MANGA_PROVIDERS };
-
 export function getImageUrl(originalUrl: string, dataSaver: boolean = false): string {
   if (!originalUrl) return '/placeholder.svg';
   
@@ -249,9 +705,29 @@ export function getImageUrl(originalUrl: string, dataSaver: boolean = false): st
   return dataSaver ? `${proxyUrl}&quality=low` : proxyUrl;
 }
 
-// Clear all caches
-export function clearCache(): void {
-  searchCache.clear();
-  detailsCache.clear();
-  chaptersCache.clear();
+// Remote covers go through the proxy too: loaded directly they are opaque
+// cross-origin responses the service worker does not cache. Local covers are
+// data URLs and are used as-is.
+export function getCoverUrl(cover: string): string {
+  return /^https?:/.test(cover) ? getImageUrl(cover) : cover || '/placeholder.svg';
+}
+
+// Prefers the source's own data-saver image over downscaling in the proxy;
+// downloaded and local pages are object URLs and are used as-is
+export function getPageImageUrl(page: PageImage, dataSaver: boolean = false): string {
+  if (page.originalUrl.startsWith('blob:')) return page.originalUrl;
+  if (dataSaver && page.dataSaverUrl) return getImageUrl(page.dataSaverUrl);
+  return getImageUrl(page.originalUrl, dataSaver);
+}
+
+// Clears cached API responses in memory and IndexedDB; library and progress are kept
+export async function clearCache(): Promise<void> {
+  await Promise.all([searchCache.clear(), detailsCache.clear(), chaptersCache.clear(), sourcesCache.clear()]);
+}
+
+// Drops the cached details and chapters of one provider's series, e.g. when
+// an installed source definition is replaced and may now parse them differently
+export async function clearProviderCache(providerId: string): Promise<void> {
+  const prefix = `${providerId}:`;
+  await Promise.all([detailsCache.deletePrefix(prefix), chaptersCache.deletePrefix(prefix), sourcesCache.deletePrefix(prefix)]);
 }
\ No newline at end of file
@@ -0,0 +1,198 @@
+import localforage from 'localforage';
+import { LRUCache } from './dedupe';
+
+// Bumped when the shape of cached Manga/Chapter records changes
+const CACHE_VERSION = 3;
+
+const persistentStore = localforage.createInstance({
+  name: 'SoloToon',
+  storeName: 'api_cache',
+  description: 'Cached search results, series details and chapter lists'
+});
+
+export type CacheKind = 'search' | 'details' | 'chapters' | 'sources';
+
+export interface CachePolicy {
+  ttlMs: number; // fresh for this long
+  staleMs: number; // then served while a background refresh runs, for at most this long
+  memoryEntries: number;
+  persistedEntries: number; // oldest entries are evicted past this
+}
+
+export const CACHE_POLICIES: Record<CacheKind, CachePolicy> = {
+  search: { ttlMs: 10 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000, memoryEntries: 50, persistedEntries: 200 },
+  details: { ttlMs: 6 * 60 * 60 * 1000, staleMs: 7 * 24 * 60 * 60 * 1000, memoryEntries: 100, persistedEntries: 500 },
+  chapters: { ttlMs: 60 * 60 * 1000, staleMs: 7 * 24 * 60 * 60 * 1000, memoryEntries: 100, persistedEntries: 500 },
+  // Which search results were grouped as one series; refreshed by later searches
+  sources: { ttlMs: 30 * 24 * 60 * 60 * 1000, staleMs: 0, memoryEntries: 200, persistedEntries: 1000 }
+};
+
+interface CacheEntry<V> {
+  version: number;
+  storedAt: number;
+  value: V;
+}
+
+export interface CacheHit<V> {
+  value: V;
+  fresh: boolean;
+}
+
+// Memory LRU in front of IndexedDB. Entries survive reloads and are served
+// stale-while-revalidate until they are too old to be useful.
+export class TieredCache<V> {
+  private memory: LRUCache<string, CacheEntry<V>>;
+  private refreshing = new Set<string>();
+  // Persisted keys and their age, read from IndexedDB on first use
+  private index: Promise<Map<string, number>> | null = null;
+
+  constructor(readonly kind: CacheKind, private policy: CachePolicy = CACHE_POLICIES[kind]) {
+    this.memory = new LRUCache(policy.memoryEntries);
+  }
+
+  private storageKey(key: string): string {
+    return `${this.kind}:${key}`;
+  }
+
+  private loadIndex(): Promise<Map<string, number>> {
+    if (!this.index) {
+      const prefix = `${this.kind}:`;
+      const index = new Map<string, number>();
+      this.index = persistentStore
+        .iterate<CacheEntry<V>, void>((entry, storageKey) => {
+          if (storageKey.startsWith(prefix)) index.set(storageKey, entry?.storedAt || 0);
+        })
+        .then(() => index)
+        .catch(error => {
+          console.error(`Failed to read ${this.kind} cache:`, error);
+          return index;
+        });
+    }
+    return this.index;
+  }
+
+  async get(key: string): Promise<CacheHit<V> | undefined> {
+    let entry = this.memory.get(key);
+
+    if (!entry) {
+      try {
+        entry = await persistentStore.getItem<CacheEntry<V>>(this.storageKey(key)) || undefined;
+      } catch (error) {
+        console.error(`Failed to read ${this.kind} cache:`, error);
+      }
+      if (!entry) return undefined;
+      this.memory.set(key, entry);
+    }
+
+    const age = Date.now() - entry.storedAt;
+    if (entry.version !== CACHE_VERSION || age >= this.policy.ttlMs + this.policy.staleMs) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return { value: entry.value, fresh: age < this.policy.ttlMs };
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    const entry: CacheEntry<V> = { version: CACHE_VERSION, storedAt: Date.now(), value };
+    this.memory.set(key, entry);
+
+    // A full or unavailable IndexedDB only costs us the persistence
+    try {
+      const storageKey = this.storageKey(key);
+      await persistentStore.setItem(storageKey, entry);
+
+      const index = await this.loadIndex();
+      index.set(storageKey, entry.storedAt);
+      await this.evict(index);
+    } catch (error) {
+      console.error(`Failed to persist ${this.kind} cache entry:`, error);
+    }
+  }
+
+  private async evict(index: Map<string, number>) {
+    const excess = index.size - this.policy.persistedEntries;
+    if (excess <= 0) return;
+
+    const oldest = Array.from(index.entries())
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, excess)
+      .map(([storageKey]) => storageKey);
+
+    oldest.forEach(storageKey => index.delete(storageKey));
+    await Promise.all(oldest.map(storageKey => persistentStore.removeItem(storageKey)));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    const storageKey = this.storageKey(key);
+    (await this.loadIndex()).delete(storageKey);
+    await persistentStore.removeItem(storageKey).catch(() => undefined);
+  }
+
+  // Drops every entry whose key starts with `prefix`, e.g. all chapter lists of a series
+  async deletePrefix(prefix: string): Promise<void> {
+    const keys = new Set(this.memory.keys().filter(key => key.startsWith(prefix)));
+    const storagePrefix = this.storageKey(prefix);
+    for (const storageKey of (await this.loadIndex()).keys()) {
+      if (storageKey.startsWith(storagePrefix)) keys.add(storageKey.slice(`${this.kind}:`.length));
+    }
+    await Promise.all(Array.from(keys, key => this.delete(key)));
+  }
+
+  // Runs one background refresh per key at a time; `refresh` stores the new
+  // value itself and failures keep the stale one
+  revalidate(key: string, refresh: () => Promise<void>) {
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+
+    refresh()
+      .catch(error => console.warn(`Background refresh failed for ${this.kind} ${key}:`, error))
+      .finally(() => this.refreshing.delete(key));
+  }
+
+  // Fresh hits are returned as is and stale ones straight away while they
+  // refresh. Only misses wait for `load`, which receives the caller's signal.
+  async fetch(
+    key: string,
+    load: (signal?: AbortSignal) => Promise<V>,
+    opts: { signal?: AbortSignal; shouldCache?: (value: V) => boolean } = {}
+  ): Promise<V> {
+    const { signal, shouldCache = () => true } = opts;
+    const hit = await this.get(key);
+    if (hit) {
+      if (!hit.fresh) {
+        this.revalidate(key, async () => {
+          const value = await load();
+          if (shouldCache(value)) await this.set(key, value);
+        });
+      }
+      return hit.value;
+    }
+
+    const value = await load(signal);
+    if (shouldCache(value)) this.set(key, value);
+    return value;
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    const index = await this.loadIndex();
+    const keys = Array.from(index.keys());
+    index.clear();
+    await Promise.all(keys.map(storageKey => persistentStore.removeItem(storageKey)));
+  }
+}
+
+export async function getPersistentCacheSize(): Promise<number> {
+  try {
+    let totalSize = 0;
+    await persistentStore.iterate(item => {
+      totalSize += JSON.stringify(item).length;
+    });
+    return totalSize;
+  } catch (error) {
+    console.error('Failed to get API cache size:', error);
+    return 0;
+  }
+}
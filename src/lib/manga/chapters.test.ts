@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChapterLists } from './chapters';
+import { Chapter } from './schema';
+
+function chapter(provider: string, id: string, chapterNumber?: string, title?: string): Chapter {
+  return {
+    id: `${provider}:${id}`,
+    seriesId: `${provider}:series`,
+    chapterNumber,
+    title: title || (chapterNumber ? `Chapter ${chapterNumber}` : 'Extra'),
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    provider,
+    providerId: id
+  };
+}
+
+const ids = (chapters: Chapter[]) => chapters.map(c => c.id);
+
+describe('mergeChapterLists', () => {
+  it('aligns chapters by number across sources', () => {
+    const merged = mergeChapterLists([
+      [chapter('mangadex', 'a1', '1'), chapter('mangadex', 'a2', '2')],
+      [chapter('comick', 'b1', '001'), chapter('comick', 'b2', 'Ch. 2.0'), chapter('comick', 'b3', '3')]
+    ]);
+
+    expect(ids(merged)).toEqual(['mangadex:a1', 'mangadex:a2', 'comick:b3']);
+    expect(merged[0].sources?.map(source => source.chapterId)).toEqual(['mangadex:a1', 'comick:b1']);
+    expect(merged[2].sources?.map(source => source.chapterId)).toEqual(['comick:b3']);
+  });
+
+  it('prefers the first source that is available', () => {
+    const lists = [[chapter('mangadex', 'a1', '1')], [chapter('comick', 'b1', '1')]];
+
+    expect(ids(mergeChapterLists(lists))).toEqual(['mangadex:a1']);
+
+    const merged = mergeChapterLists(lists, provider => provider !== 'mangadex');
+    expect(ids(merged)).toEqual(['comick:b1']);
+    expect(merged[0].sources?.map(source => source.provider)).toEqual(['comick', 'mangadex']);
+  });
+
+  it('keeps the first copy when a source lists a number twice', () => {
+    const merged = mergeChapterLists([[chapter('mangadex', 'a1', '5'), chapter('mangadex', 'a2', '5')]]);
+
+    expect(ids(merged)).toEqual(['mangadex:a1']);
+  });
+
+  it('keeps every extra without a number separate', () => {
+    const merged = mergeChapterLists([
+      [chapter('mangadex', 'a0', undefined, 'Oneshot'), chapter('mangadex', 'a1', '1'), chapter('mangadex', 'a9', undefined, 'Side story')],
+      [chapter('comick', 'b0', undefined, 'Oneshot')]
+    ]);
+
+    expect(ids(merged)).toHaveLength(4);
+    expect(ids(merged)).toEqual(expect.arrayContaining(['mangadex:a0', 'mangadex:a9', 'comick:b0', 'mangadex:a1']));
+    expect(merged.find(c => c.id === 'mangadex:a0')?.sources).toHaveLength(1);
+  });
+
+  it('does not mistake an extra for chapter 0', () => {
+    const merged = mergeChapterLists([[chapter('mangadex', 'a0', '0', 'Prologue'), chapter('mangadex', 'ax', undefined, 'Extra')]]);
+
+    expect(ids(merged)).toEqual(['mangadex:a0', 'mangadex:ax']);
+  });
+
+  it('sorts in the requested order', () => {
+    const list = [chapter('mangadex', 'a2', '2'), chapter('mangadex', 'a10', '10'), chapter('mangadex', 'a1', '1.5')];
+
+    expect(mergeChapterLists([list]).map(c => c.chapterNumber)).toEqual(['1.5', '2', '10']);
+    expect(mergeChapterLists([list], undefined, 'desc').map(c => c.chapterNumber)).toEqual(['10', '2', '1.5']);
+  });
+});
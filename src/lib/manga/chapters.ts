@@ -0,0 +1,59 @@
+import { Chapter } from './schema';
+
+// "12", "12.0", "012" and "Ch. 12" all align as "12"
+export function normalizeChapterNumber(value: string | undefined): string | null {
+  const match = value?.match(/\d+(?:\.\d+)?/);
+  return match ? String(parseFloat(match[0])) : null;
+}
+
+// "Chapter 12", or the title of an extra without a number
+export function getChapterLabel(chapter: Pick<Chapter, 'chapterNumber' | 'title'>): string {
+  return chapter.chapterNumber ? `Chapter ${chapter.chapterNumber}` : chapter.title;
+}
+
+// Aligns the chapter lists of one series from several sources by chapter number.
+// Lists come in order of preference; each merged chapter is the copy from the
+// first available source and lists every source that has it.
+export function mergeChapterLists(
+  lists: Chapter[][],
+  isAvailable: (provider: string) => boolean = () => true,
+  order: 'asc' | 'desc' = 'asc'
+): Chapter[] {
+  const groups = new Map<string, Chapter[]>();
+
+  for (const list of lists) {
+    for (const chapter of list) {
+      // Extras without a number cannot be aligned and stay separate
+      const key = normalizeChapterNumber(chapter.chapterNumber) ?? chapter.id;
+      const group = groups.get(key) || [];
+      if (!group.some(c => c.provider === chapter.provider)) group.push(chapter);
+      groups.set(key, group);
+    }
+  }
+
+  const merged = Array.from(groups.values()).map(group => {
+    const preferred = group.find(c => isAvailable(c.provider)) || group[0];
+    const ordered = [preferred, ...group.filter(c => c !== preferred)];
+
+    return {
+      ...preferred,
+      sources: ordered.map(c => ({ provider: c.provider, chapterId: c.id, seriesId: c.seriesId }))
+    };
+  });
+
+  return merged.sort((a, b) => {
+    const aNum = parseFloat(normalizeChapterNumber(a.chapterNumber) || '0');
+    const bNum = parseFloat(normalizeChapterNumber(b.chapterNumber) || '0');
+    return order === 'asc' ? aNum - bNum : bNum - aNum;
+  });
+}
+
+// True when the chapter is, or is available from, the given global chapter id
+export function hasChapterId(chapter: Chapter, chapterId: string): boolean {
+  return chapter.id === chapterId || !!chapter.sources?.some(source => source.chapterId === chapterId);
+}
+
+// Every global id the chapter is known under, preferred source first
+export function getChapterIds(chapter: Chapter): string[] {
+  return chapter.sources ? chapter.sources.map(source => source.chapterId) : [chapter.id];
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import pairs from './__fixtures__/match-pairs.json';
+import { scoreMatch } from './dedupe';
+import { Manga } from './schema';
+
+// Golden pairs: series the same on two sources, and different series that
+// look alike. Tuning the weights or the threshold must keep every pair put.
+interface MatchPair {
+  name: string;
+  a: Partial<Manga>;
+  b: Partial<Manga>;
+}
+
+function toManga(fields: Partial<Manga>, provider: string): Manga {
+  return {
+    id: `${provider}:1`,
+    title: '',
+    cover: '',
+    status: 'Unknown',
+    tags: [],
+    authors: [],
+    provider,
+    providerId: '1',
+    ...fields
+  };
+}
+
+function classify({ a, b }: MatchPair) {
+  return scoreMatch(toManga(a, 'mangadex'), toManga(b, 'consumet'));
+}
+
+describe('scoreMatch', () => {
+  it.each(pairs.duplicates as MatchPair[])('matches duplicates: $name', pair => {
+    expect(classify(pair).isMatch).toBe(true);
+  });
+
+  it.each(pairs.distinct as MatchPair[])('keeps different series apart: $name', pair => {
+    expect(classify(pair).isMatch).toBe(false);
+  });
+
+  it('scores the same regardless of order', () => {
+    for (const pair of [...pairs.duplicates, ...pairs.distinct] as MatchPair[]) {
+      expect(classify({ ...pair, a: pair.b, b: pair.a }).score).toBeCloseTo(classify(pair).score);
+    }
+  });
+});
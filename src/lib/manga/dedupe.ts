@@ -1,10 +1,13 @@
 import { Manga, ProviderSearchResult } from './schema';
+import { providerRegistry } from './providers/registry';
 
-// Normalize title for comparison
+// Normalize title for comparison; accents are dropped, other scripts are kept
 function normalizeTitle(title: string): string {
   return title
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '') // Remove accents
     .toLowerCase()
-    .replace(/[^\w\s]/g, '') // Remove punctuation
+    .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove punctuation
     .replace(/\s+/g, ' ') // Normalize whitespace
     .trim();
 }
@@ -62,35 +65,176 @@ function jaroWinkler(s1: string, s2: string): number {
   return jaro + 0.1 * prefix * (1 - jaro);
 }
 
-// Calculate similarity between two manga
-function calculateSimilarity(manga1: ProviderSearchResult, manga2: ProviderSearchResult): number {
-  const title1 = normalizeTitle(manga1.title);
-  const title2 = normalizeTitle(manga2.title);
-  
-  let titleSimilarity = jaroWinkler(title1, title2);
-  
-  // Boost score if authors match
-  if (manga1.authors && manga2.authors) {
-    const authors1 = manga1.authors.map(a => typeof a === 'string' ? a : a.name).join(' ').toLowerCase();
-    const authors2 = manga2.authors.map(a => typeof a === 'string' ? a : a.name).join(' ').toLowerCase();
-    
-    if (authors1 && authors2) {
-      const authorSimilarity = jaroWinkler(authors1, authors2);
-      titleSimilarity = Math.max(titleSimilarity, authorSimilarity * 0.8);
+// Words of a title, where punctuation also separates words ("Tokyo Ghoul:re")
+function titleWords(title: string): string[] {
+  return normalizeTitle(title.replace(/[^\p{L}\p{N}\p{M}\s]/gu, ' ')).split(' ').filter(Boolean);
+}
+
+// Similarity of two titles after normalization (0..1)
+export function titleSimilarity(title1: string, title2: string): number {
+  const normalized1 = normalizeTitle(title1);
+  const normalized2 = normalizeTitle(title2);
+
+  // Titles made only of punctuation normalize to nothing
+  if (!normalized1 || !normalized2) return 0;
+
+  // A title that continues another ("Dragon Ball Super") names a sequel or
+  // spin-off, so it only scores the share of words the two have in common
+  const words1 = titleWords(title1);
+  const words2 = titleWords(title2);
+  const [shorter, longer] = words1.length <= words2.length ? [words1, words2] : [words2, words1];
+  if (shorter.length < longer.length && shorter.every((word, i) => longer[i] === word)) {
+    return shorter.length / longer.length;
+  }
+
+  return jaroWinkler(normalized1, normalized2);
+}
+
+// Every title a series is known by: main, English, native and alternatives
+export function getTitles(manga: Pick<Manga, 'title' | 'titleEnglish' | 'titleJapanese' | 'altTitles'>): string[] {
+  const titles = [manga.title, manga.titleEnglish, manga.titleJapanese, ...(manga.altTitles || [])];
+  return Array.from(new Set(titles.filter((title): title is string => !!title)));
+}
+
+// Best similarity between any title of one list and any of the other
+export function bestTitleMatch(titles1: string[], titles2: string[]): { similarity: number; titles?: [string, string] } {
+  let best: { similarity: number; titles?: [string, string] } = { similarity: 0 };
+  for (const title1 of titles1) {
+    for (const title2 of titles2) {
+      const similarity = titleSimilarity(title1, title2);
+      if (similarity > best.similarity) best = { similarity, titles: [title1, title2] };
+      if (similarity === 1) return best;
     }
   }
-  
-  // Consider year if available
-  if (manga1.releaseDate && manga2.releaseDate) {
-    const year1 = new Date(manga1.releaseDate).getFullYear();
-    const year2 = new Date(manga2.releaseDate).getFullYear();
-    
-    if (Math.abs(year1 - year2) <= 1) {
-      titleSimilarity += 0.1; // Small boost for same/close year
+  return best;
+}
+
+// English and native titles where the source says which language a title is in
+export function getTitleVariants(
+  result: ProviderSearchResult
+): Pick<Manga, 'titleEnglish' | 'titleJapanese' | 'altTitles'> {
+  let titleEnglish: string | undefined;
+  let titleJapanese: string | undefined;
+  const altTitles = new Set<string>();
+
+  for (const entry of result.altTitles || []) {
+    if (typeof entry === 'string') {
+      altTitles.add(entry);
+      continue;
+    }
+    for (const [lang, title] of Object.entries(entry)) {
+      altTitles.add(title);
+      if (lang === 'en') titleEnglish ??= title;
+      if (lang === 'ja') titleJapanese ??= title;
     }
   }
-  
-  return Math.min(titleSimilarity, 1.0);
+  altTitles.delete(result.title);
+
+  return { titleEnglish, titleJapanese, altTitles: altTitles.size > 0 ? Array.from(altTitles) : undefined };
+}
+
+// Dedupe scoring. Each signal both results have contributes its similarity
+// times its weight; signals only one side has are left out of the average.
+export interface MatchWeights {
+  title: number;
+  authors: number;
+  year: number;
+}
+
+export interface MatchOptions {
+  weights: MatchWeights;
+  threshold: number; // scores at or above this are the same series
+  minTitleSimilarity: number; // below this, matching authors and year are not enough
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  weights: { title: 0.6, authors: 0.25, year: 0.15 },
+  threshold: 0.85,
+  minTitleSimilarity: 0.8
+};
+
+export interface SignalScore {
+  signal: keyof MatchWeights;
+  similarity: number; // 0..1
+  weight: number;
+  detail: string; // what was compared, for tuning
+}
+
+export interface MatchScore {
+  score: number;
+  isMatch: boolean;
+  signals: SignalScore[];
+}
+
+// Manual decisions that take precedence over the score, see links.ts
+export interface MatchOverrides {
+  areLinked(globalId1: string, globalId2: string): boolean;
+  areSplit(globalId1: string, globalId2: string): boolean;
+}
+
+// "Oda, Eiichiro" and "Eiichiro Oda" compare equal
+function normalizeAuthor(name: string): string {
+  return normalizeTitle(name).split(' ').sort().join(' ');
+}
+
+// Share of the shorter author list that also appears in the other one
+function authorSimilarity(authors1: string[], authors2: string[]): number {
+  const names1 = authors1.map(normalizeAuthor).filter(Boolean);
+  const names2 = authors2.map(normalizeAuthor).filter(Boolean);
+  const [shorter, longer] = names1.length <= names2.length ? [names1, names2] : [names2, names1];
+  if (shorter.length === 0) return 0;
+
+  const shared = shorter.filter(name => longer.some(other => jaroWinkler(name, other) >= 0.9));
+  return shared.length / shorter.length;
+}
+
+// Sources disagree by a year or so on when a series started
+function yearSimilarity(year1: number, year2: number): number {
+  const difference = Math.abs(year1 - year2);
+  if (difference <= 1) return 1;
+  if (difference <= 3) return 0.5;
+  return 0;
+}
+
+// Weighted, explainable similarity of two series
+export function scoreMatch(manga1: Manga, manga2: Manga, options: MatchOptions = DEFAULT_MATCH_OPTIONS): MatchScore {
+  const { weights } = options;
+  const title = bestTitleMatch(getTitles(manga1), getTitles(manga2));
+  const signals: SignalScore[] = [{
+    signal: 'title',
+    similarity: title.similarity,
+    weight: weights.title,
+    detail: title.titles ? `"${title.titles[0]}" ~ "${title.titles[1]}"` : 'no comparable titles'
+  }];
+
+  if (manga1.authors.length > 0 && manga2.authors.length > 0) {
+    signals.push({
+      signal: 'authors',
+      similarity: authorSimilarity(manga1.authors, manga2.authors),
+      weight: weights.authors,
+      detail: `${manga1.authors.join(', ')} ~ ${manga2.authors.join(', ')}`
+    });
+  }
+
+  if (manga1.year && manga2.year) {
+    signals.push({
+      signal: 'year',
+      similarity: yearSimilarity(manga1.year, manga2.year),
+      weight: weights.year,
+      detail: `${manga1.year} ~ ${manga2.year}`
+    });
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = totalWeight > 0
+    ? signals.reduce((sum, signal) => sum + signal.similarity * signal.weight, 0) / totalWeight
+    : 0;
+
+  return {
+    score,
+    isMatch: title.similarity >= options.minTitleSimilarity && score >= options.threshold,
+    signals
+  };
 }
 
 // Convert provider result to normalized manga
@@ -100,6 +244,7 @@ function providerResultToManga(result: ProviderSearchResult, provider: string):
   return {
     id,
     title: result.title,
+    ...getTitleVariants(result),
     cover: result.image || '/placeholder.svg',
     status: result.status || 'Unknown',
     score: result.rating,
@@ -114,78 +259,94 @@ function providerResultToManga(result: ProviderSearchResult, provider: string):
     sources: [{
       provider,
       id: result.id,
-      priority: getProviderPriority(provider)
+      priority: providerRegistry.getPriority(provider)
     }]
   };
 }
 
-// Get provider priority for merging
-function getProviderPriority(provider: string): number {
-  const priorities: Record<string, number> = {
-    'mangadx': 100,
-    'comick': 90,
-    'mangasee123': 80,
-    'mangakakalot': 70,
-    'mangapark': 60
-  };
-  return priorities[provider] || 0;
+// Later titles of a group are kept so further sources can match any of them
+function mergeTitles(target: Manga, source: Manga) {
+  const known = new Set(getTitles(target));
+  const added = getTitles(source).filter(title => !known.has(title));
+  if (added.length > 0) target.altTitles = [...(target.altTitles || []), ...added];
+
+  target.titleEnglish = target.titleEnglish || source.titleEnglish;
+  target.titleJapanese = target.titleJapanese || source.titleJapanese;
+}
+
+// Adds one search result to the groups found so far: merged into the closest
+// matching series, or appended as a new one. Groups are updated in place.
+export function addToGroups(
+  groups: Manga[],
+  result: ProviderSearchResult,
+  provider: string,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS,
+  overrides?: MatchOverrides
+): { group: Manga; isNew: boolean } {
+  const manga = providerResultToManga(result, provider);
+  
+  // Find the closest existing series that is similar enough
+  let duplicate: Manga | null = null;
+  let maxScore = 0;
+  
+  for (const existing of groups) {
+    const members = (existing.sources || []).map(source => `${source.provider}:${source.id}`);
+    if (members.includes(manga.id)) return { group: existing, isNew: false };
+    if (overrides && members.some(id => overrides.areSplit(manga.id, id))) continue;
+    if (overrides && members.some(id => overrides.areLinked(manga.id, id))) {
+      duplicate = existing;
+      break;
+    }
+
+    const match = scoreMatch(manga, existing, options);
+    
+    if (match.isMatch && match.score > maxScore) {
+      maxScore = match.score;
+      duplicate = existing;
+    }
+  }
+  
+  if (!duplicate) {
+    groups.push(manga);
+    return { group: manga, isNew: true };
+  }
+
+  // Merge with existing item
+  const newPriority = providerRegistry.getPriority(provider);
+  duplicate.sources = duplicate.sources || [];
+  duplicate.sources.push({ provider, id: result.id, priority: newPriority });
+  mergeTitles(duplicate, manga);
+  if (duplicate.authors.length === 0) duplicate.authors = manga.authors;
+  duplicate.year = duplicate.year || manga.year;
+  
+  // Update with higher priority source data if needed
+  if (newPriority > providerRegistry.getPriority(duplicate.provider)) {
+    duplicate.id = manga.id;
+    duplicate.provider = provider;
+    duplicate.providerId = result.id;
+    duplicate.cover = result.image || duplicate.cover;
+    duplicate.synopsis = result.description || duplicate.synopsis;
+    duplicate.score = result.rating || duplicate.score;
+    duplicate.chapters = result.chapters || duplicate.chapters;
+    duplicate.volumes = result.volumes || duplicate.volumes;
+  }
+  
+  // Sort sources by priority
+  duplicate.sources.sort((a, b) => b.priority - a.priority);
+  return { group: duplicate, isNew: false };
 }
 
 // Main deduplication function
 export function dedupeAndMerge(
-  results: Array<{ data: ProviderSearchResult[]; provider: string }>
+  results: Array<{ data: ProviderSearchResult[]; provider: string }>,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS,
+  overrides?: MatchOverrides
 ): Manga[] {
   const allManga: Manga[] = [];
-  const threshold = 0.85; // Similarity threshold for considering items duplicates
   
   for (const { data, provider } of results) {
     for (const result of data) {
-      const manga = providerResultToManga(result, provider);
-      
-      // Find potential duplicate
-      let duplicate = null;
-      let maxSimilarity = 0;
-      
-      for (const existing of allManga) {
-        const similarity = calculateSimilarity(result, {
-          id: existing.providerId,
-          title: existing.title,
-          authors: existing.authors.map(a => ({ name: a })),
-          releaseDate: existing.year ? `${existing.year}-01-01` : undefined
-        } as ProviderSearchResult);
-        
-        if (similarity > maxSimilarity && similarity >= threshold) {
-          maxSimilarity = similarity;
-          duplicate = existing;
-        }
-      }
-      
-      if (duplicate) {
-        // Merge with existing item
-        const newSource = { provider, id: result.id, priority: getProviderPriority(provider) };
-        duplicate.sources = duplicate.sources || [];
-        duplicate.sources.push(newSource);
-        
-        // Update with higher priority source data if needed
-        const currentPriority = getProviderPriority(duplicate.provider);
-        const newPriority = getProviderPriority(provider);
-        
-        if (newPriority > currentPriority) {
-          duplicate.provider = provider;
-          duplicate.providerId = result.id;
-          duplicate.cover = result.image || duplicate.cover;
-          duplicate.synopsis = result.description || duplicate.synopsis;
-          duplicate.score = result.rating || duplicate.score;
-          duplicate.chapters = result.chapters || duplicate.chapters;
-          duplicate.volumes = result.volumes || duplicate.volumes;
-        }
-        
-        // Sort sources by priority
-        duplicate.sources.sort((a, b) => b.priority - a.priority);
-      } else {
-        // Add as new item
-        allManga.push(manga);
-      }
+      addToGroups(allManga, result, provider, options, overrides);
     }
   }
   
@@ -222,10 +383,18 @@ export class LRUCache<K, V> {
     this.cache.set(key, value);
   }
 
+  delete(key: K): void {
+    this.cache.delete(key);
+  }
+
   clear(): void {
     this.cache.clear();
   }
 
+  keys(): K[] {
+    return Array.from(this.cache.keys());
+  }
+
   size(): number {
     return this.cache.size;
   }
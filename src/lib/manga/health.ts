@@ -0,0 +1,186 @@
+import { MangaApiError } from './schema';
+
+const SAMPLE_SIZE = 100; // most recent requests kept per provider
+const FAILURE_THRESHOLD = 5; // consecutive failures that open the circuit
+const COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  provider: string;
+  requests: number; // within the sample window
+  successRate?: number; // 0..1, unset before the first request
+  p50?: number;
+  p95?: number;
+  lastError?: { code: string; message: string; status?: number; at: string };
+  lastSuccessAt?: string;
+  circuit: CircuitState;
+  openUntil?: number;
+}
+
+interface Sample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface HealthRecord {
+  samples: Sample[];
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  openUntil?: number;
+  cooldownMs: number;
+  trialInFlight: boolean;
+  lastError?: ProviderHealth['lastError'];
+  lastSuccessAt?: string;
+}
+
+type HealthListener = () => void;
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
+
+// Only failures that say the provider itself is unavailable trip the breaker;
+// a 404 for one series does not
+function isAvailabilityFailure(error: MangaApiError): boolean {
+  if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') return true;
+  return error.status === 429 || (error.status ?? 0) >= 500;
+}
+
+// Request metrics and a circuit breaker per provider, fed by fetchJson
+export class HealthMonitor {
+  private records = new Map<string, HealthRecord>();
+  private listeners = new Set<HealthListener>();
+
+  subscribe(listener: HealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getRecord(provider: string): HealthRecord {
+    let record = this.records.get(provider);
+    if (!record) {
+      record = {
+        samples: [],
+        consecutiveFailures: 0,
+        circuit: 'closed',
+        cooldownMs: COOLDOWN_MS,
+        trialInFlight: false
+      };
+      this.records.set(provider, record);
+    }
+    return record;
+  }
+
+  private addSample(record: HealthRecord, sample: Sample) {
+    record.samples.push(sample);
+    if (record.samples.length > SAMPLE_SIZE) record.samples.shift();
+  }
+
+  // After the cool-down a single trial request is let through (half-open)
+  canRequest(provider: string): boolean {
+    const record = this.getRecord(provider);
+    if (record.circuit === 'closed') return true;
+
+    if (record.circuit === 'open' && Date.now() >= (record.openUntil || 0)) {
+      record.circuit = 'half-open';
+      record.trialInFlight = false;
+      this.emit();
+    }
+
+    if (record.circuit === 'half-open' && !record.trialInFlight) {
+      record.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(provider: string, latencyMs: number) {
+    const record = this.getRecord(provider);
+    this.addSample(record, { ok: true, latencyMs });
+    record.consecutiveFailures = 0;
+    record.circuit = 'closed';
+    record.openUntil = undefined;
+    record.cooldownMs = COOLDOWN_MS;
+    record.trialInFlight = false;
+    record.lastSuccessAt = new Date().toISOString();
+    this.emit();
+  }
+
+  recordFailure(provider: string, error: MangaApiError, latencyMs: number) {
+    const record = this.getRecord(provider);
+    this.addSample(record, { ok: false, latencyMs });
+    record.lastError = {
+      code: error.code,
+      message: error.message,
+      status: error.status,
+      at: new Date().toISOString()
+    };
+
+    if (isAvailabilityFailure(error)) {
+      record.consecutiveFailures++;
+      if (record.circuit === 'half-open') {
+        // The trial failed: stay away for longer each time
+        this.open(record, Math.min(record.cooldownMs * 2, MAX_COOLDOWN_MS));
+      } else if (record.consecutiveFailures >= FAILURE_THRESHOLD) {
+        this.open(record, record.cooldownMs);
+      }
+    } else if (record.circuit === 'half-open') {
+      // The provider answered, so it is reachable again
+      record.circuit = 'closed';
+      record.consecutiveFailures = 0;
+    }
+
+    record.trialInFlight = false;
+    this.emit();
+  }
+
+  // A cancelled request says nothing about the provider, but may have been the half-open trial
+  recordCancelled(provider: string) {
+    const record = this.getRecord(provider);
+    record.trialInFlight = false;
+  }
+
+  private open(record: HealthRecord, cooldownMs: number) {
+    record.circuit = 'open';
+    record.cooldownMs = cooldownMs;
+    record.openUntil = Date.now() + cooldownMs;
+  }
+
+  // Closes the circuit and forgets the history, e.g. after fixing a mirror
+  reset(provider: string) {
+    this.records.delete(provider);
+    this.emit();
+  }
+
+  getHealth(provider: string): ProviderHealth {
+    const record = this.records.get(provider);
+    if (!record) return { provider, requests: 0, circuit: 'closed' };
+
+    const latencies = record.samples.filter(s => s.ok).map(s => s.latencyMs).sort((a, b) => a - b);
+    const successes = record.samples.filter(s => s.ok).length;
+
+    return {
+      provider,
+      requests: record.samples.length,
+      successRate: record.samples.length > 0 ? successes / record.samples.length : undefined,
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+      lastError: record.lastError,
+      lastSuccessAt: record.lastSuccessAt,
+      circuit: record.circuit,
+      openUntil: record.openUntil
+    };
+  }
+}
+
+export const healthMonitor = new HealthMonitor();
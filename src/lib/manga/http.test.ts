@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RETRY_POLICY, fetchJson, getBackoffDelay, parseRetryAfter } from './http';
+import { MangaApiError } from './schema';
+
+// Every test talks to its own host, so rate limits, retry budgets and circuit
+// breakers never carry over between tests
+let hostCount = 0;
+function nextUrl(): string {
+  return `https://api${++hostCount}.example.com/manga`;
+}
+
+function reply(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(status === 200 ? JSON.stringify({ ok: true }) : null, { status, headers });
+}
+
+// Runs the request to completion with fake timers, returning its result or error
+async function settle<T>(promise: Promise<T>): Promise<T | MangaApiError> {
+  const result = promise.catch((error: MangaApiError) => error);
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 5 ', now)).toBe(5000);
+    expect(parseRetryAfter('0', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter(new Date(now + 30000).toUTCString(), now)).toBe(30000);
+    expect(parseRetryAfter(new Date(now - 30000).toUTCString(), now)).toBe(0);
+  });
+
+  it('ignores missing and invalid values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const policy = { maxAttempts: 10, baseDelayMs: 500, maxDelayMs: 10000 };
+
+  it('doubles the ceiling with every attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getBackoffDelay(1, policy)).toBe(500);
+    expect(getBackoffDelay(2, policy)).toBe(1000);
+    expect(getBackoffDelay(3, policy)).toBe(2000);
+  });
+
+  it('never exceeds the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getBackoffDelay(10, policy)).toBe(10000);
+    expect(getBackoffDelay(50, policy)).toBe(10000);
+  });
+
+  it('jitters between zero and the ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(3, policy)).toBe(0);
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+    expect(getBackoffDelay(3, policy)).toBe(500);
+  });
+});
+
+describe('fetchJson retries', () => {
+  it.each([408, 429, 502, 503, 504])('retries HTTP %i', async status => {
+    fetchMock.mockResolvedValueOnce(reply(status)).mockResolvedValueOnce(reply(200));
+
+    await expect(settle(fetchJson(nextUrl()))).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([400, 401, 403, 404, 500])('does not retry HTTP %i', async status => {
+    fetchMock.mockImplementation(async () => reply(status));
+
+    const error = await settle(fetchJson(nextUrl()));
+    expect(error).toBeInstanceOf(MangaApiError);
+    expect((error as MangaApiError).status).toBe(status);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network errors', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(reply(200));
+
+    await expect(settle(fetchJson(nextUrl()))).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops after the maximum number of attempts', async () => {
+    fetchMock.mockImplementation(async () => reply(502));
+
+    const error = await settle(fetchJson(nextUrl()));
+    expect((error as MangaApiError).status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+  });
+
+  it('does not retry when retries are turned off', async () => {
+    fetchMock.mockImplementation(async () => reply(503));
+
+    await settle(fetchJson(nextUrl(), { retry: false }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    fetchMock.mockResolvedValueOnce(reply(429, { 'Retry-After': '2' })).mockResolvedValueOnce(reply(200));
+
+    const result = fetchJson(nextUrl());
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when Retry-After is longer than the maximum delay', async () => {
+    fetchMock.mockImplementation(async () => reply(429, { 'Retry-After': '60' }));
+
+    const error = await settle(fetchJson(nextUrl()));
+    expect((error as MangaApiError).retryAfterMs).toBe(60000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retry budget', () => {
+  it('caps retries per host and refills with new requests', async () => {
+    const url = nextUrl();
+    // 408 is retried but does not trip the circuit breaker
+    fetchMock.mockImplementation(async () => reply(408));
+    const policy = { maxAttempts: 50, baseDelayMs: 1, maxDelayMs: 10 };
+
+    await settle(fetchJson(url, { retry: policy }));
+    expect(fetchMock).toHaveBeenCalledTimes(11); // the first attempt and a full budget of 10 retries
+
+    // Each request only earns a fifth of a retry
+    fetchMock.mockClear();
+    await settle(fetchJson(url, { retry: policy }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('coalescing', () => {
+  it('shares one request between callers asking for the same thing', async () => {
+    fetchMock.mockImplementation(async () => reply(200));
+    const url = nextUrl();
+
+    const results = await settle(Promise.all([fetchJson(url), fetchJson(url)]));
+    expect(results).toEqual([{ ok: true }, { ok: true }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['provider', { provider: 'mangadex' }],
+    ['retry policy', { retry: false as const }],
+    ['timeout', { timeoutMs: 1000 }]
+  ])('does not share a request with a different %s', async (_, options) => {
+    fetchMock.mockImplementation(async () => reply(200));
+    const url = nextUrl();
+
+    await settle(Promise.all([fetchJson(url), fetchJson(url, options)]));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves a shared request running when a caller joins with an aborted signal', async () => {
+    fetchMock.mockImplementation(async () => reply(200));
+    const url = nextUrl();
+
+    const first = fetchJson(url);
+    const error = await fetchJson(url, { signal: AbortSignal.abort() }).catch((error: MangaApiError) => error);
+    expect((error as MangaApiError).code).toBe('ABORTED');
+
+    await expect(settle(first)).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('cancellation', () => {
+  it('fails straight away with an already aborted signal', async () => {
+    fetchMock.mockImplementation(async () => reply(200));
+
+    const error = await settle(fetchJson(nextUrl(), { signal: AbortSignal.abort() }));
+    expect(error).toBeInstanceOf(MangaApiError);
+    expect((error as MangaApiError).code).toBe('ABORTED');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    fetchMock.mockImplementation(async () => reply(503));
+    const controller = new AbortController();
+    const policy = { baseDelayMs: 4000, maxDelayMs: 10000 }; // waits 2000ms with the mocked jitter
+
+    const result = fetchJson(nextUrl(), { retry: policy, signal: controller.signal })
+      .catch((error: MangaApiError) => error);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    const error = (await result) as MangaApiError;
+    expect(error).toBeInstanceOf(MangaApiError);
+    expect(error.code).toBe('ABORTED');
+
+    await vi.runAllTimersAsync();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,8 +1,24 @@
 import { MangaApiError } from './schema';
+import { healthMonitor } from './health';
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first request
+  baseDelayMs: number;
+  maxDelayMs: number; // a longer Retry-After is not waited out, the error is thrown instead
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
 
 interface FetchOptions {
   timeoutMs?: number;
   headers?: Record<string, string>;
+  provider?: string; // key for health metrics and the circuit breaker, defaults to the hostname
+  retry?: Partial<RetryPolicy> | false;
+  signal?: AbortSignal; // cancels the request and any pending retry
 }
 
 // Per-host rate limiter using token bucket algorithm
@@ -37,23 +53,283 @@ class RateLimiter {
   }
 }
 
+// Retries per host are capped at a fraction of recent traffic, so an outage
+// does not multiply the load on a host that is already struggling
+class RetryBudget {
+  private balances = new Map<string, number>();
+  private maxBalance = 10;
+  private depositPerRequest = 0.2; // one retry for every five requests
+
+  deposit(hostname: string) {
+    const balance = this.balances.get(hostname) ?? this.maxBalance;
+    this.balances.set(hostname, Math.min(this.maxBalance, balance + this.depositPerRequest));
+  }
+
+  withdraw(hostname: string): boolean {
+    const balance = this.balances.get(hostname) ?? this.maxBalance;
+    if (balance < 1) return false;
+    this.balances.set(hostname, balance - 1);
+    return true;
+  }
+}
+
 const rateLimiter = new RateLimiter();
+const retryBudget = new RetryBudget();
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\s*\d+\s*$/.test(value)) return parseInt(value) * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff with full jitter, attempt counting from 1
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function isRetryable(error: MangaApiError): boolean {
+  if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') return true;
+  return [408, 429, 502, 503, 504].includes(error.status ?? 0);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof MangaApiError && error.code === 'ABORTED';
+}
+
+// Providers turn most failures into empty results; callers use this so a
+// cancelled request is not mistaken for (and cached as) an empty one
+export function throwIfAborted(signal: AbortSignal | undefined, provider: string = 'unknown') {
+  if (signal?.aborted) {
+    throw new MangaApiError('ABORTED', provider, undefined, undefined, 'Request cancelled');
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined, hostname: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new MangaApiError('ABORTED', hostname, undefined, undefined, 'Request cancelled'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 export async function fetchJson<T>(
   url: string, 
   options: FetchOptions = {}
 ): Promise<T> {
-  const { timeoutMs = 10000, headers = {} } = options;
-  
-  // Extract hostname for rate limiting
+  return coalesce('json', url, options, response => response.json());
+}
+
+// Same policy as fetchJson, for sources that serve HTML
+export async function fetchText(
+  url: string,
+  options: FetchOptions = {}
+): Promise<string> {
+  return coalesce(
+    'text',
+    url,
+    { ...options, headers: { 'Accept': 'text/html,application/xhtml+xml,*/*', ...options.headers } },
+    response => response.text()
+  );
+}
+
+
+// One in-flight request per URL and set of options, shared by every caller that
+// asks for it meanwhile. Callers get the same parsed body and must not mutate it.
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+function coalesce<T>(
+  kind: 'json' | 'text',
+  url: string,
+  options: FetchOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  // An already cancelled caller neither starts a request nor keeps one alive
   const hostname = new URL(url).hostname;
+  throwIfAborted(options.signal, hostname);
+
+  // Callers asking for a different timeout, retry policy or circuit breaker get their own request
+  const { headers = {}, provider, retry, timeoutMs } = options;
+  const key = `${kind} ${url} ${JSON.stringify({ headers, provider, retry, timeoutMs })}`;
+  let shared = inFlight.get(key);
+
+  if (!shared) {
+    // The shared request is cancelled only once every caller has given up on it
+    const controller = new AbortController();
+    const entry: SharedRequest = {
+      controller,
+      waiters: 0,
+      promise: request(url, { ...options, signal: controller.signal }, read).finally(() => {
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      })
+    };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  return join(key, shared, options.signal, hostname) as Promise<T>;
+}
+
+function join(key: string, shared: SharedRequest, signal: AbortSignal | undefined, hostname: string): Promise<unknown> {
+  throwIfAborted(signal, hostname);
+  shared.waiters++;
+
+  return new Promise((resolve, reject) => {
+    let done = false;
+    const leave = () => {
+      done = true;
+      signal?.removeEventListener('abort', onAbort);
+      shared.waiters--;
+    };
+    const onAbort = () => {
+      if (done) return;
+      leave();
+      if (shared.waiters === 0) {
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+        shared.controller.abort();
+      }
+      reject(new MangaApiError('ABORTED', hostname, undefined, undefined, 'Request cancelled'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      value => {
+        if (done) return;
+        leave();
+        resolve(value);
+      },
+      error => {
+        if (done) return;
+        leave();
+        reject(error);
+      }
+    );
+  });
+}
+
+async function request<T>(
+  url: string,
+  options: FetchOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const hostname = new URL(url).hostname;
+  const policy: RetryPolicy = options.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+    : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+  retryBudget.deposit(hostname);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestOnce(url, options, read, hostname);
+    } catch (error) {
+      if (!(error instanceof MangaApiError) || !isRetryable(error)) throw error;
+      if (attempt >= policy.maxAttempts) throw error;
+
+      // Servers that ask us to come back much later are not waited for
+      const delay = error.retryAfterMs ?? getBackoffDelay(attempt, policy);
+      if (delay > policy.maxDelayMs || !retryBudget.withdraw(hostname)) throw error;
+
+      await sleep(delay, options.signal, hostname);
+    }
+  }
+}
+
+// A single attempt, reported to the health monitor
+async function requestOnce<T>(
+  url: string,
+  options: FetchOptions,
+  read: (response: Response) => Promise<T>,
+  hostname: string
+): Promise<T> {
+  // Metrics are kept per provider when known
+  const key = options.provider || hostname;
+  throwIfAborted(options.signal, hostname);
+
+  if (!healthMonitor.canRequest(key)) {
+    throw new MangaApiError(
+      'CIRCUIT_OPEN',
+      key,
+      undefined,
+      url,
+      `${key} is paused after repeated failures`
+    );
+  }
+
   await rateLimiter.throttle(hostname);
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+
+  const fail = (error: MangaApiError) => {
+    if (isAbortError(error)) healthMonitor.recordCancelled(key);
+    else healthMonitor.recordFailure(key, error, elapsed());
+    return error;
+  };
+
+  let response: Response;
+  try {
+    throwIfAborted(options.signal, hostname);
+    response = await send(url, options, hostname);
+  } catch (error) {
+    throw fail(error as MangaApiError);
+  }
+
+  if (!response.ok) {
+    const error = new MangaApiError(
+      'HTTP_ERROR',
+      hostname,
+      response.status,
+      url,
+      `HTTP ${response.status}: ${response.statusText}`
+    );
+    error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    throw fail(error);
+  }
 
+  try {
+    const data = await read(response);
+    healthMonitor.recordSuccess(key, elapsed());
+    return data;
+  } catch (error) {
+    throw fail(new MangaApiError(
+      options.signal?.aborted ? 'ABORTED' : 'NETWORK_ERROR',
+      hostname,
+      undefined,
+      url,
+      error instanceof Error ? error.message : 'Network error'
+    ));
+  }
+}
+
+// One network round trip; failures come back as MangaApiError
+async function send(url: string, options: FetchOptions, hostname: string): Promise<Response> {
+  const { timeoutMs = 10000, headers = {}, signal } = options;
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
+  // The caller's signal aborts the same fetch as the timeout
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
   try {
-    const response = await fetch(url, {
+    return await fetch(url, {
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'SoloToon/1.0',
@@ -61,38 +337,17 @@ export async function fetchJson<T>(
       },
       signal: controller.signal
     });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      // Handle rate limiting with exponential backoff
-      if (response.status === 429 || response.status === 503) {
-        const retryAfter = response.headers.get('Retry-After');
-        const delay = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, 1) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay));
-        
-        // Retry once
-        return fetchJson<T>(url, options);
-      }
-
+  } catch (error) {
+    if (signal?.aborted) {
       throw new MangaApiError(
-        'HTTP_ERROR',
+        'ABORTED',
         hostname,
-        response.status,
+        undefined,
         url,
-        `HTTP ${response.status}: ${response.statusText}`
+        'Request cancelled'
       );
     }
 
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    
-    if (error instanceof MangaApiError) {
-      throw error;
-    }
-
     if (error instanceof DOMException && error.name === 'AbortError') {
       throw new MangaApiError(
         'TIMEOUT',
@@ -110,5 +365,8 @@ export async function fetchJson<T>(
       url,
       error instanceof Error ? error.message : 'Network error'
     );
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
   }
-}
\ No newline at end of file
+}
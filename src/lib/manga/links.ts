@@ -0,0 +1,168 @@
+import { getLibrary, saveLibrary, moveSeriesProgress, getSeriesLinks, saveSeriesLinks, libraryGlobalId } from '../storage';
+import { Manga } from './schema';
+
+export interface SeriesLink {
+  primary: string; // the source the library entry and reading progress follow
+  members: string[]; // provider:id of every linked source, primary included
+}
+
+export interface SeriesLinkTable {
+  links: SeriesLink[];
+  splits: Array<[string, string]>; // sources that must not be merged automatically
+  updatedAt?: string; // last link or split, the newer table wins when syncing
+}
+
+type LinkListener = () => void;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Corrections to search deduplication: sources the user linked as one work and
+// sources they split apart. Search, the library and progress tracking follow them.
+export class SeriesLinkStore {
+  private links: SeriesLink[] = [];
+  private splits = new Map<string, [string, string]>();
+  private updatedAt?: string;
+  private listeners = new Set<LinkListener>();
+
+  subscribe(listener: LinkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  load(table: SeriesLinkTable) {
+    this.links = table.links
+      .filter(link => link.members.length > 1 && link.members.includes(link.primary))
+      .map(link => ({ primary: link.primary, members: [...link.members] }));
+    this.splits = new Map(table.splits.map(([a, b]) => [pairKey(a, b), [a, b]]));
+    this.updatedAt = table.updatedAt;
+    this.emit();
+  }
+
+  toTable(): SeriesLinkTable {
+    return {
+      links: this.links.map(link => ({ primary: link.primary, members: [...link.members] })),
+      splits: Array.from(this.splits.values()),
+      updatedAt: this.updatedAt
+    };
+  }
+
+  getLink(globalId: string): SeriesLink | undefined {
+    return this.links.find(link => link.members.includes(globalId));
+  }
+
+  // The linked sources of a series, itself included
+  getLinked(globalId: string): string[] {
+    return this.getLink(globalId)?.members.slice() || [globalId];
+  }
+
+  getPrimary(globalId: string): string {
+    return this.getLink(globalId)?.primary || globalId;
+  }
+
+  areLinked(a: string, b: string): boolean {
+    return a === b || this.getLinked(a).includes(b);
+  }
+
+  areSplit(a: string, b: string): boolean {
+    return this.splits.has(pairKey(a, b));
+  }
+
+  // Joins the sources, and any links they are already part of, into one work
+  link(globalIds: string[], primary?: string): SeriesLink {
+    const existing = this.links.filter(link => link.members.some(id => globalIds.includes(id)));
+    const members = Array.from(new Set([...existing.flatMap(link => link.members), ...globalIds]));
+    const link: SeriesLink = {
+      primary: primary && members.includes(primary) ? primary : existing[0]?.primary || members[0],
+      members
+    };
+
+    this.links = [...this.links.filter(other => !existing.includes(other)), link];
+    members.forEach(a => members.forEach(b => this.splits.delete(pairKey(a, b))));
+    this.updatedAt = new Date().toISOString();
+    this.emit();
+    return link;
+  }
+
+  // Takes a source out of its work; `from` are the sources search grouped it with
+  split(globalId: string, from: string[] = []) {
+    const link = this.getLink(globalId);
+    const others = new Set([...from, ...(link?.members || [])]);
+    others.delete(globalId);
+    others.forEach(id => this.splits.set(pairKey(globalId, id), [globalId, id]));
+
+    if (link) {
+      const members = link.members.filter(id => id !== globalId);
+      this.links = this.links.filter(other => other !== link);
+      if (members.length > 1) {
+        this.links.push({ primary: link.primary === globalId ? members[0] : link.primary, members });
+      }
+    }
+    this.updatedAt = new Date().toISOString();
+    this.emit();
+  }
+}
+
+export const seriesLinks = new SeriesLinkStore();
+
+// The same series as seen from the primary source of its link, for library entries
+export function withPrimarySource(manga: Manga): Manga {
+  const primary = seriesLinks.getPrimary(manga.id);
+  if (primary === manga.id) return manga;
+
+  const [provider, providerId] = primary.split(':');
+  return { ...manga, id: primary, provider, providerId };
+}
+
+export async function loadSeriesLinks(): Promise<void> {
+  const table = await getSeriesLinks();
+  if (table) seriesLinks.load(table);
+}
+
+// Library entries and progress of any linked source move to the primary one,
+// so switching sources keeps the reading position. Entries are matched by
+// global id: series ids of different providers can collide, and every remote
+// provider shares the 'consumet' library source.
+async function followPrimary(link: SeriesLink) {
+  const [provider, providerId] = link.primary.split(':');
+  const library = await getLibrary();
+  const entries = library.filter(series => link.members.includes(libraryGlobalId(series)));
+
+  if (entries.length > 0) {
+    const kept = entries.find(series => libraryGlobalId(series) === link.primary) || entries[0];
+    Object.assign(kept, {
+      source: provider === 'local' ? 'custom' : 'consumet',
+      seriesId: providerId,
+      provider,
+      providerId,
+      updatedAt: new Date().toISOString()
+    });
+    await saveLibrary(library.filter(series => series === kept || !entries.includes(series)));
+  }
+
+  await moveSeriesProgress(link.members, link.primary);
+}
+
+export async function linkSeries(globalIds: string[], primary?: string): Promise<void> {
+  const link = seriesLinks.link(globalIds, primary);
+  await saveSeriesLinks(seriesLinks.toTable());
+  await followPrimary(link);
+}
+
+// Unlinked sources that search grouped together are linked first
+export async function setPrimarySource(globalId: string, sources: string[] = []): Promise<void> {
+  await linkSeries([globalId, ...sources], globalId);
+}
+
+// The library entry and progress stay where they are: with the primary source
+export async function splitSeries(globalId: string, from: string[] = []): Promise<void> {
+  seriesLinks.split(globalId, from);
+  await saveSeriesLinks(seriesLinks.toTable());
+}
@@ -1,16 +1,62 @@
 import { ProviderSearchResult, ProviderChapter, ProviderPage } from '../schema';
 
+// Any string without ':' - global ids are built as `${providerId}:${rawId}`
+export type ProviderId = string;
+
+// Lets the caller cancel a provider's requests, e.g. when the user navigates away
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
 export interface MangaProvider {
-  id: 'mangadex' | 'comick' | 'mangasee123' | 'mangakakalot' | 'mangapark';
+  id: ProviderId;
   displayName: string;
   supportsPages: boolean;
+  supportsDataSaver?: boolean; // pages() can return smaller images on request
   languages: string[];
   priority: number; // Higher = preferred for deduplication
+  baseUrl?: string;
   
-  search(query: string, page: number, lang?: string): Promise<ProviderSearchResult[]>;
-  details(seriesId: string): Promise<ProviderSearchResult>;
-  chapters(seriesId: string, opts?: { lang?: string; order?: 'asc' | 'desc' }): Promise<ProviderChapter[]>;
-  pages(chapterId: string, opts?: { dataSaver?: boolean }): Promise<ProviderPage[]>;
+  search(query: string, page: number, lang?: string, opts?: RequestOptions): Promise<ProviderSearchResult[]>;
+  details(seriesId: string, opts?: RequestOptions): Promise<ProviderSearchResult>;
+  chapters(seriesId: string, opts?: { lang?: string; order?: 'asc' | 'desc' } & RequestOptions): Promise<ProviderChapter[]>;
+  pages(chapterId: string, opts?: { dataSaver?: boolean } & RequestOptions): Promise<ProviderPage[]>;
+
+  // Search that reports whether the source has more pages and throws on failure.
+  // Without it, search() is used and an empty page ends the results.
+  searchPage?(query: string, page: number, lang?: string, opts?: RequestOptions): Promise<ProviderSearchPage>;
+
+  // For sources whose details response already lists the chapters
+  detailsWithChapters?(
+    seriesId: string,
+    opts?: { order?: 'asc' | 'desc' } & RequestOptions
+  ): Promise<SeriesBundle>;
+}
+
+export interface ProviderSearchPage {
+  results: ProviderSearchResult[];
+  hasNextPage: boolean;
+}
+
+export interface SeriesBundle {
+  details: ProviderSearchResult;
+  chapters: ProviderChapter[];
+}
+
+export interface ProviderCapabilities {
+  pages: boolean;
+  dataSaver: boolean;
+}
+
+// What the UI needs to know about a registered provider
+export interface ProviderDescriptor {
+  id: ProviderId;
+  name: string;
+  languages: string[];
+  capabilities: ProviderCapabilities;
+  baseUrl?: string;
+  priority: number; // effective priority, after the user's ordering
+  enabled: boolean;
 }
 
 export interface SearchResponse {
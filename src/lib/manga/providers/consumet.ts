@@ -1,98 +1,163 @@
-import { MangaProvider, SearchResponse, DetailsResponse } from './base';
-import { ProviderSearchResult, ProviderChapter, ProviderPage, ProviderSearchResultSchema, ProviderChapterSchema, ProviderPageSchema } from '../schema';
+import { MangaProvider, RequestOptions, SearchResponse, DetailsResponse, SeriesBundle, ProviderSearchPage } from './base';
+import { ProviderSearchResult, ProviderChapter, ProviderPage, ProviderSearchResultSchema, ProviderChapterSchema, ProviderPageSchema, MangaApiError } from '../schema';
 import { fetchJson } from '../http';
+import { consumetMirrors } from './mirrors';
 
-const CONSUMET_BASE_URL = 'https://apiconsumetorg-kappa.vercel.app';
+// Timeouts, network errors, rate limiting and 5xx responses mean the mirror itself is in trouble
+function isMirrorFailure(error: unknown): boolean {
+  if (!(error instanceof MangaApiError)) return false;
+  return error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR' || error.status === 429 || (error.status ?? 0) >= 500;
+}
 
 abstract class ConsumetProvider implements MangaProvider {
-  abstract id: 'mangadex' | 'comick' | 'mangasee123' | 'mangakakalot' | 'mangapark';
+  abstract id: string;
   abstract displayName: string;
   abstract supportsPages: boolean;
   abstract languages: string[];
   abstract priority: number;
 
   protected getBaseUrl(): string {
-    return `${CONSUMET_BASE_URL}/manga/${this.id}`;
+    return `${consumetMirrors.getActiveUrl()}/manga/${this.id}`;
+  }
+
+  // Tries each mirror at most once, moving on when one times out or fails with 5xx.
+  // Only the last mirror gets fetchJson's retries; before that, failing over is the retry
+  protected async request<T>(path: string, signal?: AbortSignal): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < consumetMirrors.size; attempt++) {
+      const mirror = consumetMirrors.getActiveUrl();
+      const started = performance.now();
+      const isLast = attempt === consumetMirrors.size - 1;
+
+      try {
+        const response = await fetchJson<T>(`${mirror}/manga/${this.id}${path}`, {
+          provider: this.id,
+          retry: isLast ? undefined : false,
+          signal
+        });
+        consumetMirrors.reportSuccess(mirror, Math.round(performance.now() - started));
+        return response;
+      } catch (error) {
+        if (!isMirrorFailure(error)) throw error;
+        consumetMirrors.reportFailure(mirror, error instanceof Error ? error.message : 'Request failed');
+        lastError = error;
+      }
+    }
+
+    throw lastError;
   }
 
-  async search(query: string, page: number = 1, lang?: string): Promise<ProviderSearchResult[]> {
+  get baseUrl(): string {
+    return this.getBaseUrl();
+  }
+
+  async searchPage(query: string, page: number = 1, lang?: string, opts?: RequestOptions): Promise<ProviderSearchPage> {
     const encodedQuery = encodeURIComponent(query.trim());
-    let url = `${this.getBaseUrl()}/${encodedQuery}?page=${page}`;
+    let path = `/${encodedQuery}?page=${page}`;
     
     if (lang && this.languages.includes(lang)) {
-      url += `&lang=${lang}`;
+      path += `&lang=${lang}`;
     }
 
-    try {
-      const response = await fetchJson<SearchResponse>(url);
-      const results = response.results || [];
-      
-      // Validate and normalize results
-      return results.map(result => {
+    const response = await this.request<SearchResponse>(path, opts?.signal);
+    const results = response.results || [];
+    
+    // Validate and normalize results
+    return {
+      results: results.map(result => {
         try {
           return ProviderSearchResultSchema.parse(result);
         } catch (error) {
           console.warn(`Invalid result from ${this.id}:`, error);
           return null;
         }
-      }).filter(Boolean) as ProviderSearchResult[];
+      }).filter(Boolean) as ProviderSearchResult[],
+      hasNextPage: !!response.hasNextPage && results.length > 0
+    };
+  }
+
+  async search(query: string, page: number = 1, lang?: string, opts?: RequestOptions): Promise<ProviderSearchResult[]> {
+    try {
+      return (await this.searchPage(query, page, lang, opts)).results;
     } catch (error) {
       console.error(`Search failed for ${this.id}:`, error);
       return [];
     }
   }
 
-  async details(seriesId: string): Promise<ProviderSearchResult> {
-    const url = `${this.getBaseUrl()}/info/${seriesId}`;
-    
+  async details(seriesId: string, opts?: RequestOptions): Promise<ProviderSearchResult> {
     try {
-      const response = await fetchJson<DetailsResponse>(url);
-      return ProviderSearchResultSchema.parse(response);
+      const response = await this.request<DetailsResponse>(`/info/${seriesId}`, opts?.signal);
+      return this.toDetails(response);
     } catch (error) {
       console.error(`Details failed for ${this.id}:`, error);
       throw error;
     }
   }
 
-  async chapters(seriesId: string, opts?: { lang?: string; order?: 'asc' | 'desc' }): Promise<ProviderChapter[]> {
-    const url = `${this.getBaseUrl()}/info/${seriesId}`;
-    
+  // /info lists the chapters themselves where search results carry a count
+  private toDetails(response: DetailsResponse): ProviderSearchResult {
+    const { chapters, ...rest } = response;
+    return ProviderSearchResultSchema.parse({ ...rest, chapters: chapters?.length || undefined });
+  }
+
+  private toChapters(chapters: ProviderChapter[], order: 'asc' | 'desc' = 'asc'): ProviderChapter[] {
+    // Validate and normalize chapters
+    const validatedChapters = chapters.map(chapter => {
+      try {
+        return ProviderChapterSchema.parse(chapter);
+      } catch (error) {
+        console.warn(`Invalid chapter from ${this.id}:`, error);
+        return null;
+      }
+    }).filter(Boolean) as ProviderChapter[];
+
+    // Sort chapters by number
+    return validatedChapters.sort((a, b) => {
+      const aNum = parseFloat(a.chapterNumber?.toString() || '0');
+      const bNum = parseFloat(b.chapterNumber?.toString() || '0');
+      return order === 'asc' ? aNum - bNum : bNum - aNum;
+    });
+  }
+
+  async chapters(
+    seriesId: string,
+    opts?: { lang?: string; order?: 'asc' | 'desc' } & RequestOptions
+  ): Promise<ProviderChapter[]> {
     try {
-      const response = await fetchJson<DetailsResponse>(url);
-      const chapters = response.chapters || [];
-      
-      // Validate and normalize chapters
-      const validatedChapters = chapters.map(chapter => {
-        try {
-          return ProviderChapterSchema.parse(chapter);
-        } catch (error) {
-          console.warn(`Invalid chapter from ${this.id}:`, error);
-          return null;
-        }
-      }).filter(Boolean) as ProviderChapter[];
-
-      // Sort chapters by number
-      const order = opts?.order || 'asc';
-      return validatedChapters.sort((a, b) => {
-        const aNum = parseFloat(a.chapterNumber?.toString() || '0');
-        const bNum = parseFloat(b.chapterNumber?.toString() || '0');
-        return order === 'asc' ? aNum - bNum : bNum - aNum;
-      });
+      const response = await this.request<DetailsResponse>(`/info/${seriesId}`, opts?.signal);
+      return this.toChapters(response.chapters || [], opts?.order);
     } catch (error) {
       console.error(`Chapters failed for ${this.id}:`, error);
       return [];
     }
   }
 
-  async pages(chapterId: string, opts?: { dataSaver?: boolean }): Promise<ProviderPage[]> {
+  // /info carries both the series and its chapter list
+  async detailsWithChapters(
+    seriesId: string,
+    opts?: { order?: 'asc' | 'desc' } & RequestOptions
+  ): Promise<SeriesBundle> {
+    try {
+      const response = await this.request<DetailsResponse>(`/info/${seriesId}`, opts?.signal);
+      return {
+        details: this.toDetails(response),
+        chapters: this.toChapters(response.chapters || [], opts?.order)
+      };
+    } catch (error) {
+      console.error(`Details failed for ${this.id}:`, error);
+      throw error;
+    }
+  }
+
+  async pages(chapterId: string, opts?: { dataSaver?: boolean } & RequestOptions): Promise<ProviderPage[]> {
     if (!this.supportsPages) {
       throw new Error(`Provider ${this.id} does not support page reading`);
     }
 
-    const url = `${this.getBaseUrl()}/read/${chapterId}`;
-    
     try {
-      const response = await fetchJson<ProviderPage[]>(url);
+      const response = await this.request<ProviderPage[]>(`/read/${chapterId}`, opts?.signal);
       
       // Validate and normalize pages
       return response.map((page, index) => {
@@ -115,16 +180,8 @@ abstract class ConsumetProvider implements MangaProvider {
 }
 
 // Specific provider implementations
-export class MangaDexProvider extends ConsumetProvider {
-  id = 'mangadex' as const;
-  displayName = 'MangaDex';
-  supportsPages = true;
-  languages = ['en', 'ja', 'ko', 'zh', 'es', 'fr', 'de', 'pt-br', 'ru'];
-  priority = 100;
-}
-
 export class ComickProvider extends ConsumetProvider {
-  id = 'comick' as const;
+  id = 'comick';
   displayName = 'ComicK';
   supportsPages = true;
   languages = ['en', 'ja', 'ko', 'zh'];
@@ -132,7 +189,7 @@ export class ComickProvider extends ConsumetProvider {
 }
 
 export class MangaSee123Provider extends ConsumetProvider {
-  id = 'mangasee123' as const;
+  id = 'mangasee123';
   displayName = 'MangaSee123';
   supportsPages = true;
   languages = ['en'];
@@ -140,7 +197,7 @@ export class MangaSee123Provider extends ConsumetProvider {
 }
 
 export class MangakakalotProvider extends ConsumetProvider {
-  id = 'mangakakalot' as const;
+  id = 'mangakakalot';
   displayName = 'Mangakakalot';
   supportsPages = true;
   languages = ['en'];
@@ -148,7 +205,7 @@ export class MangakakalotProvider extends ConsumetProvider {
 }
 
 export class MangaParkProvider extends ConsumetProvider {
-  id = 'mangapark' as const;
+  id = 'mangapark';
   displayName = 'MangaPark';
   supportsPages = true;
   languages = ['en', 'ja', 'ko', 'zh'];
@@ -0,0 +1,168 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import jsonSource from '../__fixtures__/sources/json-source.json';
+import htmlSource from '../__fixtures__/sources/html-source.json';
+import { DeclarativeProvider } from './declarative';
+import { SourceDefinition, SourceDefinitionSchema, SourceOperation } from '../sources/definition';
+import { testSourceDefinition } from '../sources/installed';
+
+// Definitions with recorded responses, as they are shared and installed
+const jsonDefinition = SourceDefinitionSchema.parse(jsonSource);
+const htmlDefinition = SourceDefinitionSchema.parse(htmlSource);
+
+// Serves the definition's recorded response for the operation
+function fixtureFetcher(definition: SourceDefinition, operation: SourceOperation) {
+  const fixture = definition.fixtures!.find(fixture => fixture.operation === operation)!;
+  return vi.fn(async (_url: string) => fixture.response);
+}
+
+describe('testSourceDefinition', () => {
+  it.each([jsonDefinition, htmlDefinition])('passes every recorded response of $name', async definition => {
+    const results = await testSourceDefinition(definition);
+
+    expect(results.map(result => result.operation)).toEqual(['search', 'details', 'chapters', 'pages']);
+    expect(results.filter(result => !result.passed)).toEqual([]);
+  });
+
+  it('reports items that fail validation', async () => {
+    const [result] = await testSourceDefinition(jsonDefinition, [
+      { operation: 'search', input: 'one piece', response: { results: [{ slug: 'one-piece' }] } }
+    ]);
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual([expect.stringMatching(/^search\[0\] title:/)]);
+  });
+
+  it('rejects ids that would break global ids and routes', async () => {
+    const [result] = await testSourceDefinition(jsonDefinition, [
+      { operation: 'search', input: 'one piece', response: { results: [{ slug: 'manga/one-piece', title: 'One Piece' }] } }
+    ]);
+
+    expect(result.errors).toEqual([expect.stringContaining('contains ":" or "/"')]);
+  });
+});
+
+describe('DeclarativeProvider with a JSON source', () => {
+  it('maps search results, resolving URLs against the request', async () => {
+    const results = await new DeclarativeProvider(jsonDefinition, fixtureFetcher(jsonDefinition, 'search')).search('one piece');
+
+    expect(results[0]).toEqual({
+      id: 'one-piece',
+      title: 'One Piece',
+      altTitles: ['ワンピース', 'Wan Pīsu'],
+      image: 'https://api.comic.example/covers/one-piece.jpg',
+      rating: 9.1,
+      genres: ['Action', 'Adventure']
+    });
+    expect(results[1].image).toBe('https://cdn.comic.example/covers/party.jpg');
+    expect(results[1].rating).toBeUndefined();
+  });
+
+  it('fills in the request templates', async () => {
+    const fetcher = fixtureFetcher(jsonDefinition, 'search');
+    await new DeclarativeProvider(jsonDefinition, fetcher).search('one piece & more', 2, 'es');
+
+    expect(fetcher).toHaveBeenCalledWith(
+      'https://api.comic.example/search?q=one%20piece%20%26%20more&page=2&lang=es',
+      'json',
+      { 'X-Client': 'solo-toon' },
+      undefined
+    );
+  });
+
+  it('encodes series and chapter ids in URLs', async () => {
+    const fetcher = fixtureFetcher(jsonDefinition, 'chapters');
+    await new DeclarativeProvider(jsonDefinition, fetcher).chapters('one piece?', { lang: 'en' });
+
+    expect(fetcher.mock.calls[0][0]).toBe('https://api.comic.example/series/one%20piece%3F/chapters?lang=en');
+  });
+
+  it('keeps the requested id on details that do not repeat it', async () => {
+    const details = await new DeclarativeProvider(jsonDefinition, fixtureFetcher(jsonDefinition, 'details')).details('one-piece');
+
+    expect(details).toEqual({
+      id: 'one-piece',
+      title: 'One Piece',
+      description: 'Gol D. Roger was known as the Pirate King.',
+      status: 'Ongoing',
+      authors: ['Eiichiro Oda'],
+      chapters: 1090
+    });
+  });
+
+  it('sorts chapters by number in the requested order', async () => {
+    const provider = new DeclarativeProvider(jsonDefinition, fixtureFetcher(jsonDefinition, 'chapters'));
+
+    const ascending = await provider.chapters('one-piece');
+    expect(ascending.map(chapter => chapter.chapterNumber)).toEqual(['1', '1089.5', '1090']);
+    expect(ascending[0]).toMatchObject({ id: 'c1', title: 'Romance Dawn', pages: 53 });
+
+    const descending = await provider.chapters('one-piece', { order: 'desc' });
+    expect(descending.map(chapter => chapter.id)).toEqual(['c1090', 'c1089.5', 'c1']);
+  });
+
+  it('numbers pages in order and sends the image headers with them', async () => {
+    const pages = await new DeclarativeProvider(jsonDefinition, fixtureFetcher(jsonDefinition, 'pages')).pages('c1');
+
+    expect(pages).toEqual([
+      {
+        img: 'https://api.comic.example/images/c1/001.jpg',
+        dataSaverImg: 'https://api.comic.example/images/small/c1/001.jpg',
+        page: 0,
+        headerForImage: { Referer: 'https://api.comic.example/' }
+      },
+      {
+        img: 'https://api.comic.example/images/c1/002.jpg',
+        dataSaverImg: 'https://api.comic.example/images/small/c1/002.jpg',
+        page: 1,
+        headerForImage: { Referer: 'https://api.comic.example/' }
+      }
+    ]);
+  });
+
+  it('gives no results when the request fails', async () => {
+    const provider = new DeclarativeProvider(jsonDefinition, async () => {
+      throw new Error('HTTP 503');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await provider.search('one piece')).toEqual([]);
+    expect(await provider.chapters('one-piece')).toEqual([]);
+    await expect(provider.details('one-piece')).rejects.toThrow('HTTP 503');
+    vi.restoreAllMocks();
+  });
+});
+
+describe('DeclarativeProvider with an HTML source', () => {
+  it('maps search results from the page', async () => {
+    const results = await new DeclarativeProvider(htmlDefinition, fixtureFetcher(htmlDefinition, 'search')).search('berserk');
+
+    expect(results).toEqual([
+      {
+        id: 'berserk',
+        title: 'Berserk',
+        image: 'https://mangareader.example/covers/berserk.jpg',
+        genres: ['Dark Fantasy', 'Action']
+      },
+      { id: 'berserk-prototype', title: 'Berserk: The Prototype' }
+    ]);
+  });
+
+  it('reads chapters from the links themselves', async () => {
+    const chapters = await new DeclarativeProvider(htmlDefinition, fixtureFetcher(htmlDefinition, 'chapters')).chapters('berserk');
+
+    expect(chapters).toEqual([
+      { id: 'berserk-1', title: 'Chapter 1', chapterNumber: '1' },
+      { id: 'berserk-2', title: 'Chapter 2', chapterNumber: '2' }
+    ]);
+  });
+
+  it('reads page images from their attributes', async () => {
+    const pages = await new DeclarativeProvider(htmlDefinition, fixtureFetcher(htmlDefinition, 'pages')).pages('berserk-1');
+
+    expect(pages.map(page => page.img)).toEqual([
+      'https://img.mangareader.example/berserk-1/1.jpg',
+      'https://mangareader.example/berserk-1/2.jpg'
+    ]);
+  });
+});
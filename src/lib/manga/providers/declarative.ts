@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { MangaProvider, RequestOptions } from './base';
+import {
+  ProviderSearchResult,
+  ProviderChapter,
+  ProviderPage,
+  ProviderSearchResultSchema,
+  ProviderChapterSchema,
+  ProviderPageSchema
+} from '../schema';
+import { fetchJson, fetchText } from '../http';
+import { SourceDefinition, SourceOperation, FieldMapping, expandTemplate } from '../sources/definition';
+import { SourceNode, extractField, parseHtml, selectList } from '../sources/extract';
+
+// Returns parsed JSON for 'json' and the raw body for 'html'
+export type SourceFetcher = (
+  url: string,
+  type: 'json' | 'html',
+  headers: Record<string, string>,
+  signal?: AbortSignal
+) => Promise<unknown>;
+
+export interface OperationResult<T> {
+  url: string;
+  items: T[];
+  errors: string[]; // one per item that failed validation
+}
+
+interface OperationItems {
+  search: ProviderSearchResult;
+  details: ProviderSearchResult;
+  chapters: ProviderChapter;
+  pages: ProviderPage;
+}
+
+const OPERATION_SCHEMAS: Record<SourceOperation, z.ZodType> = {
+  search: ProviderSearchResultSchema,
+  details: ProviderSearchResultSchema,
+  chapters: ProviderChapterSchema,
+  pages: ProviderPageSchema
+};
+
+const NUMBER_FIELDS = new Set(['chapters', 'volumes', 'rating', 'pages']);
+const LIST_FIELDS = new Set(['altTitles', 'genres', 'authors']);
+const URL_FIELDS = new Set(['image', 'url', 'img', 'dataSaverImg']);
+
+function resolveUrl(value: string, base: string): string {
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return value;
+  }
+}
+
+// A provider for sites described by a JSON source definition, see sources/definition.ts
+export class DeclarativeProvider implements MangaProvider {
+  id: string;
+  displayName: string;
+  supportsPages = true;
+  languages: string[];
+  priority: number;
+  baseUrl: string;
+  private fetcher: SourceFetcher;
+
+  constructor(readonly definition: SourceDefinition, fetcher?: SourceFetcher) {
+    this.fetcher = fetcher || ((url, type, headers, signal) => type === 'json'
+      ? fetchJson(url, { headers, provider: definition.id, signal })
+      : fetchText(url, { headers, provider: definition.id, signal }));
+    this.id = definition.id;
+    this.displayName = definition.name;
+    this.languages = definition.languages;
+    this.priority = definition.priority;
+    this.baseUrl = definition.baseUrl;
+  }
+
+  private getHeaders(scope: 'requests' | 'images'): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const rule of this.definition.headers) {
+      if (rule.appliesTo === scope || rule.appliesTo === 'all') {
+        headers[rule.name] = expandTemplate(rule.value, { baseUrl: this.baseUrl });
+      }
+    }
+    return headers;
+  }
+
+  private mapFields(
+    node: SourceNode,
+    type: 'json' | 'html',
+    fields: Record<string, FieldMapping | undefined>,
+    responseUrl: string
+  ): Record<string, unknown> {
+    const item: Record<string, unknown> = {};
+
+    for (const [name, mapping] of Object.entries(fields)) {
+      if (mapping === undefined) continue; // "" is the item itself
+      const values = extractField(node, type, mapping);
+      if (values.length === 0) continue;
+
+      if (LIST_FIELDS.has(name)) {
+        item[name] = values;
+      } else if (NUMBER_FIELDS.has(name)) {
+        const number = parseFloat(values[0]);
+        if (!isNaN(number)) item[name] = number;
+      } else if (URL_FIELDS.has(name)) {
+        item[name] = resolveUrl(values[0], responseUrl);
+      } else {
+        item[name] = values[0];
+      }
+    }
+
+    return item;
+  }
+
+  // Fetches and maps one operation, keeping validation errors for the caller to report
+  async run<K extends SourceOperation>(
+    operation: K,
+    input: string,
+    vars: { page?: number; lang?: string; signal?: AbortSignal } = {}
+  ): Promise<OperationResult<OperationItems[K]>> {
+    const spec = this.definition[operation];
+    const url = expandTemplate(spec.url, {
+      baseUrl: this.baseUrl,
+      query: operation === 'search' ? encodeURIComponent(input) : undefined,
+      id: operation === 'search' ? undefined : encodeURIComponent(input),
+      page: vars.page ?? 1,
+      lang: vars.lang
+    });
+
+    const body = await this.fetcher(url, spec.type, this.getHeaders('requests'), vars.signal);
+    const root = spec.type === 'html'
+      ? parseHtml(String(body))
+      : typeof body === 'string' ? JSON.parse(body) : body;
+    const nodes = spec.list ? selectList(root, spec.type, spec.list) : [root];
+
+    const items: OperationItems[K][] = [];
+    const errors: string[] = [];
+    const imageHeaders = this.getHeaders('images');
+
+    nodes.forEach((node, index) => {
+      const raw = this.mapFields(node, spec.type, spec.fields, url);
+      if (operation === 'details' && raw.id === undefined) {
+        raw.id = input; // detail pages rarely repeat their own id
+      }
+      if (operation === 'pages') {
+        raw.page = index;
+        if (Object.keys(imageHeaders).length > 0) raw.headerForImage = imageHeaders;
+      }
+
+      const result = OPERATION_SCHEMAS[operation].safeParse(raw);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        errors.push(`${operation}[${index}] ${issue.path.join('.') || 'item'}: ${issue.message}`);
+        return;
+      }
+
+      // Ids end up in global ids and route paths
+      const id = (result.data as { id?: string }).id;
+      if (id !== undefined && /[:/]/.test(id)) {
+        errors.push(`${operation}[${index}] id: "${id}" contains ":" or "/", extract a slug with "regex"`);
+        return;
+      }
+
+      items.push(result.data as OperationItems[K]);
+    });
+
+    return { url, items, errors };
+  }
+
+  private warn(errors: string[]) {
+    errors.forEach(error => console.warn(`Invalid result from ${this.id}: ${error}`));
+  }
+
+  async search(query: string, page: number = 1, lang?: string, opts?: RequestOptions): Promise<ProviderSearchResult[]> {
+    try {
+      const { items, errors } = await this.run('search', query.trim(), { page, lang, signal: opts?.signal });
+      this.warn(errors);
+      return items;
+    } catch (error) {
+      console.error(`Search failed for ${this.id}:`, error);
+      return [];
+    }
+  }
+
+  async details(seriesId: string, opts?: RequestOptions): Promise<ProviderSearchResult> {
+    const { items, errors } = await this.run('details', seriesId, { signal: opts?.signal });
+    this.warn(errors);
+    if (items.length === 0) {
+      throw new Error(`No details found for ${this.id}:${seriesId}`);
+    }
+    return items[0];
+  }
+
+  async chapters(
+    seriesId: string,
+    opts?: { lang?: string; order?: 'asc' | 'desc' } & RequestOptions
+  ): Promise<ProviderChapter[]> {
+    try {
+      const { items, errors } = await this.run('chapters', seriesId, { lang: opts?.lang, signal: opts?.signal });
+      this.warn(errors);
+
+      const order = opts?.order || 'asc';
+      return items.sort((a, b) => {
+        const aNum = parseFloat(a.chapterNumber?.toString() || '0');
+        const bNum = parseFloat(b.chapterNumber?.toString() || '0');
+        return order === 'asc' ? aNum - bNum : bNum - aNum;
+      });
+    } catch (error) {
+      console.error(`Chapters failed for ${this.id}:`, error);
+      return [];
+    }
+  }
+
+  async pages(chapterId: string, opts?: RequestOptions): Promise<ProviderPage[]> {
+    try {
+      const { items, errors } = await this.run('pages', chapterId, { signal: opts?.signal });
+      this.warn(errors);
+      return items;
+    } catch (error) {
+      console.error(`Pages failed for ${this.id}:`, error);
+      return [];
+    }
+  }
+}
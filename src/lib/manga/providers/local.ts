@@ -0,0 +1,73 @@
+import { MangaProvider } from './base';
+import { ProviderSearchResult, ProviderChapter, ProviderPage } from '../schema';
+import { LocalSeries, findLocalChapter, getAllLocalSeries, getLocalPages, getLocalSeries } from '../../local/store';
+
+function toSearchResult(series: LocalSeries): ProviderSearchResult {
+  return {
+    id: series.id,
+    title: series.title,
+    image: series.cover,
+    description: series.synopsis,
+    status: 'Local',
+    chapters: series.chapters.length,
+    genres: series.tags,
+    authors: series.authors,
+    releaseDate: series.addedAt
+  };
+}
+
+// Series imported from CBZ/ZIP archives or image folders, see lib/local/importer.ts
+export class LocalProvider implements MangaProvider {
+  id = 'local';
+  displayName = 'Local Files';
+  supportsPages = true;
+  languages = ['en'];
+  priority = 10;
+
+  async search(query: string, page: number = 1): Promise<ProviderSearchResult[]> {
+    // Everything is returned on the first page
+    if (page > 1) return [];
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const series = await getAllLocalSeries();
+    return series
+      .filter(s => s.title.toLowerCase().includes(normalizedQuery))
+      .map(toSearchResult);
+  }
+
+  async details(seriesId: string): Promise<ProviderSearchResult> {
+    const series = await getLocalSeries(seriesId);
+    if (!series) {
+      throw new Error(`Local series not found: ${seriesId}`);
+    }
+    return toSearchResult(series);
+  }
+
+  async chapters(seriesId: string, opts: { lang?: string; order?: 'asc' | 'desc' } = {}): Promise<ProviderChapter[]> {
+    const series = await getLocalSeries(seriesId);
+    if (!series) return [];
+
+    const chapters = series.chapters.map(chapter => ({
+      id: chapter.id,
+      title: chapter.title,
+      chapterNumber: chapter.number,
+      releaseDate: chapter.addedAt,
+      pages: chapter.pageCount
+    }));
+
+    const sorted = chapters.sort((a, b) => parseFloat(a.chapterNumber) - parseFloat(b.chapterNumber));
+    return opts.order === 'desc' ? sorted.reverse() : sorted;
+  }
+
+  // Pages are object URLs; whoever displays them revokes them when done
+  async pages(chapterId: string): Promise<ProviderPage[]> {
+    const found = await findLocalChapter(chapterId);
+    if (!found) return [];
+
+    const blobs = await getLocalPages(chapterId, found.chapter.pageCount);
+    return blobs.map((blob, index) => ({
+      img: URL.createObjectURL(blob),
+      page: index
+    }));
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import atHome from '../__fixtures__/mangadex/at-home.json';
+import feedFirstPage from '../__fixtures__/mangadex/feed-0.json';
+import feedSecondPage from '../__fixtures__/mangadex/feed-500.json';
+import { MangaDexProvider } from './mangadex';
+
+// Responses recorded from api.mangadex.org, trimmed to a few entries
+const SERIES_ID = 'a1c7c817-4e59-43b7-9365-09675a149a6f';
+const CHAPTER_ID = 'c8b1c1e4-6b3b-4b5a-9b6f-1f1bd3f0a1d2';
+
+// Serves the recorded feed page for the requested offset
+function feedFetcher() {
+  return vi.fn(async (url: string) => {
+    const offset = new URL(url).searchParams.get('offset');
+    return offset === '500' ? feedSecondPage : feedFirstPage;
+  });
+}
+
+describe('MangaDexProvider.pages', () => {
+  it('maps the at-home response to page URLs', async () => {
+    const fetcher = vi.fn(async () => atHome);
+    const pages = await new MangaDexProvider(fetcher).pages(CHAPTER_ID);
+
+    expect(fetcher).toHaveBeenCalledWith(`https://api.mangadex.org/at-home/server/${CHAPTER_ID}`, undefined);
+    expect(pages.map(page => page.page)).toEqual([0, 1, 2]);
+    expect(pages[0].img).toBe(`${atHome.baseUrl}/data/${atHome.chapter.hash}/${atHome.chapter.data[0]}`);
+  });
+
+  it('adds data-saver URLs where the server has them', async () => {
+    const pages = await new MangaDexProvider(async () => atHome).pages(CHAPTER_ID);
+
+    expect(pages[0].dataSaverImg).toBe(
+      `${atHome.baseUrl}/data-saver/${atHome.chapter.hash}/${atHome.chapter.dataSaver[0]}`
+    );
+    expect(pages[1].dataSaverImg).toContain('/data-saver/');
+    expect(pages[2].dataSaverImg).toBeUndefined(); // only two data-saver files were recorded
+  });
+});
+
+describe('MangaDexProvider.chapters', () => {
+  it('pages through the feed until the total is reached', async () => {
+    const fetcher = feedFetcher();
+    await new MangaDexProvider(fetcher).chapters(SERIES_ID);
+
+    const requests = fetcher.mock.calls.map(([url]) => new URL(url));
+    expect(requests.map(url => url.pathname)).toEqual([`/manga/${SERIES_ID}/feed`, `/manga/${SERIES_ID}/feed`]);
+    expect(requests.map(url => url.searchParams.get('offset'))).toEqual(['0', '500']);
+    expect(requests.every(url => url.searchParams.get('limit') === '500')).toBe(true);
+  });
+
+  it('filters the feed by language and leaves out external chapters', async () => {
+    const fetcher = feedFetcher();
+    await new MangaDexProvider(fetcher).chapters(SERIES_ID, { lang: 'es' });
+
+    const url = new URL(fetcher.mock.calls[0][0]);
+    expect(url.searchParams.getAll('translatedLanguage[]')).toEqual(['es']);
+    expect(url.searchParams.get('includeExternalUrl')).toBe('0');
+  });
+
+  it('falls back to English for languages MangaDex is not set up for', async () => {
+    const fetcher = feedFetcher();
+    await new MangaDexProvider(fetcher).chapters(SERIES_ID, { lang: 'xx' });
+
+    expect(new URL(fetcher.mock.calls[0][0]).searchParams.getAll('translatedLanguage[]')).toEqual(['en']);
+  });
+
+  it('keeps the first upload of each chapter across pages, in order', async () => {
+    const chapters = await new MangaDexProvider(feedFetcher()).chapters(SERIES_ID);
+    const numbered = chapters.filter(chapter => chapter.chapterNumber);
+
+    expect(numbered.map(chapter => chapter.chapterNumber)).toEqual(['1', '2', '1089.5', '1090']);
+    expect(numbered[0]).toMatchObject({ id: CHAPTER_ID, title: 'Romance Dawn', pages: 53 });
+    expect(numbered[2].title).toBeUndefined();
+  });
+
+  it('keeps every chapter without a number', async () => {
+    const chapters = await new MangaDexProvider(feedFetcher()).chapters(SERIES_ID);
+    const extras = chapters.filter(chapter => !chapter.chapterNumber);
+
+    expect(extras.map(chapter => chapter.title)).toEqual(['Romance Dawn (Oneshot)', 'Strong World Chapter 0']);
+  });
+
+  it('stops after one request when the first page holds every chapter', async () => {
+    const fetcher = vi.fn(async () => ({ ...feedFirstPage, total: feedFirstPage.data.length }));
+    const chapters = await new MangaDexProvider(fetcher).chapters(SERIES_ID, { order: 'desc' });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(chapters.map(chapter => chapter.chapterNumber)).toEqual(['2', '1']);
+  });
+
+  it('gives no chapters when a later page fails', async () => {
+    const fetcher = vi.fn(async (url: string) => {
+      if (new URL(url).searchParams.get('offset') === '500') throw new Error('HTTP 503');
+      return feedFirstPage;
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // A truncated list would be cached as the whole feed
+    const chapters = await new MangaDexProvider(fetcher).chapters(SERIES_ID);
+    expect(chapters).toEqual([]);
+    vi.restoreAllMocks();
+  });
+});
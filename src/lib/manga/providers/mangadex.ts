@@ -0,0 +1,308 @@
+import { MangaProvider, ProviderSearchPage, RequestOptions } from './base';
+import {
+  ProviderSearchResult,
+  ProviderChapter,
+  ProviderPage,
+  ProviderSearchResultSchema,
+  ProviderChapterSchema,
+  ProviderPageSchema
+} from '../schema';
+import { fetchJson } from '../http';
+
+export const MANGADEX_API_URL = 'https://api.mangadex.org';
+const MANGADEX_UPLOADS_URL = 'https://uploads.mangadex.org';
+
+const SEARCH_LIMIT = 20;
+const FEED_LIMIT = 500; // largest page the feed endpoint accepts
+const MAX_OFFSET = 10000; // MangaDex rejects offset + limit beyond this
+
+export type MangaDexContentRating = 'safe' | 'suggestive' | 'erotica' | 'pornographic';
+export type MangaDexStatus = 'ongoing' | 'completed' | 'hiatus' | 'cancelled';
+export type MangaDexDemographic = 'shounen' | 'shoujo' | 'josei' | 'seinen' | 'none';
+
+export interface MangaDexSearchFilters {
+  contentRating?: MangaDexContentRating[];
+  status?: MangaDexStatus[];
+  publicationDemographic?: MangaDexDemographic[];
+  includedTags?: string[]; // tag UUIDs
+  excludedTags?: string[];
+  originalLanguage?: string[];
+  year?: number;
+  order?: 'relevance' | 'latestUploadedChapter' | 'followedCount' | 'createdAt' | 'rating';
+}
+
+// Fetches and parses one API response; swapped for recorded fixtures when testing
+export type MangaDexFetcher = (url: string, signal?: AbortSignal) => Promise<unknown>;
+
+interface Relationship {
+  id: string;
+  type: string;
+  attributes?: Record<string, unknown>;
+}
+
+interface MangaEntity {
+  id: string;
+  attributes: {
+    title: Record<string, string>;
+    altTitles?: Array<Record<string, string>>;
+    description?: Record<string, string>;
+    status?: string;
+    year?: number | null;
+    lastVolume?: string | null;
+    lastChapter?: string | null;
+    tags?: Array<{ attributes: { name: Record<string, string> } }>;
+    createdAt?: string;
+  };
+  relationships?: Relationship[];
+}
+
+interface ChapterEntity {
+  id: string;
+  attributes: {
+    title?: string | null;
+    chapter?: string | null;
+    volume?: string | null;
+    translatedLanguage?: string;
+    pages?: number;
+    externalUrl?: string | null;
+    publishAt?: string;
+    readableAt?: string;
+  };
+}
+
+interface ListResponse<T> {
+  result: string;
+  data: T[];
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+interface AtHomeResponse {
+  baseUrl: string;
+  chapter: {
+    hash: string;
+    data: string[];
+    dataSaver: string[];
+  };
+}
+
+const DEFAULT_CONTENT_RATING: MangaDexContentRating[] = ['safe', 'suggestive'];
+
+function buildUrl(path: string, params: Record<string, string | number | string[] | undefined>): string {
+  const url = new URL(`${MANGADEX_API_URL}${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      value.forEach(item => url.searchParams.append(`${key}[]`, item));
+    } else {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+// English first, then the original-language romanization, then anything
+function pickLocalized(values: Record<string, string> | undefined, lang = 'en'): string | undefined {
+  if (!values) return undefined;
+  return values[lang] || values.en || values['ja-ro'] || Object.values(values)[0];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Talks to api.mangadex.org directly instead of going through the Consumet proxy
+export class MangaDexProvider implements MangaProvider {
+  id = 'mangadex';
+  displayName = 'MangaDex';
+  supportsPages = true;
+  supportsDataSaver = true;
+  languages = ['en', 'ja', 'ko', 'zh', 'es', 'fr', 'de', 'pt-br', 'ru'];
+  priority = 100;
+  baseUrl = MANGADEX_API_URL;
+
+  constructor(
+    private fetcher: MangaDexFetcher = (url, signal) => fetchJson(url, { provider: 'mangadex', signal }),
+    private defaultFilters: MangaDexSearchFilters = {}
+  ) {}
+
+  private toSearchResult(manga: MangaEntity, lang?: string): ProviderSearchResult {
+    const { attributes, relationships = [] } = manga;
+    const coverFile = relationships.find(r => r.type === 'cover_art')?.attributes?.fileName;
+    const people = (type: string) => relationships
+      .filter(r => r.type === type)
+      .map(r => r.attributes?.name)
+      .filter((name): name is string => typeof name === 'string');
+
+    return ProviderSearchResultSchema.parse({
+      id: manga.id,
+      title: pickLocalized(attributes.title, lang) || 'Untitled',
+      altTitles: [attributes.title, ...(attributes.altTitles || [])],
+      image: typeof coverFile === 'string'
+        ? `${MANGADEX_UPLOADS_URL}/covers/${manga.id}/${coverFile}.512.jpg`
+        : undefined,
+      description: pickLocalized(attributes.description, lang),
+      status: attributes.status ? capitalize(attributes.status) : undefined,
+      chapters: attributes.lastChapter ? parseFloat(attributes.lastChapter) || undefined : undefined,
+      volumes: attributes.lastVolume ? parseInt(attributes.lastVolume) || undefined : undefined,
+      genres: (attributes.tags || [])
+        .map(tag => pickLocalized(tag.attributes.name))
+        .filter((name): name is string => !!name),
+      authors: Array.from(new Set([...people('author'), ...people('artist')])),
+      releaseDate: attributes.year ? String(attributes.year) : attributes.createdAt,
+      url: `https://mangadex.org/title/${manga.id}`
+    });
+  }
+
+  async searchWithFilters(
+    query: string,
+    page: number = 1,
+    filters: MangaDexSearchFilters = {},
+    lang?: string,
+    signal?: AbortSignal
+  ): Promise<ProviderSearchPage> {
+    const offset = (page - 1) * SEARCH_LIMIT;
+    if (offset + SEARCH_LIMIT > MAX_OFFSET) return { results: [], hasNextPage: false };
+
+    const { order = 'relevance', ...rest } = { ...this.defaultFilters, ...filters };
+    const url = buildUrl('/manga', {
+      title: query.trim() || undefined,
+      limit: SEARCH_LIMIT,
+      offset,
+      includes: ['cover_art', 'author', 'artist'],
+      contentRating: rest.contentRating || DEFAULT_CONTENT_RATING,
+      status: rest.status,
+      publicationDemographic: rest.publicationDemographic,
+      includedTags: rest.includedTags,
+      excludedTags: rest.excludedTags,
+      originalLanguage: rest.originalLanguage,
+      availableTranslatedLanguage: lang && this.languages.includes(lang) ? [lang] : undefined,
+      year: rest.year,
+      [`order[${order}]`]: 'desc'
+    });
+
+    const response = await this.fetcher(url, signal) as ListResponse<MangaEntity>;
+    const results = (response.data || []).map(manga => {
+      try {
+        return this.toSearchResult(manga, lang);
+      } catch (error) {
+        console.warn(`Invalid result from ${this.id}:`, error);
+        return null;
+      }
+    }).filter(Boolean) as ProviderSearchResult[];
+
+    const next = offset + SEARCH_LIMIT;
+    return { results, hasNextPage: next < (response.total || 0) && next + SEARCH_LIMIT <= MAX_OFFSET };
+  }
+
+  async searchPage(query: string, page: number = 1, lang?: string, opts?: RequestOptions): Promise<ProviderSearchPage> {
+    return this.searchWithFilters(query, page, {}, lang, opts?.signal);
+  }
+
+  async search(query: string, page: number = 1, lang?: string, opts?: RequestOptions): Promise<ProviderSearchResult[]> {
+    try {
+      return (await this.searchWithFilters(query, page, {}, lang, opts?.signal)).results;
+    } catch (error) {
+      console.error(`Search failed for ${this.id}:`, error);
+      return [];
+    }
+  }
+
+  async details(seriesId: string, opts?: RequestOptions): Promise<ProviderSearchResult> {
+    const url = buildUrl(`/manga/${seriesId}`, { includes: ['cover_art', 'author', 'artist'] });
+
+    try {
+      const response = await this.fetcher(url, opts?.signal) as { data: MangaEntity };
+      return this.toSearchResult(response.data);
+    } catch (error) {
+      console.error(`Details failed for ${this.id}:`, error);
+      throw error;
+    }
+  }
+
+  // Walks the whole feed; when several groups translated a chapter the first upload is kept.
+  // A feed that fails part way gives no chapters rather than a truncated list,
+  // which would be cached as if it were complete.
+  async chapters(
+    seriesId: string,
+    opts?: { lang?: string; order?: 'asc' | 'desc' } & RequestOptions
+  ): Promise<ProviderChapter[]> {
+    const lang = opts?.lang && this.languages.includes(opts.lang) ? opts.lang : 'en';
+    const entities: ChapterEntity[] = [];
+
+    try {
+      for (let offset = 0; offset + FEED_LIMIT <= MAX_OFFSET; offset += FEED_LIMIT) {
+        const url = buildUrl(`/manga/${seriesId}/feed`, {
+          limit: FEED_LIMIT,
+          offset,
+          translatedLanguage: [lang],
+          contentRating: ['safe', 'suggestive', 'erotica', 'pornographic'],
+          includeExternalUrl: 0, // external chapters have no pages to read
+          'order[chapter]': 'asc',
+          'order[createdAt]': 'asc'
+        });
+
+        const response = await this.fetcher(url, opts?.signal) as ListResponse<ChapterEntity>;
+        entities.push(...(response.data || []));
+        if (!response.data?.length || offset + FEED_LIMIT >= response.total) break;
+      }
+    } catch (error) {
+      console.error(`Chapters failed for ${this.id}:`, error);
+      return [];
+    }
+
+    const seen = new Set<string>();
+    const chapters: ProviderChapter[] = [];
+    for (const entity of entities) {
+      const { attributes } = entity;
+      // Oneshots and extras have no number and are all kept
+      const number = attributes.chapter || undefined;
+      if (number) {
+        if (seen.has(number)) continue;
+        seen.add(number);
+      }
+
+      try {
+        chapters.push(ProviderChapterSchema.parse({
+          id: entity.id,
+          title: attributes.title || undefined,
+          chapterNumber: number,
+          releaseDate: attributes.publishAt || attributes.readableAt,
+          url: `https://mangadex.org/chapter/${entity.id}`,
+          pages: attributes.pages
+        }));
+      } catch (error) {
+        console.warn(`Invalid chapter from ${this.id}:`, error);
+      }
+    }
+
+    const order = opts?.order || 'asc';
+    return chapters.sort((a, b) => {
+      const aNum = parseFloat(a.chapterNumber?.toString() || '0');
+      const bNum = parseFloat(b.chapterNumber?.toString() || '0');
+      return order === 'asc' ? aNum - bNum : bNum - aNum;
+    });
+  }
+
+  // At-home URLs are only valid for about 15 minutes, so they are never cached
+  async pages(chapterId: string, opts?: RequestOptions): Promise<ProviderPage[]> {
+    try {
+      const url = `${MANGADEX_API_URL}/at-home/server/${chapterId}`;
+      const response = await this.fetcher(url, opts?.signal) as AtHomeResponse;
+      const { baseUrl, chapter } = response;
+
+      return chapter.data.map((file, index) => {
+        const dataSaverFile = chapter.dataSaver[index];
+        return ProviderPageSchema.parse({
+          img: `${baseUrl}/data/${chapter.hash}/${file}`,
+          dataSaverImg: dataSaverFile ? `${baseUrl}/data-saver/${chapter.hash}/${dataSaverFile}` : undefined,
+          page: index
+        });
+      });
+    } catch (error) {
+      console.error(`Pages failed for ${this.id}:`, error);
+      return [];
+    }
+  }
+}
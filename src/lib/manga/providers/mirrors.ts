@@ -0,0 +1,159 @@
+import { getConsumetMirrors, saveConsumetMirrors } from '../../storage';
+
+export const DEFAULT_CONSUMET_URL = 'https://apiconsumetorg-kappa.vercel.app';
+
+const HEALTH_CHECK_TIMEOUT = 5000;
+const FAILURE_COOLDOWN = 60 * 1000; // a failed mirror is skipped for this long
+
+export interface MirrorStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs?: number; // smoothed over recent requests and health checks
+  lastChecked?: string;
+  lastError?: string;
+  downUntil?: number;
+}
+
+type MirrorListener = () => void;
+
+export function normalizeMirrorUrl(url: string): string {
+  const parsed = new URL(url.trim());
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Mirrors must use http or https');
+  }
+  return parsed.toString().replace(/\/+$/, '');
+}
+
+// Consumet instances in order of preference. Requests go to the first mirror
+// that has not failed recently; self-hosted instances can be added in Settings.
+export class ConsumetMirrorPool {
+  private mirrors: string[] = [DEFAULT_CONSUMET_URL];
+  private status = new Map<string, MirrorStatus>();
+  private listeners = new Set<MirrorListener>();
+
+  subscribe(listener: MirrorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getMirrors(): string[] {
+    return [...this.mirrors];
+  }
+
+  setMirrors(urls: string[]) {
+    const mirrors = Array.from(new Set(urls.map(normalizeMirrorUrl)));
+    this.mirrors = mirrors.length > 0 ? mirrors : [DEFAULT_CONSUMET_URL];
+    this.emit();
+  }
+
+  getStatus(url: string): MirrorStatus {
+    return this.status.get(url) || { url, healthy: true };
+  }
+
+  getStatuses(): MirrorStatus[] {
+    return this.mirrors.map(url => this.getStatus(url));
+  }
+
+  private isAvailable(url: string, now = Date.now()): boolean {
+    const { downUntil } = this.getStatus(url);
+    return !downUntil || downUntil <= now;
+  }
+
+  // When every mirror is down the one that comes back first is tried anyway
+  getActiveUrl(): string {
+    const now = Date.now();
+    const available = this.mirrors.find(url => this.isAvailable(url, now));
+    if (available) return available;
+
+    return [...this.mirrors].sort(
+      (a, b) => (this.getStatus(a).downUntil || 0) - (this.getStatus(b).downUntil || 0)
+    )[0];
+  }
+
+  // Number of distinct mirrors a request may try before giving up
+  get size(): number {
+    return this.mirrors.length;
+  }
+
+  private update(url: string, changes: Partial<MirrorStatus>) {
+    this.status.set(url, { ...this.getStatus(url), ...changes, url });
+    this.emit();
+  }
+
+  private smooth(url: string, latencyMs: number): number {
+    const previous = this.getStatus(url).latencyMs;
+    return previous === undefined ? latencyMs : Math.round(previous * 0.7 + latencyMs * 0.3);
+  }
+
+  reportSuccess(url: string, latencyMs: number) {
+    this.update(url, {
+      healthy: true,
+      latencyMs: this.smooth(url, latencyMs),
+      downUntil: undefined
+    });
+  }
+
+  reportFailure(url: string, error: string) {
+    this.update(url, {
+      healthy: false,
+      lastError: error,
+      downUntil: Date.now() + FAILURE_COOLDOWN
+    });
+  }
+
+  async checkMirror(url: string): Promise<MirrorStatus> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT);
+    const started = performance.now();
+
+    try {
+      const response = await fetch(`${url}/`, { signal: controller.signal });
+      if (response.status >= 500) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.reportSuccess(url, Math.round(performance.now() - started));
+    } catch (error) {
+      this.reportFailure(
+        url,
+        controller.signal.aborted ? 'Timed out' : error instanceof Error ? error.message : 'Unreachable'
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      this.update(url, { lastChecked: new Date().toISOString() });
+    }
+
+    return this.getStatus(url);
+  }
+
+  async checkAll(): Promise<MirrorStatus[]> {
+    return Promise.all(this.mirrors.map(url => this.checkMirror(url)));
+  }
+}
+
+export const consumetMirrors = new ConsumetMirrorPool();
+
+export function getConsumetBaseUrl(): string {
+  return consumetMirrors.getActiveUrl();
+}
+
+export async function loadConsumetMirrors(): Promise<void> {
+  const mirrors = await getConsumetMirrors();
+  if (mirrors && mirrors.length > 0) {
+    try {
+      consumetMirrors.setMirrors(mirrors);
+    } catch (error) {
+      console.error('Ignoring invalid Consumet mirror list:', error);
+    }
+  }
+}
+
+export async function saveMirrorList(urls: string[]): Promise<void> {
+  consumetMirrors.setMirrors(urls);
+  await saveConsumetMirrors(consumetMirrors.getMirrors());
+}
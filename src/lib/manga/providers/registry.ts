@@ -1,48 +1,188 @@
-import { MangaProvider } from './base';
-import { 
-  MangaDexProvider, 
-  ComickProvider, 
-  MangaSee123Provider, 
-  MangakakalotProvider, 
-  MangaParkProvider 
+import { MangaProvider, ProviderDescriptor, ProviderId } from './base';
+import {
+  ComickProvider,
+  MangaSee123Provider,
+  MangakakalotProvider,
+  MangaParkProvider
 } from './consumet';
+import { MangaDexProvider } from './mangadex';
+import { LocalProvider } from './local';
+import { getProviderPreferences, saveProviderPreferences } from '../../storage';
+
+// User choices, persisted separately from the providers themselves so they
+// survive providers being registered later or not at all
+export interface ProviderPreferences {
+  order: ProviderId[]; // most preferred first; unlisted providers follow by default priority
+  disabled: ProviderId[];
+}
+
+type RegistryListener = () => void;
 
 export class ProviderRegistry {
   private providers: Map<string, MangaProvider> = new Map();
+  private disabled = new Set<ProviderId>();
+  private order: ProviderId[] = [];
+  private listeners = new Set<RegistryListener>();
 
   constructor() {
-    this.registerProvider(new MangaDexProvider());
-    this.registerProvider(new ComickProvider());
-    this.registerProvider(new MangaSee123Provider());
-    this.registerProvider(new MangakakalotProvider());
-    this.registerProvider(new MangaParkProvider());
+    this.register(new MangaDexProvider());
+    this.register(new ComickProvider());
+    this.register(new MangaSee123Provider());
+    this.register(new MangakakalotProvider());
+    this.register(new MangaParkProvider());
+    this.register(new LocalProvider());
+  }
+
+  subscribe(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  private registerProvider(provider: MangaProvider) {
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  register(provider: MangaProvider, options: { enabled?: boolean } = {}) {
+    if (!provider.id || provider.id.includes(':')) {
+      throw new Error(`Invalid provider id: "${provider.id}"`);
+    }
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider already registered: ${provider.id}`);
+    }
+
     this.providers.set(provider.id, provider);
+    if (options.enabled === false) {
+      this.disabled.add(provider.id);
+    }
+    this.emit();
+  }
+
+  // Preferences for the id are kept in case the provider is registered again
+  unregister(id: ProviderId): boolean {
+    const removed = this.providers.delete(id);
+    if (removed) this.emit();
+    return removed;
+  }
+
+  setEnabled(id: ProviderId, enabled: boolean) {
+    if (enabled === this.isEnabled(id)) return;
+    if (enabled) {
+      this.disabled.delete(id);
+    } else {
+      this.disabled.add(id);
+    }
+    this.emit();
+  }
+
+  enable(id: ProviderId) {
+    this.setEnabled(id, true);
+  }
+
+  disable(id: ProviderId) {
+    this.setEnabled(id, false);
+  }
+
+  isEnabled(id: ProviderId): boolean {
+    return !this.disabled.has(id);
+  }
+
+  // Listed ids move to the front in the given order
+  reorder(ids: ProviderId[]) {
+    const listed = new Set(ids);
+    this.order = [...ids, ...this.order.filter(id => !listed.has(id))];
+    this.emit();
+  }
+
+  getPreferences(): ProviderPreferences {
+    return {
+      order: [
+        ...this.getProvidersSortedByPriority().map(provider => provider.id),
+        ...this.order.filter(id => !this.providers.has(id))
+      ],
+      disabled: Array.from(this.disabled)
+    };
+  }
+
+  applyPreferences(preferences: ProviderPreferences) {
+    this.order = [...preferences.order];
+    this.disabled = new Set(preferences.disabled);
+    this.emit();
   }
 
   getProvider(id: string): MangaProvider | undefined {
     return this.providers.get(id);
   }
 
+  // Includes disabled providers, so series already in the library stay readable
   getAllProviders(): MangaProvider[] {
     return Array.from(this.providers.values());
   }
 
+  getEnabledProviders(): MangaProvider[] {
+    return this.getProvidersSortedByPriority().filter(provider => this.isEnabled(provider.id));
+  }
+
   getProvidersByLanguage(language: string): MangaProvider[] {
-    return this.getAllProviders().filter(provider => 
+    return this.getEnabledProviders().filter(provider =>
       provider.languages.includes(language)
     );
   }
 
   getProvidersSortedByPriority(): MangaProvider[] {
-    return this.getAllProviders().sort((a, b) => b.priority - a.priority);
+    const position = (id: ProviderId) => {
+      const index = this.order.indexOf(id);
+      return index === -1 ? this.order.length : index;
+    };
+    return this.getAllProviders().sort((a, b) =>
+      position(a.id) - position(b.id) || b.priority - a.priority
+    );
   }
 
   getProvidersWithPages(): MangaProvider[] {
     return this.getAllProviders().filter(provider => provider.supportsPages);
   }
+
+  // Effective priority: the provider's position in the user's ordering, highest first
+  getPriority(id: ProviderId): number {
+    const sorted = this.getProvidersSortedByPriority();
+    const index = sorted.findIndex(provider => provider.id === id);
+    return index === -1 ? 0 : sorted.length - index;
+  }
+
+  describe(id: ProviderId): ProviderDescriptor | undefined {
+    const provider = this.providers.get(id);
+    if (!provider) return undefined;
+
+    return {
+      id: provider.id,
+      name: provider.displayName,
+      languages: provider.languages,
+      capabilities: {
+        pages: provider.supportsPages,
+        dataSaver: !!provider.supportsDataSaver
+      },
+      baseUrl: provider.baseUrl,
+      priority: this.getPriority(provider.id),
+      enabled: this.isEnabled(provider.id)
+    };
+  }
+
+  getDescriptors(): ProviderDescriptor[] {
+    return this.getProvidersSortedByPriority().map(provider => this.describe(provider.id)!);
+  }
 }
 
-export const providerRegistry = new ProviderRegistry();
\ No newline at end of file
+export const providerRegistry = new ProviderRegistry();
+
+export async function loadProviderPreferences(): Promise<void> {
+  const preferences = await getProviderPreferences();
+  if (preferences) {
+    providerRegistry.applyPreferences(preferences);
+  }
+}
+
+export async function persistProviderPreferences(): Promise<void> {
+  await saveProviderPreferences(providerRegistry.getPreferences());
+}
@@ -4,6 +4,8 @@ import { z } from 'zod';
 export const ProviderSearchResultSchema = z.object({
   id: z.string(),
   title: z.string(),
+  // Plain strings, or titles by language as MangaDex gives them ({ en: '...' })
+  altTitles: z.array(z.union([z.string(), z.record(z.string(), z.string())])).optional(),
   image: z.string().optional(),
   description: z.string().optional(),
   status: z.string().optional(),
@@ -27,6 +29,7 @@ export const ProviderChapterSchema = z.object({
 
 export const ProviderPageSchema = z.object({
   img: z.string(),
+  dataSaverImg: z.string().optional(), // smaller variant served by the source itself
   page: z.number().optional(),
   headerForImage: z.record(z.string(), z.string()).optional()
 });
@@ -37,6 +40,7 @@ export const MangaSchema = z.object({
   title: z.string(),
   titleEnglish: z.string().optional(),
   titleJapanese: z.string().optional(),
+  altTitles: z.array(z.string()).optional(),
   cover: z.string(),
   status: z.string(),
   score: z.number().optional(),
@@ -55,16 +59,24 @@ export const MangaSchema = z.object({
   volumes: z.number().optional()
 });
 
+export const ChapterSourceSchema = z.object({
+  provider: z.string(),
+  chapterId: z.string(), // provider:rawId format
+  seriesId: z.string()
+});
+
 export const ChapterSchema = z.object({
   id: z.string(),
   seriesId: z.string(),
-  chapterNumber: z.string(),
+  chapterNumber: z.string().optional(), // unset for extras and oneshots the source gives no number
   title: z.string(),
   pagesCount: z.number().optional(),
   publishedAt: z.string(),
   externalUrl: z.string().optional(),
   provider: z.string(),
-  providerId: z.string()
+  providerId: z.string(),
+  // Set on merged lists: every source that has this chapter, the one above first
+  sources: z.array(ChapterSourceSchema).optional()
 });
 
 export const PageImageSchema = z.object({
@@ -80,6 +92,7 @@ export type ProviderSearchResult = z.infer<typeof ProviderSearchResultSchema>;
 export type ProviderChapter = z.infer<typeof ProviderChapterSchema>;
 export type ProviderPage = z.infer<typeof ProviderPageSchema>;
 export type Manga = z.infer<typeof MangaSchema>;
+export type ChapterSource = z.infer<typeof ChapterSourceSchema>;
 export type Chapter = z.infer<typeof ChapterSchema>;
 export type PageImage = z.infer<typeof PageImageSchema>;
 
@@ -89,6 +102,7 @@ export class MangaApiError extends Error {
   public provider: string;
   public status?: number;
   public url?: string;
+  public retryAfterMs?: number; // from the response's Retry-After header
 
   constructor(
     code: string,
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+export const SOURCE_DEFINITION_FORMAT = 'solo-toon-source';
+
+// A field is a JSONPath ("$.data.title") for JSON responses, or a CSS selector
+// with an optional "@attribute" ("a.title@href") for HTML responses. An empty
+// selector refers to the list item itself ("@href").
+export const FieldMappingSchema = z.union([
+  z.string(),
+  z.object({
+    path: z.string(),
+    regex: z.string().optional(), // first capture group (or the whole match) is kept
+    template: z.string().optional() // "{{value}}" is replaced by the extracted value
+  })
+]);
+
+const operation = <T extends z.ZodRawShape>(fields: T) => z.object({
+  url: z.string().min(1), // template, see expandTemplate
+  type: z.enum(['json', 'html']).default('json'),
+  list: z.string().optional(), // path or selector of the items; required for lists
+  fields: z.object(fields)
+});
+
+const field = FieldMappingSchema;
+const optionalField = FieldMappingSchema.optional();
+
+const searchFields = {
+  id: field,
+  title: field,
+  altTitles: optionalField,
+  image: optionalField,
+  description: optionalField,
+  status: optionalField,
+  chapters: optionalField,
+  volumes: optionalField,
+  rating: optionalField,
+  genres: optionalField,
+  authors: optionalField,
+  releaseDate: optionalField,
+  url: optionalField
+};
+
+export const HeaderRuleSchema = z.object({
+  name: z.string().min(1),
+  value: z.string(), // template
+  appliesTo: z.enum(['requests', 'images', 'all']).default('requests')
+});
+
+// Recorded response used to check a definition without touching the network
+export const SourceFixtureSchema = z.object({
+  operation: z.enum(['search', 'details', 'chapters', 'pages']),
+  input: z.string(), // query for search, raw id otherwise
+  response: z.unknown() // parsed JSON, or the HTML as a string
+});
+
+export const SourceDefinitionSchema = z.object({
+  format: z.literal(SOURCE_DEFINITION_FORMAT),
+  version: z.number().int().positive(),
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, "-" and "_"'),
+  name: z.string().min(1),
+  baseUrl: z.url(),
+  languages: z.array(z.string()).min(1).default(['en']),
+  priority: z.number().default(50),
+  headers: z.array(HeaderRuleSchema).default([]),
+  search: operation(searchFields).extend({ list: z.string() }),
+  details: operation({ ...searchFields, id: optionalField }),
+  chapters: operation({
+    id: field,
+    title: optionalField,
+    chapterNumber: optionalField,
+    releaseDate: optionalField,
+    url: optionalField,
+    pages: optionalField
+  }).extend({ list: z.string() }),
+  pages: operation({
+    img: field,
+    dataSaverImg: optionalField
+  }).extend({ list: z.string() }),
+  fixtures: z.array(SourceFixtureSchema).optional()
+});
+
+export type FieldMapping = z.infer<typeof FieldMappingSchema>;
+export type HeaderRule = z.infer<typeof HeaderRuleSchema>;
+export type SourceFixture = z.infer<typeof SourceFixtureSchema>;
+export type SourceDefinition = z.infer<typeof SourceDefinitionSchema>;
+export type SourceOperation = 'search' | 'details' | 'chapters' | 'pages';
+
+export function parseSourceDefinition(text: string): SourceDefinition {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = SourceDefinitionSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a valid source definition (${issue.path.join('.') || 'file'}: ${issue.message})`);
+  }
+
+  return result.data;
+}
+
+// Replaces {{name}} placeholders; unknown names become empty strings
+export function expandTemplate(template: string, values: Record<string, string | number | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = values[name];
+    return value === undefined ? '' : String(value);
+  });
+}
@@ -0,0 +1,83 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { extractField, parseHtml, queryHtml, queryJson, selectList } from './extract';
+
+const series = {
+  data: {
+    title: 'One Piece',
+    'alt-titles': ['ワンピース', 'Wan Pīsu'],
+    chapters: [
+      { number: '1', group: { name: 'Shueisha' } },
+      { number: '2', group: { name: 'TCB' } },
+      { number: '3' }
+    ],
+    stats: { rating: 9.1, follows: 120000 }
+  }
+};
+
+describe('queryJson', () => {
+  it('follows keys, quoted keys and indexes', () => {
+    expect(queryJson(series, '$.data.title')).toEqual(['One Piece']);
+    expect(queryJson(series, "$['data']['alt-titles'][1]")).toEqual(['Wan Pīsu']);
+    expect(queryJson(series, '$.data.chapters[-1].number')).toEqual(['3']);
+  });
+
+  it('expands wildcards and arrays at the end of the path', () => {
+    expect(queryJson(series, '$.data.chapters[*].number')).toEqual(['1', '2', '3']);
+    expect(queryJson(series, '$.data.stats.*')).toEqual([9.1, 120000]);
+    expect(queryJson(series, '$.data.alt-titles')).toEqual(['ワンピース', 'Wan Pīsu']);
+  });
+
+  it('collects descendants at any depth', () => {
+    expect(queryJson(series, '$..name')).toEqual(['Shueisha', 'TCB']);
+  });
+
+  it('yields nothing for paths that do not match', () => {
+    expect(queryJson(series, '$.data.missing.title')).toEqual([]);
+    expect(queryJson(series, '$.data.chapters[10]')).toEqual([]);
+    expect(queryJson(series, '$.data.title[0]')).toEqual([]);
+  });
+
+  it('rejects JSONPath it does not support', () => {
+    expect(() => queryJson(series, '$.data.chapters[?(@.number)]')).toThrow(/Unsupported JSONPath/);
+  });
+});
+
+describe('queryHtml', () => {
+  const document = parseHtml(`
+    <div class="result"><a class="title" href="/manga/berserk">Berserk</a></div>
+    <div class="result"><a class="title">No link</a></div>
+  `);
+
+  it('selects elements and reads attributes after "@"', () => {
+    expect(queryHtml(document, 'a.title').map(node => (node as Element).textContent)).toEqual(['Berserk', 'No link']);
+    expect(queryHtml(document, 'a.title@href')).toEqual(['/manga/berserk']);
+  });
+
+  it('refers to the item itself with an empty selector', () => {
+    const [link] = selectList(document, 'html', 'a.title') as Element[];
+
+    expect(queryHtml(link, '@href')).toEqual(['/manga/berserk']);
+    expect(queryHtml(link, '')).toEqual([link]);
+  });
+});
+
+describe('extractField', () => {
+  it('reads text, numbers and named objects as trimmed strings', () => {
+    expect(extractField(series, 'json', '$.data.stats.rating')).toEqual(['9.1']);
+    expect(extractField(series, 'json', '$.data.chapters[*].group')).toEqual(['Shueisha', 'TCB']);
+
+    const document = parseHtml('<p class="summary">  Guts, a former\n   mercenary.  </p>');
+    expect(extractField(document, 'html', 'p.summary')).toEqual(['Guts, a former mercenary.']);
+  });
+
+  it('keeps the first capture group of a regex and drops values that do not match', () => {
+    const mapping = { path: '$.labels[*]', regex: 'Ch\\. ([\\d.]+)' };
+    expect(extractField({ labels: ['Ch. 12', 'Extra', 'Ch. 12.5'] }, 'json', mapping)).toEqual(['12', '12.5']);
+  });
+
+  it('fills the template with the extracted value', () => {
+    const mapping = { path: '$.file', regex: '[^/]+$', template: '/images/{{ value }}' };
+    expect(extractField({ file: 'c1/001.jpg' }, 'json', mapping)).toEqual(['/images/001.jpg']);
+  });
+});
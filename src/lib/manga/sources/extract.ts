@@ -0,0 +1,136 @@
+import { FieldMapping } from './definition';
+
+// A parsed response or one item of a list: a JSON value or a DOM node
+export type SourceNode = unknown;
+
+type PathToken =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; name: string };
+
+// Supports the common subset of JSONPath: $.a.b, $['a'], $[0], $[*], $.*, $..name
+function tokenizeJsonPath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let rest = path.trim().replace(/^\$/, '');
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\.\.([\w$-]+)/))) {
+      tokens.push({ kind: 'descendant', name: match[1] });
+    } else if ((match = rest.match(/^\.\*|^\[\*\]/))) {
+      tokens.push({ kind: 'wildcard' });
+    } else if ((match = rest.match(/^\.([\w$-]+)/))) {
+      tokens.push({ kind: 'key', name: match[1] });
+    } else if ((match = rest.match(/^\[(-?\d+)\]/))) {
+      tokens.push({ kind: 'index', index: parseInt(match[1]) });
+    } else if ((match = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/))) {
+      tokens.push({ kind: 'key', name: match[2] });
+    } else {
+      throw new Error(`Unsupported JSONPath near "${rest}" in "${path}"`);
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return tokens;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function collectDescendants(value: unknown, name: string, out: unknown[]) {
+  if (!isObject(value)) return;
+  if (!Array.isArray(value) && name in value) out.push(value[name]);
+  Object.values(value).forEach(child => collectDescendants(child, name, out));
+}
+
+export function queryJson(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const token of tokenizeJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (token.kind === 'key') {
+        if (isObject(value) && !Array.isArray(value) && token.name in value) next.push(value[token.name]);
+      } else if (token.kind === 'index') {
+        if (Array.isArray(value)) {
+          const item = value[token.index < 0 ? value.length + token.index : token.index];
+          if (item !== undefined) next.push(item);
+        }
+      } else if (token.kind === 'wildcard') {
+        if (isObject(value)) next.push(...Object.values(value));
+      } else {
+        collectDescendants(value, token.name, next);
+      }
+    }
+    current = next;
+  }
+
+  // A path ending on an array yields its items, so "$.genres" works like "$.genres[*]"
+  return current.flatMap(value => (Array.isArray(value) ? value : [value]));
+}
+
+// "a.title@href" -> elements matching "a.title", reading the href attribute
+export function queryHtml(root: ParentNode, selector: string): Array<Element | string> {
+  const at = selector.lastIndexOf('@');
+  const css = (at === -1 ? selector : selector.slice(0, at)).trim();
+  const attribute = at === -1 ? undefined : selector.slice(at + 1).trim();
+
+  const elements = css
+    ? Array.from(root.querySelectorAll(css))
+    : root instanceof Element ? [root] : [];
+
+  if (!attribute) return elements;
+  return elements
+    .map(element => element.getAttribute(attribute))
+    .filter((value): value is string => value !== null);
+}
+
+export function parseHtml(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+export function selectList(root: SourceNode, type: 'json' | 'html', path: string): SourceNode[] {
+  return type === 'json' ? queryJson(root, path) : queryHtml(root as ParentNode, path);
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof Element !== 'undefined' && value instanceof Element) {
+    return value.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+  }
+  if (isObject(value) && typeof value.name === 'string') return value.name;
+  return undefined;
+}
+
+function applyMapping(value: string, mapping: FieldMapping): string | undefined {
+  if (typeof mapping === 'string') return value;
+
+  let result = value;
+  if (mapping.regex) {
+    const match = result.match(new RegExp(mapping.regex));
+    if (!match) return undefined;
+    result = match[1] ?? match[0];
+  }
+  if (mapping.template) {
+    result = mapping.template.replace(/\{\{\s*value\s*\}\}/g, result);
+  }
+  return result;
+}
+
+// Every value the mapping yields for a node, as trimmed strings
+export function extractField(node: SourceNode, type: 'json' | 'html', mapping: FieldMapping): string[] {
+  const path = typeof mapping === 'string' ? mapping : mapping.path;
+  const values = type === 'json' ? queryJson(node, path) : queryHtml(node as ParentNode, path);
+
+  return values
+    .map(toText)
+    .filter((value): value is string => value !== undefined)
+    .map(value => applyMapping(value, mapping))
+    .filter((value): value is string => value !== undefined);
+}
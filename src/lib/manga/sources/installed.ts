@@ -0,0 +1,103 @@
+import { getSourceDefinitions, saveSourceDefinitions } from '../../storage';
+import { DeclarativeProvider, SourceFetcher } from '../providers/declarative';
+import { providerRegistry } from '../providers/registry';
+import { clearProviderCache } from '../api';
+import { SourceDefinition, SourceDefinitionSchema, SourceFixture, SourceOperation } from './definition';
+
+export interface FixtureResult {
+  operation: SourceOperation;
+  input: string;
+  url: string;
+  passed: boolean;
+  itemCount: number;
+  errors: string[];
+}
+
+export function isInstalledSource(id: string): boolean {
+  return providerRegistry.getProvider(id) instanceof DeclarativeProvider;
+}
+
+async function getInstalledDefinitions(): Promise<SourceDefinition[]> {
+  const stored = await getSourceDefinitions();
+  return stored.flatMap(value => {
+    const result = SourceDefinitionSchema.safeParse(value);
+    if (!result.success) {
+      console.error('Skipping invalid source definition:', result.error.issues[0]);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+// Registers every installed definition; must run before provider preferences are applied
+export async function loadSourceDefinitions(): Promise<void> {
+  for (const definition of await getInstalledDefinitions()) {
+    try {
+      providerRegistry.register(new DeclarativeProvider(definition));
+    } catch (error) {
+      console.error(`Failed to register source ${definition.id}:`, error);
+    }
+  }
+}
+
+// Installs or updates a definition; built-in providers cannot be replaced
+export async function installSourceDefinition(definition: SourceDefinition): Promise<void> {
+  const existing = providerRegistry.getProvider(definition.id);
+  if (existing && !(existing instanceof DeclarativeProvider)) {
+    throw new Error(`"${definition.id}" is the id of a built-in source`);
+  }
+
+  const definitions = (await getInstalledDefinitions()).filter(d => d.id !== definition.id);
+  await saveSourceDefinitions([...definitions, definition]);
+
+  const wasEnabled = providerRegistry.isEnabled(definition.id);
+  if (existing) {
+    providerRegistry.unregister(definition.id);
+    await clearProviderCache(definition.id);
+  }
+  providerRegistry.register(new DeclarativeProvider(definition), { enabled: wasEnabled });
+}
+
+export async function removeSourceDefinition(id: string): Promise<void> {
+  const definitions = await getInstalledDefinitions();
+  await saveSourceDefinitions(definitions.filter(d => d.id !== id));
+  if (isInstalledSource(id)) providerRegistry.unregister(id);
+  await clearProviderCache(id);
+}
+
+// Runs the definition against its recorded responses instead of the network.
+// A fixture passes when it yields at least one item and every item validates.
+export async function testSourceDefinition(
+  definition: SourceDefinition,
+  fixtures: SourceFixture[] = definition.fixtures || []
+): Promise<FixtureResult[]> {
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const fetcher: SourceFetcher = async () => fixture.response;
+    const provider = new DeclarativeProvider(definition, fetcher);
+
+    try {
+      const { url, items, errors } = await provider.run(fixture.operation, fixture.input);
+      results.push({
+        operation: fixture.operation,
+        input: fixture.input,
+        url,
+        passed: items.length > 0 && errors.length === 0,
+        itemCount: items.length,
+        errors
+      });
+    } catch (error) {
+      results.push({
+        operation: fixture.operation,
+        input: fixture.input,
+        url: '',
+        passed: false,
+        itemCount: 0,
+        errors: [error instanceof Error ? error.message : 'Failed to run fixture']
+      });
+    }
+  }
+
+  return results;
+}
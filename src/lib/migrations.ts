@@ -0,0 +1,270 @@
+import localforage from 'localforage';
+import { z } from 'zod';
+import { STORAGE_KEYS, DEFAULT_SETTINGS, currentChapterKey, CurrentChapter } from './storage';
+import {
+  LibrarySeriesSchema,
+  ReadingProgressSchema,
+  CurrentChapterSchema,
+  AppSettingsSchema
+} from './storage-schema';
+
+// Data stored before schema versioning was introduced
+const BASELINE_VERSION = 1;
+
+export interface CorruptEntry {
+  key: string; // storage key the entry was found under
+  entryId?: string; // index or record key within that storage key
+  value: unknown;
+  issues: string;
+  migration: number;
+  detectedAt: string;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  corrupt: CorruptEntry[];
+  error?: string;
+}
+
+interface MigrationContext {
+  version: number;
+  reportCorrupt: (entry: Omit<CorruptEntry, 'migration' | 'detectedAt'>) => void;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  // Must be safe to run again if a previous run was interrupted
+  migrate: (context: MigrationContext) => Promise<void>;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// Keep valid array entries, report the rest
+function validateList<T>(
+  key: string,
+  value: unknown,
+  schema: z.ZodType<T>,
+  context: MigrationContext
+): T[] {
+  if (value == null) return [];
+  if (!Array.isArray(value)) {
+    context.reportCorrupt({ key, value, issues: 'Expected an array' });
+    return [];
+  }
+
+  const valid: T[] = [];
+  value.forEach((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      context.reportCorrupt({ key, entryId: String(index), value: entry, issues: formatIssues(result.error) });
+    }
+  });
+  return valid;
+}
+
+// Keep valid record entries, report the rest
+function validateRecord<T>(
+  key: string,
+  value: unknown,
+  schema: z.ZodType<T>,
+  context: MigrationContext
+): Record<string, T> {
+  if (value == null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    context.reportCorrupt({ key, value, issues: 'Expected an object' });
+    return {};
+  }
+
+  const valid: Record<string, T> = {};
+  Object.entries(value).forEach(([entryId, entry]) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid[entryId] = result.data;
+    } else {
+      context.reportCorrupt({ key, entryId, value: entry, issues: formatIssues(result.error) });
+    }
+  });
+  return valid;
+}
+
+// Ordered list of schema migrations. Append new steps with the next version.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Split per-series reading progress into per-chapter records',
+    migrate: async () => {
+      const legacy = await localforage.getItem<Record<string, Record<string, unknown>>>(
+        STORAGE_KEYS.LEGACY_PROGRESS
+      );
+      if (!legacy) return;
+
+      const chapters = await localforage.getItem<Record<string, unknown>>(STORAGE_KEYS.CHAPTER_PROGRESS) || {};
+      const currentChapters = await localforage.getItem<Record<string, unknown>>(STORAGE_KEYS.CURRENT_CHAPTERS) || {};
+
+      for (const entry of Object.values(legacy)) {
+        if (!entry || typeof entry.seriesId !== 'string' || typeof entry.chapterId !== 'string') continue;
+
+        const read = Number(entry.percent) >= 100;
+        if (!chapters[entry.chapterId]) {
+          chapters[entry.chapterId] = {
+            ...entry,
+            read,
+            completedAt: read ? entry.updatedAt : undefined
+          };
+        }
+        if (!currentChapters[entry.seriesId]) {
+          currentChapters[entry.seriesId] = {
+            seriesId: entry.seriesId,
+            chapterId: entry.chapterId,
+            updatedAt: entry.updatedAt
+          };
+        }
+      }
+
+      await localforage.setItem(STORAGE_KEYS.CHAPTER_PROGRESS, chapters);
+      await localforage.setItem(STORAGE_KEYS.CURRENT_CHAPTERS, currentChapters);
+      await localforage.removeItem(STORAGE_KEYS.LEGACY_PROGRESS);
+    }
+  },
+  {
+    version: 3,
+    description: 'Validate library, progress and settings records',
+    migrate: async (context) => {
+      const [library, progress, currentChapters, settings] = await Promise.all([
+        localforage.getItem(STORAGE_KEYS.LIBRARY),
+        localforage.getItem(STORAGE_KEYS.CHAPTER_PROGRESS),
+        localforage.getItem(STORAGE_KEYS.CURRENT_CHAPTERS),
+        localforage.getItem(STORAGE_KEYS.SETTINGS)
+      ]);
+
+      const validLibrary = validateList(STORAGE_KEYS.LIBRARY, library, LibrarySeriesSchema, context);
+      const validProgress = validateRecord(STORAGE_KEYS.CHAPTER_PROGRESS, progress, ReadingProgressSchema, context);
+      const validCurrent = validateRecord(STORAGE_KEYS.CURRENT_CHAPTERS, currentChapters, CurrentChapterSchema, context);
+
+      // Settings are repaired field by field rather than dropped
+      const validSettings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+      if (settings != null && typeof settings === 'object') {
+        for (const [field, fieldSchema] of Object.entries(AppSettingsSchema.shape)) {
+          if (!(field in settings)) continue;
+
+          const value = (settings as Record<string, unknown>)[field];
+          const result = fieldSchema.safeParse(value);
+          if (result.success) {
+            validSettings[field] = result.data;
+          } else {
+            context.reportCorrupt({
+              key: STORAGE_KEYS.SETTINGS,
+              entryId: field,
+              value,
+              issues: formatIssues(result.error)
+            });
+          }
+        }
+      } else if (settings != null) {
+        context.reportCorrupt({ key: STORAGE_KEYS.SETTINGS, value: settings, issues: 'Expected an object' });
+      }
+
+      await Promise.all([
+        library != null && localforage.setItem(STORAGE_KEYS.LIBRARY, validLibrary),
+        progress != null && localforage.setItem(STORAGE_KEYS.CHAPTER_PROGRESS, validProgress),
+        currentChapters != null && localforage.setItem(STORAGE_KEYS.CURRENT_CHAPTERS, validCurrent),
+        settings != null && localforage.setItem(STORAGE_KEYS.SETTINGS, validSettings)
+      ]);
+    }
+  },
+  {
+    version: 4,
+    description: 'Key current chapter pointers by provider and series id',
+    migrate: async () => {
+      const currentChapters = await localforage.getItem<Record<string, CurrentChapter>>(STORAGE_KEYS.CURRENT_CHAPTERS);
+      if (!currentChapters) return;
+
+      const rekeyed: Record<string, CurrentChapter> = {};
+      for (const current of Object.values(currentChapters)) {
+        rekeyed[currentChapterKey(current)] = current;
+      }
+      await localforage.setItem(STORAGE_KEYS.CURRENT_CHAPTERS, rekeyed);
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let migrationRun: Promise<MigrationReport> | null = null;
+
+// Bring stored data up to the current schema version. Runs once per page load.
+export function runMigrations(): Promise<MigrationReport> {
+  if (!migrationRun) {
+    migrationRun = applyMigrations();
+  }
+  return migrationRun;
+}
+
+async function applyMigrations(): Promise<MigrationReport> {
+  const storedVersion = await localforage.getItem<number>(STORAGE_KEYS.SCHEMA_VERSION);
+  const report: MigrationReport = {
+    fromVersion: storedVersion ?? BASELINE_VERSION,
+    toVersion: storedVersion ?? BASELINE_VERSION,
+    applied: [],
+    corrupt: []
+  };
+
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > report.fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const corrupt: CorruptEntry[] = [];
+    const context: MigrationContext = {
+      version: migration.version,
+      reportCorrupt: (entry) => {
+        corrupt.push({ ...entry, migration: migration.version, detectedAt: new Date().toISOString() });
+      }
+    };
+
+    try {
+      await migration.migrate(context);
+
+      // Corrupt entries are set aside rather than thrown away
+      if (corrupt.length > 0) {
+        const quarantined = await getCorruptEntries();
+        await localforage.setItem(STORAGE_KEYS.CORRUPT_ENTRIES, [...quarantined, ...corrupt]);
+        console.warn(`Migration ${migration.version} set aside ${corrupt.length} corrupt entries:`, corrupt);
+      }
+
+      await localforage.setItem(STORAGE_KEYS.SCHEMA_VERSION, migration.version);
+      report.applied.push(migration.version);
+      report.toVersion = migration.version;
+      report.corrupt.push(...corrupt);
+    } catch (error) {
+      // Stop here; the failed step will be retried on the next start
+      console.error(`Migration ${migration.version} (${migration.description}) failed:`, error);
+      report.error = error instanceof Error ? error.message : String(error);
+      break;
+    }
+  }
+
+  return report;
+}
+
+export async function getCorruptEntries(): Promise<CorruptEntry[]> {
+  try {
+    return await localforage.getItem<CorruptEntry[]>(STORAGE_KEYS.CORRUPT_ENTRIES) || [];
+  } catch (error) {
+    console.error('Failed to get corrupt entries:', error);
+    return [];
+  }
+}
+
+export async function clearCorruptEntries(): Promise<void> {
+  await localforage.removeItem(STORAGE_KEYS.CORRUPT_ENTRIES);
+}
@@ -0,0 +1,73 @@
+import { consumetMirrors } from './manga/providers/mirrors';
+import { MANGADEX_API_URL } from './manga/providers/mangadex';
+
+// Must match the cache names used in public/sw.js
+const CACHE_PREFIX = 'solo-toon-';
+const RUNTIME_CACHES = [`${CACHE_PREFIX}api`, `${CACHE_PREFIX}images`];
+
+let registeredUrl: string | null = null;
+
+// API origins are passed to the worker in its script URL
+function getServiceWorkerUrl(): string {
+  const origins = new Set([...consumetMirrors.getMirrors(), MANGADEX_API_URL].map(url => new URL(url).origin));
+  const api = Array.from(origins).map(origin => `api=${encodeURIComponent(origin)}`);
+  return `/sw.js?${api.join('&')}`;
+}
+
+export function registerServiceWorker(): void {
+  // The dev server serves unbundled modules that must never be cached
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const register = () => {
+    const url = getServiceWorkerUrl();
+    if (url === registeredUrl) return;
+
+    registeredUrl = url;
+    navigator.serviceWorker.register(url).catch(error => {
+      console.error('Failed to register service worker:', error);
+    });
+  };
+
+  if (document.readyState === 'complete') {
+    register();
+  } else {
+    window.addEventListener('load', register, { once: true });
+  }
+
+  // A different script URL installs an updated worker that knows the new mirrors
+  consumetMirrors.subscribe(() => {
+    if (registeredUrl) register();
+  });
+}
+
+// Total size of the service worker caches. Opaque cross-origin responses
+// report no size, so this is a lower bound.
+export async function getCacheSize(): Promise<number> {
+  if (!('caches' in window)) return 0;
+
+  try {
+    let totalSize = 0;
+    const names = (await caches.keys()).filter(name => name.startsWith(CACHE_PREFIX));
+
+    for (const name of names) {
+      const cache = await caches.open(name);
+      for (const request of await cache.keys()) {
+        const response = await cache.match(request);
+        if (response && response.type !== 'opaque') {
+          totalSize += (await response.blob()).size;
+        }
+      }
+    }
+
+    return totalSize;
+  } catch (error) {
+    console.error('Failed to get cache size:', error);
+    return 0;
+  }
+}
+
+// Drops cached API responses and images; the app shell stays available offline
+export async function clearRuntimeCaches(): Promise<void> {
+  if (!('caches' in window)) return;
+  await Promise.all(RUNTIME_CACHES.map(name => caches.delete(name)));
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+// Validation schemas for records persisted in localforage
+export const LibrarySeriesSchema = z.object({
+  source: z.enum(['jikan', 'custom', 'consumet']),
+  seriesId: z.string().min(1),
+  title: z.string(),
+  coverUrl: z.string(),
+  lang: z.string(),
+  addedAt: z.string(),
+  lastReadAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  status: z.enum(['reading', 'completed', 'plan-to-read', 'dropped']),
+  provider: z.string().optional(),
+  providerId: z.string().optional()
+});
+
+export const ReadingProgressSchema = z.object({
+  seriesId: z.string().min(1),
+  provider: z.string().optional(),
+  chapterId: z.string().min(1),
+  lastPage: z.number().int().min(0),
+  totalPages: z.number().int().min(0),
+  percent: z.number().min(0).max(100),
+  read: z.boolean(),
+  completedAt: z.string().optional(),
+  updatedAt: z.string()
+});
+
+export const CurrentChapterSchema = z.object({
+  seriesId: z.string().min(1),
+  provider: z.string().optional(),
+  chapterId: z.string().min(1),
+  updatedAt: z.string()
+});
+
+export const AppSettingsSchema = z.object({
+  dataSaver: z.boolean(),
+  prefetchCount: z.number().int().min(1).max(10),
+  preferredLanguage: z.string().min(1),
+  theme: z.enum(['light', 'dark', 'system']),
+  readerMode: z.enum(['webtoon', 'pages']),
+  autoSync: z.boolean(),
+  syncInterval: z.number().positive()
+});
+
+export const SeriesLinkTableSchema = z.object({
+  links: z.array(z.object({
+    primary: z.string().min(1),
+    members: z.array(z.string().min(1))
+  })),
+  splits: z.array(z.tuple([z.string().min(1), z.string().min(1)]).transform(([a, b]): [string, string] => [a, b])),
+  updatedAt: z.string().optional()
+});
+
+export const SyncDataSchema = z.object({
+  library: z.array(LibrarySeriesSchema),
+  progress: z.record(z.string(), ReadingProgressSchema),
+  currentChapters: z.record(z.string(), CurrentChapterSchema),
+  settings: AppSettingsSchema,
+  seriesLinks: SeriesLinkTableSchema.optional(),
+  lastSync: z.string()
+});
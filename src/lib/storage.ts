@@ -1,8 +1,13 @@
 import localforage from 'localforage';
-import { LibrarySeries, ReadingProgress, AppSettings, SyncData } from '@/types/manga';
+import { LibrarySeries, ReadingProgress, CurrentChapter, AppSettings, SyncData } from '@/types/manga';
+import type { SyncConfig } from './sync/backend';
+import type { ProviderPreferences } from './manga/providers/registry';
+import type { SourceDefinition } from './manga/sources/definition';
+import type { Manga } from './manga/schema';
+import type { SeriesLinkTable } from './manga/links';
 
 // Re-export types for convenience
-export type { AppSettings, LibrarySeries, ReadingProgress, SyncData };
+export type { AppSettings, LibrarySeries, ReadingProgress, CurrentChapter, SyncData };
 
 // Configure localforage
 localforage.config({
@@ -13,12 +18,22 @@ localforage.config({
 });
 
 // Storage keys
-const STORAGE_KEYS = {
+export const STORAGE_KEYS = {
   LIBRARY: 'library',
-  PROGRESS: 'progress',
+  LEGACY_PROGRESS: 'progress',
+  CHAPTER_PROGRESS: 'chapterProgress',
+  CURRENT_CHAPTERS: 'currentChapters',
   SETTINGS: 'settings',
-  CHAPTERS_CACHE: 'chaptersCache',
-  LAST_SYNC: 'lastSync'
+  LAST_SYNC: 'lastSync',
+  SYNC_VERSION: 'syncVersion',
+  SCHEMA_VERSION: 'schemaVersion',
+  CORRUPT_ENTRIES: 'corruptEntries',
+  IMPORT_REVIEW_QUEUE: 'importReviewQueue',
+  SYNC_CONFIG: 'syncConfig',
+  PROVIDER_PREFERENCES: 'providerPreferences',
+  SOURCE_DEFINITIONS: 'sourceDefinitions',
+  CONSUMET_MIRRORS: 'consumetMirrors',
+  SERIES_LINKS: 'seriesLinks'
 } as const;
 
 // Default settings
@@ -51,51 +66,104 @@ export async function saveLibrary(library: LibrarySeries[]): Promise<void> {
   }
 }
 
+// Library entry for a series found through the providers; local imports are 'custom' entries
+export function toLibrarySeries(
+  manga: Manga,
+  status: LibrarySeries['status'] = 'plan-to-read'
+): Omit<LibrarySeries, 'addedAt'> {
+  return {
+    source: manga.provider === 'local' ? 'custom' : 'consumet',
+    seriesId: manga.providerId,
+    title: manga.title,
+    coverUrl: manga.cover,
+    lang: 'en',
+    status,
+    provider: manga.provider,
+    providerId: manga.providerId
+  };
+}
+
+// provider:id of a library entry; entries saved before providers were recorded use their source
+export function libraryGlobalId(series: Pick<LibrarySeries, 'provider' | 'source' | 'seriesId'>): string {
+  return `${series.provider || series.source}:${series.seriesId}`;
+}
+
+// provider:id a current chapter pointer is filed under; pointers saved before
+// providers were recorded only have the series id
+export function currentChapterKey(entry: Pick<CurrentChapter, 'provider' | 'seriesId'>): string {
+  return entry.provider ? `${entry.provider}:${entry.seriesId}` : entry.seriesId;
+}
+
+// Progress of a library entry in the result of getCurrentProgress
+export function findSeriesProgress(
+  progress: Record<string, ReadingProgress>,
+  series: LibrarySeries
+): ReadingProgress | undefined {
+  return progress[libraryGlobalId(series)] || progress[series.seriesId];
+}
+
+// Whether progress belongs to the series with the given provider:id
+function isProgressOf(entry: ReadingProgress | CurrentChapter, globalId: string): boolean {
+  return entry.provider
+    ? currentChapterKey(entry) === globalId
+    : entry.seriesId === globalId.split(':')[1];
+}
+
 export async function addToLibrary(series: Omit<LibrarySeries, 'addedAt'>): Promise<void> {
   const library = await getLibrary();
-  const exists = library.find(s => s.seriesId === series.seriesId && s.source === series.source);
+  const exists = library.find(s => libraryGlobalId(s) === libraryGlobalId(series));
   
   if (!exists) {
+    const now = new Date().toISOString();
     const newSeries: LibrarySeries = {
       ...series,
-      addedAt: new Date().toISOString()
+      addedAt: now,
+      updatedAt: now
     };
     library.push(newSeries);
     await saveLibrary(library);
   }
 }
 
-export async function removeFromLibrary(source: string, seriesId: string): Promise<void> {
+// Series are given as provider:id (see libraryGlobalId)
+export async function removeFromLibrary(globalId: string): Promise<void> {
   const library = await getLibrary();
-  const filtered = library.filter(s => !(s.seriesId === seriesId && s.source === source));
+  const filtered = library.filter(s => libraryGlobalId(s) !== globalId);
   await saveLibrary(filtered);
   
   // Also remove related progress
-  const allProgress = await getProgress();
+  const [allProgress, currentChapters] = await Promise.all([getProgress(), getCurrentChapters()]);
   const updatedProgress = Object.fromEntries(
-    Object.entries(allProgress).filter(([_, progress]) => progress.seriesId !== seriesId)
+    Object.entries(allProgress).filter(([_, progress]) => !isProgressOf(progress, globalId))
+  );
+  const updatedCurrent = Object.fromEntries(
+    Object.entries(currentChapters).filter(([_, current]) => !isProgressOf(current, globalId))
   );
-  await saveProgress(updatedProgress);
+  await Promise.all([saveProgress(updatedProgress), saveCurrentChapters(updatedCurrent)]);
 }
 
 export async function updateSeriesStatus(
-  seriesId: string, 
-  source: string, 
+  globalId: string,
   status: LibrarySeries['status']
 ): Promise<void> {
   const library = await getLibrary();
-  const series = library.find(s => s.seriesId === seriesId && s.source === source);
+  const series = library.find(s => libraryGlobalId(s) === globalId);
   
   if (series) {
     series.status = status;
+    series.updatedAt = new Date().toISOString();
     await saveLibrary(library);
   }
 }
 
 // Progress operations
+// Progress is stored per chapter (keyed by chapter ID), with a separate
+// pointer per series (keyed by provider:seriesId) to the chapter being read.
+
+// All chapter progress, keyed by chapter ID
 export async function getProgress(): Promise<Record<string, ReadingProgress>> {
   try {
-    return await localforage.getItem(STORAGE_KEYS.PROGRESS) || {};
+    return await localforage.getItem(STORAGE_KEYS.CHAPTER_PROGRESS) || {};
   } catch (error) {
     console.error('Failed to get progress:', error);
     return {};
@@ -104,58 +172,113 @@ export async function getProgress(): Promise<Record<string, ReadingProgress>> {
 
 export async function saveProgress(progress: Record<string, ReadingProgress>): Promise<void> {
   try {
-    await localforage.setItem(STORAGE_KEYS.PROGRESS, progress);
+    await localforage.setItem(STORAGE_KEYS.CHAPTER_PROGRESS, progress);
   } catch (error) {
     console.error('Failed to save progress:', error);
     throw error;
   }
 }
 
+// Current chapter pointers, keyed by currentChapterKey
+export async function getCurrentChapters(): Promise<Record<string, CurrentChapter>> {
+  try {
+    return await localforage.getItem(STORAGE_KEYS.CURRENT_CHAPTERS) || {};
+  } catch (error) {
+    console.error('Failed to get current chapters:', error);
+    return {};
+  }
+}
+
+export async function saveCurrentChapters(currentChapters: Record<string, CurrentChapter>): Promise<void> {
+  try {
+    await localforage.setItem(STORAGE_KEYS.CURRENT_CHAPTERS, currentChapters);
+  } catch (error) {
+    console.error('Failed to save current chapters:', error);
+    throw error;
+  }
+}
+
 export async function updateProgress(
   seriesId: string,
   chapterId: string,
   page: number,
-  totalPages: number
+  totalPages: number,
+  provider?: string
 ): Promise<void> {
-  const progress = await getProgress();
+  const [progress, currentChapters] = await Promise.all([getProgress(), getCurrentChapters()]);
+  const now = new Date().toISOString();
   const percent = Math.round((page / totalPages) * 100);
-  
-  progress[seriesId] = {
+  const previous = progress[chapterId];
+  const finished = page >= totalPages;
+
+  progress[chapterId] = {
     seriesId,
+    provider,
     chapterId,
     lastPage: page,
     totalPages,
     percent,
-    updatedAt: new Date().toISOString()
+    read: previous?.read || finished,
+    completedAt: previous?.completedAt || (finished ? now : undefined),
+    updatedAt: now
   };
+  const current: CurrentChapter = { seriesId, provider, chapterId, updatedAt: now };
+  // Replaces the pointer of this series still filed under the bare series id
+  const stale = currentChapters[seriesId];
+  if (provider && stale && (!stale.provider || stale.provider === provider)) {
+    delete currentChapters[seriesId];
+  }
+  currentChapters[currentChapterKey(current)] = current;
+
+  await Promise.all([saveProgress(progress), saveCurrentChapters(currentChapters)]);
   
-  await saveProgress(progress);
-  
-  // Update last read time in library
+  // Update last read time in library; ids of different providers can be equal
   const library = await getLibrary();
-  const series = library.find(s => s.seriesId === seriesId);
+  const series = library.find(s => provider ? libraryGlobalId(s) === `${provider}:${seriesId}` : s.seriesId === seriesId);
   if (series) {
-    series.lastReadAt = new Date().toISOString();
-    if (percent >= 100 && series.status === 'reading') {
-      series.status = 'completed';
-    } else if (series.status === 'plan-to-read') {
+    series.lastReadAt = now;
+    if (series.status === 'plan-to-read') {
       series.status = 'reading';
+      series.updatedAt = now;
     }
     await saveLibrary(library);
   }
 }
 
-export async function getSeriesProgress(seriesId: string): Promise<ReadingProgress | null> {
+export async function getChapterProgress(chapterId: string): Promise<ReadingProgress | null> {
   const progress = await getProgress();
-  return progress[seriesId] || null;
+  return progress[chapterId] || null;
 }
 
-export async function getReadingProgress(seriesId: string): Promise<Record<string, ReadingProgress>> {
+// Progress of the chapter each series is currently at, keyed by currentChapterKey;
+// look series up with findSeriesProgress
+export async function getCurrentProgress(): Promise<Record<string, ReadingProgress>> {
+  const [progress, currentChapters] = await Promise.all([getProgress(), getCurrentChapters()]);
+  const currentProgress: Record<string, ReadingProgress> = {};
+
+  Object.values(currentChapters).forEach(current => {
+    const chapterProgress = progress[current.chapterId];
+    if (chapterProgress) {
+      currentProgress[currentChapterKey(current)] = chapterProgress;
+    }
+  });
+
+  return currentProgress;
+}
+
+export async function getSeriesProgress(series: LibrarySeries): Promise<ReadingProgress | null> {
+  const currentProgress = await getCurrentProgress();
+  return findSeriesProgress(currentProgress, series) || null;
+}
+
+// All chapter progress of one series, keyed by chapter ID. Progress saved
+// before providers were recorded matches on the series id alone.
+export async function getReadingProgress(seriesId: string, provider?: string): Promise<Record<string, ReadingProgress>> {
   const allProgress = await getProgress();
   const seriesProgress: Record<string, ReadingProgress> = {};
   
   Object.values(allProgress).forEach(progress => {
-    if (progress.seriesId === seriesId) {
+    if (progress.seriesId === seriesId && (!provider || !progress.provider || progress.provider === provider)) {
       seriesProgress[progress.chapterId] = progress;
     }
   });
@@ -163,13 +286,42 @@ export async function getReadingProgress(seriesId: string): Promise<Record<strin
   return seriesProgress;
 }
 
+// Files the progress of some series under another one, e.g. when the primary
+// source of linked series changes. Series are given as provider:id; progress
+// saved before providers were recorded only has the series id to go on.
+// The most recent current chapter is kept.
+export async function moveSeriesProgress(fromGlobalIds: string[], toGlobalId: string): Promise<void> {
+  const moved = new Set(fromGlobalIds.filter(globalId => globalId !== toGlobalId));
+  if (moved.size === 0) return;
+
+  const [provider, seriesId] = toGlobalId.split(':');
+  const movedIds = new Set(Array.from(moved).map(globalId => globalId.split(':')[1]));
+  const isMoved = (entry: ReadingProgress | CurrentChapter) => entry.provider
+    ? moved.has(`${entry.provider}:${entry.seriesId}`)
+    : movedIds.has(entry.seriesId);
+
+  const [progress, currentChapters] = await Promise.all([getProgress(), getCurrentChapters()]);
+  Object.values(progress).forEach(chapterProgress => {
+    if (isMoved(chapterProgress)) Object.assign(chapterProgress, { seriesId, provider });
+  });
+
+  const pointers = Object.entries(currentChapters)
+    .filter(([_, pointer]) => isMoved(pointer) || isProgressOf(pointer, toGlobalId))
+    .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt));
+  pointers.forEach(([key]) => delete currentChapters[key]);
+  if (pointers[0]) currentChapters[toGlobalId] = { ...pointers[0][1], seriesId, provider };
+
+  await Promise.all([saveProgress(progress), saveCurrentChapters(currentChapters)]);
+}
+
 export async function updateReadingProgress(
   seriesId: string,
   chapterId: string,
   page: number,
-  totalPages: number
+  totalPages: number,
+  provider?: string
 ): Promise<void> {
-  return updateProgress(seriesId, chapterId, page, totalPages);
+  return updateProgress(seriesId, chapterId, page, totalPages, provider);
 }
 
 // Settings operations
@@ -203,29 +355,163 @@ export async function updateSetting<K extends keyof AppSettings>(
 
 // Sync operations
 export async function getSyncData(): Promise<SyncData> {
-  const [library, progress, settings] = await Promise.all([
+  const [library, progress, currentChapters, settings, seriesLinks] = await Promise.all([
     getLibrary(),
     getProgress(),
-    getSettings()
+    getCurrentChapters(),
+    getSettings(),
+    getSeriesLinks()
   ]);
   
   return {
     library,
     progress,
+    currentChapters,
     settings,
+    seriesLinks: seriesLinks || { links: [], splits: [] },
     lastSync: new Date().toISOString()
   };
 }
 
+// Series links are saved but not loaded; callers reload them with loadSeriesLinks
 export async function applySyncData(syncData: SyncData): Promise<void> {
   await Promise.all([
     saveLibrary(syncData.library),
     saveProgress(syncData.progress),
+    saveCurrentChapters(syncData.currentChapters || {}),
     saveSettings(syncData.settings),
+    syncData.seriesLinks && saveSeriesLinks(syncData.seriesLinks),
     localforage.setItem(STORAGE_KEYS.LAST_SYNC, syncData.lastSync)
   ]);
 }
 
+export async function getLastSync(): Promise<string | null> {
+  try {
+    return await localforage.getItem<string>(STORAGE_KEYS.LAST_SYNC);
+  } catch (error) {
+    console.error('Failed to get last sync time:', error);
+    return null;
+  }
+}
+
+// Version of the server copy at the last sync, to tell whether it changed since
+export async function getSyncVersion(): Promise<string | null> {
+  try {
+    return await localforage.getItem<string>(STORAGE_KEYS.SYNC_VERSION);
+  } catch (error) {
+    console.error('Failed to get sync version:', error);
+    return null;
+  }
+}
+
+// Records a finished sync without touching the synced data
+export async function saveSyncState(lastSync: string, version: string | null): Promise<void> {
+  await Promise.all([
+    localforage.setItem(STORAGE_KEYS.LAST_SYNC, lastSync),
+    version
+      ? localforage.setItem(STORAGE_KEYS.SYNC_VERSION, version)
+      : localforage.removeItem(STORAGE_KEYS.SYNC_VERSION)
+  ]);
+}
+
+// Kept out of SyncData so credentials never end up in backups or on the server
+export async function getSyncConfig(): Promise<SyncConfig | null> {
+  try {
+    return await localforage.getItem<SyncConfig>(STORAGE_KEYS.SYNC_CONFIG);
+  } catch (error) {
+    console.error('Failed to get sync config:', error);
+    return null;
+  }
+}
+
+export async function saveSyncConfig(config: SyncConfig | null): Promise<void> {
+  try {
+    if (config) {
+      await localforage.setItem(STORAGE_KEYS.SYNC_CONFIG, config);
+    } else {
+      await localforage.removeItem(STORAGE_KEYS.SYNC_CONFIG);
+    }
+    // A version only means something on the server it came from
+    await localforage.removeItem(STORAGE_KEYS.SYNC_VERSION);
+  } catch (error) {
+    console.error('Failed to save sync config:', error);
+    throw error;
+  }
+}
+
+export async function getProviderPreferences(): Promise<ProviderPreferences | null> {
+  try {
+    return await localforage.getItem<ProviderPreferences>(STORAGE_KEYS.PROVIDER_PREFERENCES);
+  } catch (error) {
+    console.error('Failed to get provider preferences:', error);
+    return null;
+  }
+}
+
+export async function saveProviderPreferences(preferences: ProviderPreferences): Promise<void> {
+  try {
+    await localforage.setItem(STORAGE_KEYS.PROVIDER_PREFERENCES, preferences);
+  } catch (error) {
+    console.error('Failed to save provider preferences:', error);
+    throw error;
+  }
+}
+
+// Stored as imported; re-validated when they are registered
+export async function getSourceDefinitions(): Promise<unknown[]> {
+  try {
+    return await localforage.getItem<unknown[]>(STORAGE_KEYS.SOURCE_DEFINITIONS) || [];
+  } catch (error) {
+    console.error('Failed to get source definitions:', error);
+    return [];
+  }
+}
+
+export async function saveSourceDefinitions(definitions: SourceDefinition[]): Promise<void> {
+  try {
+    await localforage.setItem(STORAGE_KEYS.SOURCE_DEFINITIONS, definitions);
+  } catch (error) {
+    console.error('Failed to save source definitions:', error);
+    throw error;
+  }
+}
+
+export async function getConsumetMirrors(): Promise<string[] | null> {
+  try {
+    return await localforage.getItem<string[]>(STORAGE_KEYS.CONSUMET_MIRRORS);
+  } catch (error) {
+    console.error('Failed to get Consumet mirrors:', error);
+    return null;
+  }
+}
+
+export async function saveConsumetMirrors(mirrors: string[]): Promise<void> {
+  try {
+    await localforage.setItem(STORAGE_KEYS.CONSUMET_MIRRORS, mirrors);
+  } catch (error) {
+    console.error('Failed to save Consumet mirrors:', error);
+    throw error;
+  }
+}
+
+export async function getSeriesLinks(): Promise<SeriesLinkTable | null> {
+  try {
+    return await localforage.getItem<SeriesLinkTable>(STORAGE_KEYS.SERIES_LINKS);
+  } catch (error) {
+    console.error('Failed to get series links:', error);
+    return null;
+  }
+}
+
+export async function saveSeriesLinks(table: SeriesLinkTable): Promise<void> {
+  try {
+    await localforage.setItem(STORAGE_KEYS.SERIES_LINKS, table);
+  } catch (error) {
+    console.error('Failed to save series links:', error);
+    throw error;
+  }
+}
+
 // Utility functions
 export async function clearAllData(): Promise<void> {
   await localforage.clear();
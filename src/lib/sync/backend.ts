@@ -0,0 +1,42 @@
+import { SyncData } from '@/types/manga';
+
+// The server copy and the version the server gave it (an ETag), null when
+// the server does not report one
+export interface RemoteSyncData {
+  data: SyncData;
+  version: string | null;
+}
+
+// Remote storage for one copy of the app data
+export interface SyncBackend {
+  id: string;
+
+  // With `ifVersion` the upload only succeeds while the server copy is still
+  // that version, or does not exist yet when it is null; otherwise it fails
+  // with CONFLICT. Returns the new version when the server reports it.
+  push(data: SyncData, ifVersion?: string | null): Promise<string | null>;
+  pull(): Promise<RemoteSyncData | null>; // null when nothing has been pushed yet
+  version(): Promise<string | null>; // null when nothing has been pushed yet or unknown
+  lastModified(): Promise<string | null>; // ISO date by the server clock, null when unknown
+}
+
+export interface HttpSyncConfig {
+  type: 'http';
+  url: string; // full URL of the sync file, e.g. https://dav.example.com/solo-toon/sync.json
+  username?: string;
+  password?: string;
+}
+
+export type SyncConfig = HttpSyncConfig;
+
+export class SyncError extends Error {
+  public code: string;
+  public status?: number;
+
+  constructor(code: string, status?: number, message?: string) {
+    super(message || `Sync error: ${code}`);
+    this.name = 'SyncError';
+    this.code = code;
+    this.status = status;
+  }
+}
@@ -0,0 +1,199 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HttpSyncBackend } from './http';
+import { SyncError } from './backend';
+import { SyncData } from '@/types/manga';
+
+const USERNAME = 'reader';
+const PASSWORD = 'secret';
+
+// A stand-in for a WebDAV server: one file in one folder, ETags, conditional PUT,
+// MKCOL and basic auth
+interface StoredFile {
+  body: string;
+  etag: string;
+  modified: Date;
+}
+
+let file: StoredFile | null = null;
+let folderExists = true;
+let methods: string[] = [];
+let revision = 0;
+let server: Server;
+let baseUrl: string;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+  if (req.headers.authorization !== expected) {
+    res.writeHead(401).end();
+    return;
+  }
+  methods.push(req.method!);
+  if (req.method === 'MKCOL' && req.url === '/sync/') {
+    res.writeHead(folderExists ? 405 : 201).end();
+    folderExists = true;
+    return;
+  }
+  if (req.url !== '/sync/sync.json') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'ETag': file.etag,
+      'Last-Modified': file.modified.toUTCString()
+    });
+    res.end(req.method === 'GET' ? file.body : undefined);
+    return;
+  }
+
+  if (req.method === 'PUT') {
+    const body = await readBody(req);
+    if (!folderExists) {
+      res.writeHead(409).end();
+      return;
+    }
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if ((ifMatch && ifMatch !== file?.etag) || (ifNoneMatch === '*' && file)) {
+      res.writeHead(412).end();
+      return;
+    }
+    file = { body, etag: `"${++revision}"`, modified: new Date(Date.UTC(2024, 0, 1, 12, 0, revision)) };
+    res.writeHead(201, { 'ETag': file.etag }).end();
+    return;
+  }
+
+  res.writeHead(405).end();
+}
+
+function createData(chapterId: string): SyncData {
+  const now = new Date().toISOString();
+  return {
+    library: [],
+    progress: {
+      [chapterId]: { seriesId: 'series-1', chapterId, lastPage: 3, totalPages: 20, percent: 15, read: false, updatedAt: now }
+    },
+    currentChapters: {},
+    settings: {
+      dataSaver: false,
+      prefetchCount: 3,
+      preferredLanguage: 'en',
+      theme: 'system',
+      readerMode: 'webtoon',
+      autoSync: false,
+      syncInterval: 12 * 60 * 60 * 1000
+    },
+    lastSync: now
+  };
+}
+
+function createBackend(password = PASSWORD) {
+  return new HttpSyncBackend({ type: 'http', url: `${baseUrl}/sync/sync.json`, username: USERNAME, password });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    handle(req, res).catch(() => res.writeHead(500).end());
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  file = null;
+  folderExists = true;
+  methods = [];
+});
+
+describe('HttpSyncBackend', () => {
+  it('reports nothing before the first sync', async () => {
+    const backend = createBackend();
+    await expect(backend.pull()).resolves.toBeNull();
+    await expect(backend.version()).resolves.toBeNull();
+    await expect(backend.lastModified()).resolves.toBeNull();
+  });
+
+  it('pulls back what it pushed, with the version the server gave it', async () => {
+    const backend = createBackend();
+    const data = createData('mangadex:chapter-1');
+
+    const version = await backend.push(data, null);
+    expect(version).toBe(file?.etag);
+
+    const remote = await backend.pull();
+    expect(remote?.data).toEqual(data);
+    expect(remote?.version).toBe(version);
+    await expect(backend.version()).resolves.toBe(version);
+  });
+
+  it('reads the last modified date from the server', async () => {
+    const backend = createBackend();
+    await backend.push(createData('mangadex:chapter-1'));
+
+    await expect(backend.lastModified()).resolves.toBe(file!.modified.toISOString());
+  });
+
+  it('only overwrites the version it expects', async () => {
+    const backend = createBackend();
+    const first = await backend.push(createData('mangadex:chapter-1'), null);
+    await backend.push(createData('mangadex:chapter-2'), first);
+
+    const error = await backend.push(createData('mangadex:chapter-3'), first).catch(e => e);
+    expect(error).toBeInstanceOf(SyncError);
+    expect(error.code).toBe('CONFLICT');
+
+    const created = await backend.push(createData('mangadex:chapter-4'), null).catch(e => e);
+    expect(created.code).toBe('CONFLICT');
+
+    expect(Object.keys((await backend.pull())!.data.progress)).toEqual(['mangadex:chapter-2']);
+  });
+
+  it('creates the folder when the server has none yet', async () => {
+    folderExists = false;
+    const backend = createBackend();
+    const data = createData('mangadex:chapter-1');
+
+    const version = await backend.push(data, null);
+    expect(methods).toEqual(['PUT', 'MKCOL', 'PUT']);
+    expect(version).toBe(file?.etag);
+    expect((await backend.pull())?.data).toEqual(data);
+  });
+
+  it('writes straight away when the folder exists', async () => {
+    await createBackend().push(createData('mangadex:chapter-1'), null);
+
+    expect(methods).toEqual(['PUT']);
+  });
+
+  it('fails with UNAUTHORIZED when the credentials are rejected', async () => {
+    const backend = createBackend('wrong');
+
+    for (const request of [() => backend.pull(), () => backend.push(createData('a')), () => backend.version()]) {
+      const error = await request().catch(e => e);
+      expect(error).toBeInstanceOf(SyncError);
+      expect(error.code).toBe('UNAUTHORIZED');
+      expect(error.status).toBe(401);
+    }
+  });
+});
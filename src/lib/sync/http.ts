@@ -0,0 +1,102 @@
+import { SyncBackend, HttpSyncConfig, SyncError, RemoteSyncData } from './backend';
+import { SyncDataSchema } from '../storage-schema';
+import { SyncData } from '@/types/manga';
+
+// Stores the sync data as a single JSON file. Needs nothing beyond GET, PUT
+// and HEAD, so it works with WebDAV servers and plain HTTP file stores alike.
+// Versions are the server's ETags, so uploads can be made conditional.
+export class HttpSyncBackend implements SyncBackend {
+  id = 'http';
+  private config: HttpSyncConfig;
+
+  constructor(config: HttpSyncConfig) {
+    this.config = config;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.config.username) {
+      headers['Authorization'] = `Basic ${btoa(`${this.config.username}:${this.config.password || ''}`)}`;
+    }
+    return headers;
+  }
+
+  private async request(method: string, init: RequestInit = {}, url = this.config.url): Promise<Response> {
+    try {
+      return await fetch(url, {
+        ...init,
+        method,
+        cache: 'no-store',
+        headers: { ...this.getHeaders(), ...(init.headers as Record<string, string>) }
+      });
+    } catch (error) {
+      throw new SyncError('NETWORK_ERROR', undefined, error instanceof Error ? error.message : 'Network error');
+    }
+  }
+
+  private assertOk(response: Response): void {
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('UNAUTHORIZED', response.status, 'The sync server rejected the credentials');
+    }
+    if (response.status === 412) {
+      throw new SyncError('CONFLICT', response.status, 'The sync file changed on the server');
+    }
+    if (!response.ok) {
+      throw new SyncError('HTTP_ERROR', response.status, `HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  async pull(): Promise<RemoteSyncData | null> {
+    const response = await this.request('GET', { headers: { 'Accept': 'application/json' } });
+    if (response.status === 404) return null;
+    this.assertOk(response);
+
+    const result = SyncDataSchema.safeParse(await response.json().catch(() => null));
+    if (!result.success) {
+      throw new SyncError('INVALID_DATA', response.status, 'The sync file on the server is not valid');
+    }
+    return { data: result.data, version: response.headers.get('ETag') };
+  }
+
+  async push(data: SyncData, ifVersion?: string | null): Promise<string | null> {
+    const body = JSON.stringify(data);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (ifVersion) {
+      headers['If-Match'] = ifVersion;
+    } else if (ifVersion === null) {
+      headers['If-None-Match'] = '*';
+    }
+    const init = { body, headers };
+
+    let response = await this.request('PUT', init);
+
+    // WebDAV answers 409 when the parent collection does not exist yet
+    if (response.status === 409) {
+      const parentUrl = new URL('.', this.config.url).toString();
+      const created = await this.request('MKCOL', {}, parentUrl);
+      if (created.ok || created.status === 405) {
+        response = await this.request('PUT', init);
+      }
+    }
+
+    this.assertOk(response);
+    return response.headers.get('ETag');
+  }
+
+  async version(): Promise<string | null> {
+    const response = await this.request('HEAD');
+    if (response.status === 404) return null;
+    this.assertOk(response);
+    return response.headers.get('ETag');
+  }
+
+  async lastModified(): Promise<string | null> {
+    const response = await this.request('HEAD');
+    if (response.status === 404) return null;
+    this.assertOk(response);
+
+    const header = response.headers.get('Last-Modified');
+    const date = header ? new Date(header) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+  }
+}
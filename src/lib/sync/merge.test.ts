@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSyncData } from './merge';
+import { CurrentChapter, LibrarySeries, ReadingProgress, SyncData } from '@/types/manga';
+import type { SeriesLinkTable } from '../manga/links';
+
+const LAST_SYNC = '2024-03-01T00:00:00.000Z';
+const BEFORE = '2024-02-01T00:00:00.000Z';
+const AFTER = '2024-03-02T00:00:00.000Z';
+const LATER = '2024-03-03T00:00:00.000Z';
+
+function series(seriesId: string, fields: Partial<LibrarySeries> = {}): LibrarySeries {
+  return {
+    source: 'consumet',
+    seriesId,
+    title: seriesId,
+    coverUrl: '',
+    lang: 'en',
+    addedAt: BEFORE,
+    status: 'reading',
+    provider: 'mangadex',
+    providerId: seriesId,
+    ...fields
+  };
+}
+
+function progress(chapterId: string, fields: Partial<ReadingProgress> = {}): ReadingProgress {
+  return {
+    seriesId: 'one-piece',
+    provider: 'mangadex',
+    chapterId,
+    lastPage: 1,
+    totalPages: 20,
+    percent: 5,
+    read: false,
+    updatedAt: BEFORE,
+    ...fields
+  };
+}
+
+function current(chapterId: string, updatedAt: string, fields: Partial<CurrentChapter> = {}): CurrentChapter {
+  return { seriesId: 'one-piece', provider: 'mangadex', chapterId, updatedAt, ...fields };
+}
+
+function links(primary: string, updatedAt: string): SeriesLinkTable {
+  return { links: [{ primary, members: ['mangadex:one-piece', 'comick:one-piece'] }], splits: [], updatedAt };
+}
+
+function data(fields: Partial<SyncData> = {}): SyncData {
+  return {
+    library: [],
+    progress: {},
+    currentChapters: {},
+    settings: {
+      dataSaver: false,
+      prefetchCount: 3,
+      preferredLanguage: 'en',
+      theme: 'system',
+      readerMode: 'webtoon',
+      autoSync: false,
+      syncInterval: 12 * 60 * 60 * 1000
+    },
+    lastSync: LAST_SYNC,
+    ...fields
+  };
+}
+
+describe('mergeSyncData', () => {
+  it('keeps the copy of a series edited last on either side', () => {
+    const local = data({ library: [series('one-piece', { status: 'dropped', updatedAt: AFTER, lastReadAt: LATER })] });
+    const incoming = data({
+      library: [series('one-piece', { status: 'completed', updatedAt: LATER, lastReadAt: AFTER, addedAt: '2024-01-01T00:00:00.000Z' })]
+    });
+
+    const [merged] = mergeSyncData(local, incoming, LAST_SYNC).library;
+    expect(merged.status).toBe('completed');
+    expect(merged.addedAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(merged.lastReadAt).toBe(LATER);
+  });
+
+  it('keeps series of different providers with the same id apart', () => {
+    const local = data({ library: [series('one-piece')] });
+    const incoming = data({ library: [series('one-piece', { provider: 'comick' })] });
+
+    expect(mergeSyncData(local, incoming).library.map(entry => entry.provider)).toEqual(['mangadex', 'comick']);
+  });
+
+  it('drops series deleted on one side since the last sync', () => {
+    const local = data({ library: [series('one-piece'), series('berserk')] });
+    const incoming = data({ library: [series('berserk')] });
+
+    expect(mergeSyncData(local, incoming, LAST_SYNC).library.map(entry => entry.seriesId)).toEqual(['berserk']);
+    expect(mergeSyncData(incoming, local, LAST_SYNC).library.map(entry => entry.seriesId)).toEqual(['berserk']);
+  });
+
+  it('keeps a series edited on one side after the other deleted it', () => {
+    const local = data({ library: [series('one-piece', { status: 'completed', updatedAt: AFTER })] });
+    const incoming = data();
+
+    expect(mergeSyncData(local, incoming, LAST_SYNC).library.map(entry => entry.status)).toEqual(['completed']);
+    expect(mergeSyncData(incoming, local, LAST_SYNC).library.map(entry => entry.status)).toEqual(['completed']);
+  });
+
+  it('combines both sides when they were never synced', () => {
+    const local = data({ library: [series('one-piece')], progress: { a: progress('a') } });
+    const incoming = data({ library: [series('berserk')], progress: { b: progress('b') } });
+
+    const merged = mergeSyncData(local, incoming);
+    expect(merged.library.map(entry => entry.seriesId)).toEqual(['one-piece', 'berserk']);
+    expect(Object.keys(merged.progress)).toEqual(['a', 'b']);
+  });
+
+  it('takes the latest progress of a chapter but keeps it read once read on either side', () => {
+    const local = data({
+      progress: { a: progress('a', { lastPage: 20, percent: 100, read: true, completedAt: AFTER, updatedAt: AFTER }) }
+    });
+    const incoming = data({ progress: { a: progress('a', { lastPage: 4, percent: 20, updatedAt: LATER }) } });
+
+    expect(mergeSyncData(local, incoming, LAST_SYNC).progress.a).toMatchObject({
+      lastPage: 4,
+      read: true,
+      completedAt: AFTER,
+      updatedAt: LATER
+    });
+  });
+
+  it('drops progress deleted on one side unless the other side read on since', () => {
+    const local = data({ progress: { old: progress('old'), new: progress('new', { updatedAt: AFTER }) } });
+
+    expect(Object.keys(mergeSyncData(local, data(), LAST_SYNC).progress)).toEqual(['new']);
+  });
+
+  it('points each series at the chapter moved to last', () => {
+    const local = data({ currentChapters: { 'mangadex:one-piece': current('a', LATER) } });
+    const incoming = data({ currentChapters: { 'mangadex:one-piece': current('b', AFTER) } });
+
+    expect(mergeSyncData(local, incoming, LAST_SYNC).currentChapters).toEqual({
+      'mangadex:one-piece': current('a', LATER)
+    });
+  });
+
+  it('matches current chapters synced by older versions under the series id alone', () => {
+    const local = data({ currentChapters: { 'mangadex:one-piece': current('a', AFTER) } });
+    const incoming = data({ currentChapters: { 'one-piece': current('b', LATER) } });
+
+    expect(mergeSyncData(local, incoming, LAST_SYNC).currentChapters).toEqual({
+      'mangadex:one-piece': current('b', LATER)
+    });
+  });
+
+  it('keeps the series links changed last as a whole', () => {
+    const local = data({ seriesLinks: links('mangadex:one-piece', AFTER) });
+    const incoming = data({ seriesLinks: links('comick:one-piece', LATER) });
+
+    expect(mergeSyncData(local, incoming).seriesLinks).toEqual(links('comick:one-piece', LATER));
+    expect(mergeSyncData(incoming, local).seriesLinks).toEqual(links('comick:one-piece', LATER));
+    expect(mergeSyncData(data(), incoming).seriesLinks).toEqual(links('comick:one-piece', LATER));
+  });
+
+  it('keeps the settings of this device', () => {
+    const local = data();
+    const incoming = data({ settings: { ...local.settings, theme: 'dark' } });
+
+    expect(mergeSyncData(local, incoming).settings.theme).toBe('system');
+  });
+});
@@ -0,0 +1,140 @@
+import { LibrarySeries, ReadingProgress, CurrentChapter, SyncData } from '@/types/manga';
+import type { SeriesLinkTable } from '../manga/links';
+import { libraryGlobalId, currentChapterKey } from '../storage';
+
+function newer(a?: string, b?: string): boolean {
+  return new Date(a || 0).getTime() > new Date(b || 0).getTime();
+}
+
+function earliest(a?: string, b?: string): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return newer(a, b) ? b : a;
+}
+
+// An entry found on one side only is new if it changed after the last sync;
+// otherwise it existed then and the other side has since deleted it.
+// Without a previous sync nothing can have been deleted, so it is kept.
+function keepOneSided(changedAt: string | undefined, lastSync: string | null): boolean {
+  return !lastSync || newer(changedAt, lastSync);
+}
+
+function seriesChangedAt(series: LibrarySeries): string {
+  return series.updatedAt || series.lastReadAt || series.addedAt;
+}
+
+// Per series: the most recently changed copy wins, keeping the first added date
+function mergeLibrary(local: LibrarySeries[], incoming: LibrarySeries[], lastSync: string | null): LibrarySeries[] {
+  const localByKey = new Map(local.map(series => [libraryGlobalId(series), series]));
+  const incomingByKey = new Map(incoming.map(series => [libraryGlobalId(series), series]));
+  const merged: LibrarySeries[] = [];
+
+  for (const [key, existing] of localByKey) {
+    const series = incomingByKey.get(key);
+    if (!series) {
+      if (keepOneSided(seriesChangedAt(existing), lastSync)) merged.push(existing);
+      continue;
+    }
+
+    const winner = newer(seriesChangedAt(series), seriesChangedAt(existing)) ? series : existing;
+    merged.push({
+      ...winner,
+      addedAt: earliest(existing.addedAt, series.addedAt)!,
+      lastReadAt: newer(series.lastReadAt, existing.lastReadAt) ? series.lastReadAt : existing.lastReadAt
+    });
+  }
+
+  for (const [key, series] of incomingByKey) {
+    if (!localByKey.has(key) && keepOneSided(seriesChangedAt(series), lastSync)) {
+      merged.push(series);
+    }
+  }
+
+  return merged;
+}
+
+// Per chapter: the latest update wins, but a chapter read on either side stays read
+function mergeProgress(
+  local: Record<string, ReadingProgress>,
+  incoming: Record<string, ReadingProgress>,
+  lastSync: string | null
+): Record<string, ReadingProgress> {
+  const merged: Record<string, ReadingProgress> = {};
+
+  for (const [chapterId, existing] of Object.entries(local)) {
+    const progress = incoming[chapterId];
+    if (!progress) {
+      if (keepOneSided(existing.updatedAt, lastSync)) merged[chapterId] = existing;
+      continue;
+    }
+
+    const winner = newer(progress.updatedAt, existing.updatedAt) ? progress : existing;
+    merged[chapterId] = {
+      ...winner,
+      read: existing.read || progress.read,
+      completedAt: earliest(existing.completedAt, progress.completedAt)
+    };
+  }
+
+  for (const [chapterId, progress] of Object.entries(incoming)) {
+    if (!local[chapterId] && keepOneSided(progress.updatedAt, lastSync)) {
+      merged[chapterId] = progress;
+    }
+  }
+
+  return merged;
+}
+
+// Copies synced by older versions keyed pointers by series id alone
+function byCurrentChapterKey(currentChapters: Record<string, CurrentChapter>): Record<string, CurrentChapter> {
+  return Object.fromEntries(Object.values(currentChapters).map(current => [currentChapterKey(current), current]));
+}
+
+function mergeCurrentChapters(
+  localChapters: Record<string, CurrentChapter>,
+  incomingChapters: Record<string, CurrentChapter>,
+  lastSync: string | null
+): Record<string, CurrentChapter> {
+  const local = byCurrentChapterKey(localChapters);
+  const incoming = byCurrentChapterKey(incomingChapters);
+  const merged: Record<string, CurrentChapter> = {};
+
+  for (const [key, existing] of Object.entries(local)) {
+    const current = incoming[key];
+    if (current) {
+      merged[key] = newer(current.updatedAt, existing.updatedAt) ? current : existing;
+    } else if (keepOneSided(existing.updatedAt, lastSync)) {
+      merged[key] = existing;
+    }
+  }
+
+  for (const [key, current] of Object.entries(incoming)) {
+    if (!local[key] && keepOneSided(current.updatedAt, lastSync)) {
+      merged[key] = current;
+    }
+  }
+
+  return merged;
+}
+
+// Links are not merged entry by entry: a link from one side could rejoin a
+// source the other side split off. The table changed last wins as a whole.
+function mergeSeriesLinks(local?: SeriesLinkTable, incoming?: SeriesLinkTable): SeriesLinkTable | undefined {
+  if (!local || !incoming) return local || incoming;
+  return newer(incoming.updatedAt, local.updatedAt) ? incoming : local;
+}
+
+// Combine two copies of the app data without losing either side's reading.
+// With the time of the last sync as the common base, entries deleted on one
+// side since then stay deleted; without it, both sides are simply combined.
+// Settings are device preferences, so the local copy is kept.
+export function mergeSyncData(local: SyncData, incoming: SyncData, lastSync: string | null = null): SyncData {
+  return {
+    library: mergeLibrary(local.library, incoming.library, lastSync),
+    progress: mergeProgress(local.progress, incoming.progress, lastSync),
+    currentChapters: mergeCurrentChapters(local.currentChapters || {}, incoming.currentChapters || {}, lastSync),
+    settings: local.settings,
+    seriesLinks: mergeSeriesLinks(local.seriesLinks, incoming.seriesLinks),
+    lastSync: local.lastSync
+  };
+}
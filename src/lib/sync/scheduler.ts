@@ -0,0 +1,118 @@
+import { getSyncData, applySyncData, getLastSync, getSettings, getSyncConfig, getSyncVersion, saveSyncState } from '../storage';
+import { SyncBackend, SyncConfig, SyncError } from './backend';
+import { HttpSyncBackend } from './http';
+import { mergeSyncData } from './merge';
+import { loadSeriesLinks } from '../manga/links';
+
+const CHECK_INTERVAL = 60 * 1000; // 1 minute
+const RETRY_DELAY = 5 * 60 * 1000; // 5 minutes after a failed automatic sync
+
+export interface SyncResult {
+  syncedAt: string;
+  pulled: boolean; // false when the server copy was unchanged and not downloaded
+}
+
+export function createSyncBackend(config: SyncConfig): SyncBackend {
+  switch (config.type) {
+    case 'http':
+      return new HttpSyncBackend(config);
+    default:
+      throw new SyncError('UNSUPPORTED_BACKEND', undefined, 'Unsupported sync backend');
+  }
+}
+
+// Another device may upload between our download and upload; the merge is
+// then redone against its copy this many times before giving up
+const MAX_CONFLICT_RETRIES = 3;
+
+async function runSync(): Promise<SyncResult> {
+  const config = await getSyncConfig();
+  if (!config) {
+    throw new SyncError('NOT_CONFIGURED', undefined, 'No sync server is configured');
+  }
+
+  const backend = createSyncBackend(config);
+  const [lastSync, lastVersion] = await Promise.all([getLastSync(), getSyncVersion()]);
+  let remoteVersion = await backend.version();
+
+  for (let attempt = 0; ; attempt++) {
+    // Skip the download when the server copy is still the one from the last sync.
+    // Versions are compared rather than dates, which come from different clocks.
+    const remoteUnchanged = !!lastVersion && remoteVersion === lastVersion;
+    const remote = remoteUnchanged ? null : await backend.pull();
+    // Without a version from the server the upload cannot be conditional
+    const ifVersion = remoteUnchanged ? lastVersion : remote ? remote.version || undefined : null;
+
+    // Changes saved after this point are newer than the sync and kept for the next one
+    const syncedAt = new Date().toISOString();
+    const local = await getSyncData();
+    const merged = remote ? mergeSyncData(local, remote.data, lastSync) : local;
+
+    let version: string | null;
+    try {
+      version = await backend.push({ ...merged, lastSync: syncedAt }, ifVersion);
+    } catch (error) {
+      if (!(error instanceof SyncError) || error.code !== 'CONFLICT' || attempt >= MAX_CONFLICT_RETRIES) throw error;
+      remoteVersion = await backend.version();
+      continue;
+    }
+
+    // Local data is re-read so progress or library changes saved during the
+    // round trip are merged with the server copy rather than overwritten
+    if (remote) {
+      const current = await getSyncData();
+      await applySyncData({ ...mergeSyncData(current, remote.data, lastSync), lastSync: syncedAt });
+      await loadSeriesLinks();
+    }
+    await saveSyncState(syncedAt, version);
+
+    return { syncedAt, pulled: !!remote };
+  }
+}
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+// Pull, three-way merge against the last sync and push back
+export function syncNow(): Promise<SyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = runSync().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let lastFailureAt = 0;
+
+async function checkAutoSync(): Promise<void> {
+  if (!navigator.onLine || Date.now() - lastFailureAt < RETRY_DELAY) return;
+
+  const [settings, config, lastSync] = await Promise.all([getSettings(), getSyncConfig(), getLastSync()]);
+  if (!settings.autoSync || !config) return;
+  if (lastSync && Date.now() - new Date(lastSync).getTime() < settings.syncInterval) return;
+
+  try {
+    await syncNow();
+  } catch (error) {
+    lastFailureAt = Date.now();
+    console.error('Auto sync failed:', error);
+  }
+}
+
+// Checks periodically whether a sync is due; settings are re-read on every check
+export function startSyncScheduler(): () => void {
+  if (!schedulerTimer) {
+    schedulerTimer = setInterval(checkAutoSync, CHECK_INTERVAL);
+    window.addEventListener('online', checkAutoSync);
+    checkAutoSync();
+  }
+
+  return () => {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+    window.removeEventListener('online', checkAutoSync);
+  };
+}
@@ -4,3 +4,29 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Build a reader URL for a global chapter id (provider:chapterId)
+export function getReaderPath(
+  chapterId: string,
+  opts: { seriesId?: string; page?: number } = {}
+): string {
+  const params = new URLSearchParams();
+  if (opts.seriesId) params.set('series', opts.seriesId);
+  if (opts.page && opts.page > 1) params.set('page', opts.page.toString());
+
+  const query = params.toString();
+  return `/read/${encodeURIComponent(chapterId)}${query ? `?${query}` : ''}`;
+}
+
+// Save a generated file through a temporary download link
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,24 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { runMigrations } from "./lib/migrations";
+import { startSyncScheduler } from "./lib/sync/scheduler";
+import { registerServiceWorker } from "./lib/serviceWorker";
+import { loadProviderPreferences } from "./lib/manga/providers/registry";
+import { loadSourceDefinitions } from "./lib/manga/sources/installed";
+import { loadConsumetMirrors } from "./lib/manga/providers/mirrors";
+import { loadSeriesLinks } from "./lib/manga/links";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Stored data must be on the current schema before anything reads it
+runMigrations()
+  .catch((error) => console.error("Failed to run storage migrations:", error))
+  .then(() => loadConsumetMirrors())
+  .then(() => loadSourceDefinitions())
+  .then(() => loadProviderPreferences())
+  .then(() => loadSeriesLinks())
+  .catch((error) => console.error("Failed to load providers:", error))
+  .finally(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+    startSyncScheduler();
+    registerServiceWorker();
+  });
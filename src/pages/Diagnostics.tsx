@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Activity, ArrowLeft, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ProviderHealth, healthMonitor } from '@/lib/manga/health';
+import { ProviderDescriptor } from '@/lib/manga/providers/base';
+import { providerRegistry } from '@/lib/manga/providers/registry';
+
+interface ProviderRow {
+  descriptor: ProviderDescriptor;
+  health: ProviderHealth;
+}
+
+function getRows(): ProviderRow[] {
+  return providerRegistry.getDescriptors().map(descriptor => ({
+    descriptor,
+    health: healthMonitor.getHealth(descriptor.id)
+  }));
+}
+
+function formatMs(value?: number): string {
+  return value === undefined ? '–' : `${value} ms`;
+}
+
+function StatusBadge({ descriptor, health }: ProviderRow) {
+  if (!descriptor.enabled) return <Badge variant="outline">Disabled</Badge>;
+  if (health.circuit === 'open') return <Badge variant="destructive">Paused</Badge>;
+  if (health.circuit === 'half-open') return <Badge variant="secondary">Retrying</Badge>;
+  if (health.successRate === undefined) return <Badge variant="outline">No requests yet</Badge>;
+  if (health.successRate < 0.8) return <Badge variant="secondary">Degraded</Badge>;
+  return <Badge>Healthy</Badge>;
+}
+
+export default function Diagnostics() {
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<ProviderRow[]>(getRows);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () => setRows(getRows());
+    const unsubscribeHealth = healthMonitor.subscribe(refresh);
+    const unsubscribeRegistry = providerRegistry.subscribe(refresh);
+
+    // Keeps the cool-down countdown moving
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      unsubscribeHealth();
+      unsubscribeRegistry();
+      clearInterval(interval);
+    };
+  }, []);
+
+  return (
+    <div className="container py-6 space-y-6 max-w-5xl">
+      {/* Header */}
+      <div>
+        <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/settings')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Settings
+        </Button>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Activity className="h-8 w-8 text-primary" />
+          Source Status
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Live request statistics for this session. Sources that keep failing are paused for a while, so their
+          results are missing from search until they recover.
+        </p>
+      </div>
+
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Sources</CardTitle>
+          <CardDescription>
+            Success rate and latency over the last 100 requests to each source
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Success</TableHead>
+                <TableHead className="text-right">p50</TableHead>
+                <TableHead className="text-right">p95</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ descriptor, health }) => (
+                <TableRow key={descriptor.id}>
+                  <TableCell>
+                    <div className="font-medium">{descriptor.name}</div>
+                    <div className="text-xs text-muted-foreground">{health.requests} requests</div>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge descriptor={descriptor} health={health} />
+                    {health.circuit === 'open' && health.openUntil && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        retry in {Math.max(0, Math.ceil((health.openUntil - now) / 1000))}s
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {health.successRate === undefined ? '–' : `${Math.round(health.successRate * 100)}%`}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMs(health.p50)}</TableCell>
+                  <TableCell className="text-right">{formatMs(health.p95)}</TableCell>
+                  <TableCell className="max-w-xs">
+                    {health.lastError ? (
+                      <div className="space-y-1">
+                        <div className="truncate text-sm" title={health.lastError.message}>
+                          {health.lastError.code}: {health.lastError.message}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(health.lastError.at).toLocaleTimeString()}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">–</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Reset ${descriptor.name}`}
+                      disabled={health.requests === 0}
+                      onClick={() => healthMonitor.reset(descriptor.id)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,10 +7,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { LibrarySeries, ReadingProgress } from '@/lib/storage';
-import { getLibrary, getProgress } from '@/lib/storage';
+import { getLibrary, getCurrentProgress, libraryGlobalId, findSeriesProgress } from '@/lib/storage';
 import PopularSection from '@/components/PopularSection';
 import RecentlyReadSection from '@/components/RecentlyReadSection';
-import { cn } from '@/lib/utils';
+import { cn, getReaderPath } from '@/lib/utils';
+import { getCoverUrl } from '@/lib/manga/api';
 
 interface ContinueReadingData {
   series: LibrarySeries;
@@ -32,7 +33,7 @@ export default function Home() {
     try {
       const [libraryData, progressData] = await Promise.all([
         getLibrary(),
-        getProgress()
+        getCurrentProgress()
       ]);
 
       setLibrary(libraryData);
@@ -44,7 +45,7 @@ export default function Home() {
           new Date(current.updatedAt) > new Date(latest.updatedAt) ? current : latest
         );
 
-        const series = libraryData.find(s => s.seriesId === latestProgress.seriesId);
+        const series = libraryData.find(s => findSeriesProgress(progressData, s) === latestProgress);
         if (series && latestProgress.percent < 100) {
           setContinueReading({ series, progress: latestProgress });
         }
@@ -128,7 +129,7 @@ export default function Home() {
             <div className="flex flex-col md:flex-row gap-6">
               <div className="flex-shrink-0">
                 <img
-                  src={continueReading.series.coverUrl}
+                  src={getCoverUrl(continueReading.series.coverUrl)}
                   alt={continueReading.series.title}
                   className="w-24 h-32 md:w-32 md:h-40 object-cover rounded-lg shadow-lg"
                 />
@@ -161,7 +162,12 @@ export default function Home() {
                 <Button 
                   size="lg"
                   className="w-full md:w-auto floating-action"
-                  onClick={() => navigate(`/read/${continueReading.progress.chapterId}?page=${continueReading.progress.lastPage}`)}
+                  onClick={() => navigate(getReaderPath(continueReading.progress.chapterId, {
+                    seriesId: continueReading.series.provider
+                      ? `${continueReading.series.provider}:${continueReading.series.seriesId}`
+                      : undefined,
+                    page: continueReading.progress.lastPage
+                  }))}
                 >
                   <BookOpen className="mr-2 h-4 w-4" />
                   Continue Reading
@@ -212,13 +218,13 @@ export default function Home() {
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
             {recentlyAdded.map((series) => (
               <Card 
-                key={`${series.source}-${series.seriesId}`}
+                key={libraryGlobalId(series)}
                 className="group cursor-pointer overflow-hidden hover:shadow-lg smooth-transition glass-card"
-                onClick={() => navigate(`/series/${series.source}/${series.seriesId}`)}
+                onClick={() => navigate(`/series/${series.provider || series.source}/${series.seriesId}`)}
               >
                 <div className="aspect-[3/4] relative overflow-hidden">
                   <img
-                    src={series.coverUrl}
+                    src={getCoverUrl(series.coverUrl)}
                     alt={series.title}
                     className="w-full h-full object-cover group-hover:scale-105 smooth-transition"
                   />
@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Library, Filter, MoreVertical, BookOpen, Trash2 } from 'lucide-react';
+import { Library, Filter, MoreVertical, BookOpen, Trash2, FolderOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,9 +18,19 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
+import LocalImportDialog from '@/components/local/LocalImportDialog';
 import { useToast } from '@/hooks/use-toast';
 import { LibrarySeries, ReadingProgress } from '@/lib/storage';
-import { getLibrary, getProgress, removeFromLibrary, updateSeriesStatus } from '@/lib/storage';
+import {
+  getLibrary,
+  getCurrentProgress,
+  removeFromLibrary,
+  updateSeriesStatus,
+  libraryGlobalId,
+  findSeriesProgress
+} from '@/lib/storage';
+import { deleteLocalSeries } from '@/lib/local/store';
+import { getCoverUrl } from '@/lib/manga/api';
 
 type FilterStatus = 'all' | 'reading' | 'completed' | 'plan-to-read' | 'dropped';
 type SortBy = 'title' | 'added' | 'updated' | 'progress';
@@ -35,11 +45,19 @@ export default function LibraryPage() {
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
   const [sortBy, setSortBy] = useState<SortBy>('added');
   const [isLoading, setIsLoading] = useState(true);
+  const [localFiles, setLocalFiles] = useState<File[] | null>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Not part of React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   useEffect(() => {
     applyFiltersAndSort();
   }, [library, progress, filterStatus, sortBy]);
@@ -48,7 +66,7 @@ export default function LibraryPage() {
     try {
       const [libraryData, progressData] = await Promise.all([
         getLibrary(),
-        getProgress()
+        getCurrentProgress()
       ]);
       setLibrary(libraryData);
       setProgress(progressData);
@@ -84,8 +102,8 @@ export default function LibraryPage() {
           const bUpdated = b.lastReadAt || b.addedAt;
           return new Date(bUpdated).getTime() - new Date(aUpdated).getTime();
         case 'progress':
-          const aProgress = progress[a.seriesId]?.percent || 0;
-          const bProgress = progress[b.seriesId]?.percent || 0;
+          const aProgress = findSeriesProgress(progress, a)?.percent || 0;
+          const bProgress = findSeriesProgress(progress, b)?.percent || 0;
           return bProgress - aProgress;
         default:
           return 0;
@@ -95,12 +113,23 @@ export default function LibraryPage() {
     setFilteredLibrary(filtered);
   };
 
+  const getSeriesPath = (series: LibrarySeries) =>
+    `/series/${series.provider || series.source}/${series.seriesId}`;
+
+  const handleLocalFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) setLocalFiles(files);
+  };
+
   const handleRemoveSeries = async (series: LibrarySeries) => {
     try {
-      await removeFromLibrary(series.source, series.seriesId);
-      setLibrary(prev => prev.filter(s => 
-        !(s.seriesId === series.seriesId && s.source === series.source)
-      ));
+      await removeFromLibrary(libraryGlobalId(series));
+      // Imported files exist only in this browser once removed from the library
+      if (series.provider === 'local') {
+        await deleteLocalSeries(series.seriesId);
+      }
+      setLibrary(prev => prev.filter(s => libraryGlobalId(s) !== libraryGlobalId(series)));
       toast({
         title: 'Removed',
         description: `${series.title} has been removed from your library`
@@ -116,9 +145,9 @@ export default function LibraryPage() {
 
   const handleUpdateStatus = async (series: LibrarySeries, newStatus: LibrarySeries['status']) => {
     try {
-      await updateSeriesStatus(series.seriesId, series.source, newStatus);
+      await updateSeriesStatus(libraryGlobalId(series), newStatus);
       setLibrary(prev => prev.map(s => 
-        s.seriesId === series.seriesId && s.source === series.source
+        libraryGlobalId(s) === libraryGlobalId(series)
           ? { ...s, status: newStatus }
           : s
       ));
@@ -205,6 +234,38 @@ export default function LibraryPage() {
               <SelectItem value="progress">Progress</SelectItem>
             </SelectContent>
           </Select>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Import Local
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => filesInputRef.current?.click()}>
+                CBZ / ZIP archives
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => folderInputRef.current?.click()}>
+                Folder of images
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={filesInputRef}
+            type="file"
+            multiple
+            accept=".cbz,.zip,image/*"
+            className="hidden"
+            onChange={handleLocalFiles}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleLocalFiles}
+          />
         </div>
       </div>
 
@@ -212,19 +273,19 @@ export default function LibraryPage() {
       {filteredLibrary.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
           {filteredLibrary.map((series) => {
-            const seriesProgress = progress[series.seriesId];
+            const seriesProgress = findSeriesProgress(progress, series);
             
             return (
               <Card 
-                key={`${series.source}-${series.seriesId}`}
+                key={libraryGlobalId(series)}
                 className="group overflow-hidden hover:shadow-lg smooth-transition glass-card"
               >
                 <div className="aspect-[3/4] relative overflow-hidden">
                   <img
-                    src={series.coverUrl}
+                    src={getCoverUrl(series.coverUrl)}
                     alt={series.title}
                     className="w-full h-full object-cover group-hover:scale-105 smooth-transition cursor-pointer"
-                    onClick={() => navigate(`/series/${series.source}/${series.seriesId}`)}
+                    onClick={() => navigate(getSeriesPath(series))}
                     onError={(e) => {
                       const target = e.target as HTMLImageElement;
                       target.src = '/placeholder.svg';
@@ -259,7 +320,7 @@ export default function LibraryPage() {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => navigate(`/series/${series.source}/${series.seriesId}`)}>
+                      <DropdownMenuItem onClick={() => navigate(getSeriesPath(series))}>
                         <BookOpen className="mr-2 h-4 w-4" />
                         View Details
                       </DropdownMenuItem>
@@ -289,7 +350,7 @@ export default function LibraryPage() {
                 <CardContent className="p-3">
                   <h3 
                     className="font-medium text-sm line-clamp-2 cursor-pointer hover:text-primary smooth-transition"
-                    onClick={() => navigate(`/series/${series.source}/${series.seriesId}`)}
+                    onClick={() => navigate(getSeriesPath(series))}
                   >
                     {series.title}
                   </h3>
@@ -333,6 +394,12 @@ export default function LibraryPage() {
           </Button>
         </div>
       )}
+
+      <LocalImportDialog
+        files={localFiles}
+        onOpenChange={(open) => !open && setLocalFiles(null)}
+        onImported={loadData}
+      />
     </div>
   );
 }
\ No newline at end of file
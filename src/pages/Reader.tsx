@@ -1,10 +1,12 @@
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import Reader from '@/components/reader/Reader';
 
 export default function ReaderPage() {
   const { chapterId } = useParams<{ chapterId: string }>();
+  const [searchParams] = useSearchParams();
+  const seriesId = searchParams.get('series') || undefined;
 
-  if (!chapterId) {
+  if (!chapterId || !chapterId.includes(':')) {
     return (
       <div className="h-screen flex items-center justify-center">
         <div className="text-center">
@@ -15,5 +17,5 @@ export default function ReaderPage() {
     );
   }
 
-  return <Reader chapterId={chapterId} />;
-}
\ No newline at end of file
+  return <Reader key={chapterId} chapterId={chapterId} seriesId={seriesId} />;
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useInView } from 'react-intersection-observer';
 import { Search, Plus, Loader2, AlertCircle, Filter } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,32 +8,51 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { searchWithRetry, getPopularManga, searchMultipleProviders, MANGA_PROVIDERS } from '@/lib/api';
-import { addToLibrary, getLibrary } from '@/lib/storage';
-import { MangaSearchResult, LibrarySeries } from '@/types/manga';
+import { searchMangaProgressive, getPopularManga, SearchResult, ProviderSearchStatus, getCoverUrl } from '@/lib/manga/api';
+import { Manga } from '@/lib/manga/schema';
+import { withPrimarySource } from '@/lib/manga/links';
+import { providerRegistry } from '@/lib/manga/providers/registry';
+import { addToLibrary, getLibrary, libraryGlobalId, toLibrarySeries } from '@/lib/storage';
 import SearchSuggestions from '@/components/SearchSuggestions';
 import AdvancedSearch from '@/components/AdvancedSearch';
-import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 import { cn } from '@/lib/utils';
 
+// Where the next page of results comes from: the search's continuation cursor,
+// or the page number of the popular list shown before searching
+type NextPage = { cursor: string } | { popularPage: number } | null;
+
+// The popular list can shift between pages, so a series may come back
+function appendResults(shown: Manga[], page: Manga[]): Manga[] {
+  const ids = new Set(shown.map(manga => manga.id));
+  return [...shown, ...page.filter(manga => !ids.has(manga.id))];
+}
+
+function getProviderName(providerId: string): string {
+  return providerRegistry.getProvider(providerId)?.displayName || providerId;
+}
+
 export default function SearchPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Bumped by every new search so pages of an older one are not appended
+  const requestRef = useRef(0);
   
   const [query, setQuery] = useState(searchParams.get('q') || '');
-  const [results, setResults] = useState<MangaSearchResult[]>([]);
+  const [results, setResults] = useState<Manga[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [librarySeriesIds, setLibrarySeriesIds] = useState<Set<string>>(new Set());
   const [hasSearched, setHasSearched] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
-  const [pagination, setPagination] = useState<any>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [nextPage, setNextPage] = useState<NextPage>(null);
+  const [providerStatus, setProviderStatus] = useState<ProviderSearchStatus[]>([]);
   const [selectedProvider, setSelectedProvider] = useState('all');
   const [selectedLanguage, setSelectedLanguage] = useState('all');
+  const { ref: loadMoreRef, inView: isLoadMoreVisible } = useInView({ rootMargin: '400px 0px' });
 
   useEffect(() => {
     loadLibraryIds();
@@ -47,18 +67,31 @@ export default function SearchPage() {
     }
   }, [searchParams]);
 
+  useEffect(() => {
+    if (isLoadMoreVisible && nextPage && !isLoading && !isLoadingMore) {
+      loadMore();
+    }
+  }, [isLoadMoreVisible, nextPage, isLoading, isLoadingMore]);
+
+  const toNextPage = (response: SearchResult): NextPage => {
+    if (response.cursor) return { cursor: response.cursor };
+    return response.pagination.has_next_page ? { popularPage: response.pagination.current_page + 1 } : null;
+  };
+
   const loadDefaultData = async () => {
     if (!query) {
+      const requestId = ++requestRef.current;
       setIsLoading(true);
       try {
-        const response = await getPopularManga(1);
-        setResults(response.data || []);
-        setPagination(response.pagination);
-        setCurrentPage(1);
+        const response = await getPopularManga();
+        if (requestId !== requestRef.current) return;
+        setResults(response.data);
+        setProviderStatus([]);
+        setNextPage(toNextPage(response));
       } catch (error) {
         console.error('Failed to load default data:', error);
       } finally {
-        setIsLoading(false);
+        if (requestId === requestRef.current) setIsLoading(false);
       }
     }
   };
@@ -66,7 +99,7 @@ export default function SearchPage() {
   const loadLibraryIds = async () => {
     try {
       const library = await getLibrary();
-      const ids = new Set(library.map(s => `${s.source}-${s.seriesId}`));
+      const ids = new Set(library.map(s => libraryGlobalId(s)));
       setLibrarySeriesIds(ids);
     } catch (error) {
       console.error('Failed to load library:', error);
@@ -81,20 +114,43 @@ export default function SearchPage() {
     }
   };
 
-  const performSearch = async (searchQuery: string, page = 1) => {
+  const performSearch = async (
+    searchQuery: string,
+    provider = selectedProvider,
+    language = selectedLanguage
+  ) => {
+    const requestId = ++requestRef.current;
     setIsLoading(true);
+    setIsLoadingMore(false);
     setError(null);
     setHasSearched(true);
+    setNextPage(null);
 
     try {
-      const response = searchQuery.trim() 
-        ? await searchWithRetry(searchQuery, page)
-        : await getPopularManga(page);
-      
-      setResults(response.data || []);
-      setPagination(response.pagination);
-      setCurrentPage(page);
+      if (!searchQuery.trim()) {
+        const response = await getPopularManga();
+        if (requestId !== requestRef.current) return;
+        setResults(response.data);
+        setProviderStatus([]);
+        setNextPage(toNextPage(response));
+        return;
+      }
+
+      const updates = searchMangaProgressive(searchQuery, {
+        providers: provider === 'all' ? undefined : [provider],
+        lang: language === 'all' ? undefined : language
+      });
+      for await (const progress of updates) {
+        if (requestId !== requestRef.current) return;
+
+        setResults(progress.data);
+        setProviderStatus(progress.providers);
+        // Results are shown as soon as the first provider answers
+        if (progress.data.length > 0) setIsLoading(false);
+        if (progress.done) setNextPage(toNextPage(progress));
+      }
     } catch (err) {
+      if (requestId !== requestRef.current) return;
       const errorMessage = err instanceof Error ? err.message : 'Failed to search manga';
       setError(errorMessage);
       toast({
@@ -103,45 +159,54 @@ export default function SearchPage() {
         variant: 'destructive'
       });
     } finally {
-      setIsLoading(false);
+      if (requestId === requestRef.current) setIsLoading(false);
     }
   };
 
-  const handlePageChange = (page: number) => {
-    if (query.trim()) {
-      performSearch(query, page);
-    } else {
-      loadDefaultDataForPage(page);
-    }
-  };
+  // Appends the next page when the end of the grid scrolls into view
+  const loadMore = async () => {
+    if (!nextPage) return;
+    const requestId = requestRef.current;
+    setIsLoadingMore(true);
+
+    const shown = results;
 
-  const loadDefaultDataForPage = async (page: number) => {
-    setIsLoading(true);
     try {
-      const response = await getPopularManga(page);
-      setResults(response.data || []);
-      setPagination(response.pagination);
-      setCurrentPage(page);
-    } catch (error) {
-      console.error('Failed to load data for page:', error);
+      if ('popularPage' in nextPage) {
+        const response = await getPopularManga({ page: nextPage.popularPage });
+        if (requestId !== requestRef.current) return;
+        setResults(appendResults(shown, response.data));
+        setNextPage(toNextPage(response));
+        return;
+      }
+
+      for await (const progress of searchMangaProgressive(query, { cursor: nextPage.cursor })) {
+        if (requestId !== requestRef.current) return;
+
+        setResults(appendResults(shown, progress.data));
+        setProviderStatus(progress.providers);
+        if (progress.done) setNextPage(toNextPage(progress));
+      }
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      console.error('Failed to load more results:', err);
+      setNextPage(null);
+      toast({
+        title: 'Could not load more results',
+        description: err instanceof Error ? err.message : 'Failed to search manga',
+        variant: 'destructive'
+      });
     } finally {
-      setIsLoading(false);
+      if (requestId === requestRef.current) setIsLoadingMore(false);
     }
   };
 
-  const handleAddToLibrary = async (manga: MangaSearchResult) => {
+  const handleAddToLibrary = async (manga: Manga) => {
     try {
-      const series: Omit<LibrarySeries, 'addedAt'> = {
-        source: 'jikan',
-        seriesId: manga.mal_id.toString(),
-        title: manga.title,
-        coverUrl: manga.images.jpg.large_image_url || manga.images.jpg.image_url,
-        lang: 'en',
-        status: 'plan-to-read'
-      };
+      const series = toLibrarySeries(withPrimarySource(manga));
 
       await addToLibrary(series);
-      setLibrarySeriesIds(prev => new Set([...prev, `jikan-${manga.mal_id}`]));
+      setLibrarySeriesIds(prev => new Set([...prev, libraryGlobalId(series)]));
       
       toast({
         title: 'Added to library',
@@ -156,10 +221,13 @@ export default function SearchPage() {
     }
   };
 
-  const isInLibrary = (manga: MangaSearchResult) => {
-    return librarySeriesIds.has(`jikan-${manga.mal_id}`);
+  const isInLibrary = (manga: Manga) => {
+    const series = toLibrarySeries(withPrimarySource(manga));
+    return librarySeriesIds.has(libraryGlobalId(series));
   };
 
+  const openSeries = (manga: Manga) => navigate(`/series/${manga.provider}/${manga.providerId}`);
+
   return (
     <div className="container py-6 space-y-6">
       {/* Search Header */}
@@ -217,6 +285,30 @@ export default function SearchPage() {
             />
           </div>
         </form>
+
+        {/* Provider Status */}
+        {providerStatus.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {providerStatus.map(status => (
+              <Badge
+                key={status.provider}
+                variant={status.state === 'failed' ? 'destructive' : 'outline'}
+                className="gap-1 text-xs font-normal"
+                title={status.error}
+              >
+                {status.state === 'loading' && <Loader2 className="h-3 w-3 animate-spin" />}
+                {status.state === 'failed' && <AlertCircle className="h-3 w-3" />}
+                {getProviderName(status.provider)}
+                {status.state === 'done' && (
+                  <span className="text-muted-foreground">
+                    {status.count} {status.count === 1 ? 'result' : 'results'}
+                  </span>
+                )}
+                {status.state === 'failed' && <span>failed</span>}
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Error Alert */}
@@ -247,24 +339,19 @@ export default function SearchPage() {
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">
-              {query ? `Search Results (${pagination?.items?.total || results.length})` : `Popular Manga (${pagination?.items?.total || results.length})`}
+              {query ? `Search Results (${results.length}${nextPage ? '+' : ''})` : 'Popular Manga'}
             </h2>
-            {pagination && (
-              <div className="text-sm text-muted-foreground">
-                Page {currentPage} of {pagination.last_visible_page}
-              </div>
-            )}
           </div>
 
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
             {results.map((manga) => (
               <Card 
-                key={manga.mal_id}
+                key={manga.id}
                 className="group overflow-hidden hover:shadow-lg smooth-transition glass-card"
               >
                 <div className="aspect-[3/4] relative overflow-hidden">
                   <img
-                    src={manga.images.jpg.large_image_url || manga.images.jpg.image_url}
+                    src={getCoverUrl(manga.cover)}
                     alt={manga.title}
                     className="w-full h-full object-cover group-hover:scale-105 smooth-transition"
                     onError={(e) => {
@@ -281,7 +368,7 @@ export default function SearchPage() {
                         size="sm"
                         variant="secondary"
                         className="w-full"
-                        onClick={() => navigate(`/series/jikan/${manga.mal_id}`)}
+                        onClick={() => openSeries(manga)}
                       >
                         View Details
                       </Button>
@@ -311,7 +398,7 @@ export default function SearchPage() {
                 <CardContent className="p-3">
                   <h3 
                     className="font-medium text-sm line-clamp-2 cursor-pointer hover:text-primary smooth-transition"
-                    onClick={() => navigate(`/series/jikan/${manga.mal_id}`)}
+                    onClick={() => openSeries(manga)}
                   >
                     {manga.title}
                   </h3>
@@ -325,16 +412,16 @@ export default function SearchPage() {
                     )}
                   </div>
 
-                  {manga.genres && manga.genres.length > 0 && (
+                  {manga.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-2">
-                      {manga.genres.slice(0, 2).map((genre) => (
-                        <Badge key={genre.mal_id} variant="outline" className="text-xs">
-                          {genre.name}
+                      {manga.tags.slice(0, 2).map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-xs">
+                          {tag}
                         </Badge>
                       ))}
-                      {manga.genres.length > 2 && (
+                      {manga.tags.length > 2 && (
                         <Badge variant="outline" className="text-xs">
-                          +{manga.genres.length - 2}
+                          +{manga.tags.length - 2}
                         </Badge>
                       )}
                     </div>
@@ -344,140 +431,13 @@ export default function SearchPage() {
             ))}
           </div>
 
-          {/* Pagination */}
-          {pagination && pagination.last_visible_page > 1 && (
-            <div className="flex justify-center mt-8">
-              <Pagination>
-                <PaginationContent>
-                  <PaginationItem>
-                    <PaginationPrevious 
-                      href="#"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        if (currentPage > 1) {
-                          handlePageChange(currentPage - 1);
-                        }
-                      }}
-                      className={currentPage <= 1 ? 'pointer-events-none opacity-50' : ''}
-                    />
-                  </PaginationItem>
-                  
-                  {/* First page */}
-                  {currentPage > 3 && (
-                    <>
-                      <PaginationItem>
-                        <PaginationLink 
-                          href="#"
-                          onClick={(e) => {
-                            e.preventDefault();
-                            handlePageChange(1);
-                          }}
-                        >
-                          1
-                        </PaginationLink>
-                      </PaginationItem>
-                      {currentPage > 4 && (
-                        <PaginationItem>
-                          <PaginationEllipsis />
-                        </PaginationItem>
-                      )}
-                    </>
-                  )}
-                  
-                  {/* Current page range */}
-                  {Array.from({ length: Math.min(5, pagination.last_visible_page) }, (_, i) => {
-                    const page = Math.max(1, Math.min(currentPage - 2 + i, pagination.last_visible_page - 4 + i + 1));
-                    if (page > pagination.last_visible_page) return null;
-                    if (currentPage <= 3) {
-                      const displayPage = i + 1;
-                      if (displayPage > pagination.last_visible_page) return null;
-                      return (
-                        <PaginationItem key={displayPage}>
-                          <PaginationLink 
-                            href="#"
-                            isActive={currentPage === displayPage}
-                            onClick={(e) => {
-                              e.preventDefault();
-                              handlePageChange(displayPage);
-                            }}
-                          >
-                            {displayPage}
-                          </PaginationLink>
-                        </PaginationItem>
-                      );
-                    }
-                    if (currentPage > pagination.last_visible_page - 3) {
-                      const displayPage = pagination.last_visible_page - 4 + i + 1;
-                      if (displayPage < 1) return null;
-                      return (
-                        <PaginationItem key={displayPage}>
-                          <PaginationLink 
-                            href="#"
-                            isActive={currentPage === displayPage}
-                            onClick={(e) => {
-                              e.preventDefault();
-                              handlePageChange(displayPage);
-                            }}
-                          >
-                            {displayPage}
-                          </PaginationLink>
-                        </PaginationItem>
-                      );
-                    }
-                    return (
-                      <PaginationItem key={page}>
-                        <PaginationLink 
-                          href="#"
-                          isActive={currentPage === page}
-                          onClick={(e) => {
-                            e.preventDefault();
-                            handlePageChange(page);
-                          }}
-                        >
-                          {page}
-                        </PaginationLink>
-                      </PaginationItem>
-                    );
-                  })}
-                  
-                  {/* Last page */}
-                  {currentPage < pagination.last_visible_page - 2 && (
-                    <>
-                      {currentPage < pagination.last_visible_page - 3 && (
-                        <PaginationItem>
-                          <PaginationEllipsis />
-                        </PaginationItem>
-                      )}
-                      <PaginationItem>
-                        <PaginationLink 
-                          href="#"
-                          onClick={(e) => {
-                            e.preventDefault();
-                            handlePageChange(pagination.last_visible_page);
-                          }}
-                        >
-                          {pagination.last_visible_page}
-                        </PaginationLink>
-                      </PaginationItem>
-                    </>
-                  )}
-                  
-                  <PaginationItem>
-                    <PaginationNext 
-                      href="#"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        if (pagination.has_next_page) {
-                          handlePageChange(currentPage + 1);
-                        }
-                      }}
-                      className={!pagination.has_next_page ? 'pointer-events-none opacity-50' : ''}
-                    />
-                  </PaginationItem>
-                </PaginationContent>
-              </Pagination>
-            </div>
-          )}
+          {/* Infinite scroll */}
+          <div ref={loadMoreRef} className="flex justify-center py-6">
+            {isLoadingMore && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+            {!nextPage && !isLoadingMore && results.length > 0 && (
+              <p className="text-sm text-muted-foreground">No more results</p>
+            )}
+          </div>
         </div>
       )}
 
@@ -505,7 +465,7 @@ export default function SearchPage() {
               setSelectedLanguage(language || 'all');
               setQuery(searchQuery);
               setSearchParams({ q: searchQuery });
-              performSearch(searchQuery);
+              performSearch(searchQuery, provider || 'all', language || 'all');
               setShowAdvancedSearch(false);
             }}
           />
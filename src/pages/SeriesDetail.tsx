@@ -1,32 +1,58 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, BookOpen, Clock, Star, Users, Calendar, Plus, Check, Trash2 } from 'lucide-react';
+import { ArrowLeft, BookOpen, Clock, Star, Calendar, Plus, Check, Trash2, Download, FileArchive, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import ChapterDownloadButton from '@/components/downloads/ChapterDownloadButton';
+import DownloadRangeDialog from '@/components/downloads/DownloadRangeDialog';
+import ExportDialog from '@/components/export/ExportDialog';
+import SeriesSourcesDialog from '@/components/series/SeriesSourcesDialog';
 import { useToast } from '@/hooks/use-toast';
-import { getMangaDetails, getMangaChapters } from '@/lib/api';
-import { addToLibrary, getLibrary, updateReadingProgress, getReadingProgress, removeFromLibrary } from '@/lib/storage';
-import { MangaDetails, Chapter, LibrarySeries, ReadingProgress } from '@/types/manga';
+import { useDownloads } from '@/hooks/useDownloads';
+import { downloadManager } from '@/lib/downloads';
+import { deleteLocalSeries } from '@/lib/local/store';
+import { getMangaDetails, getMergedChapters, getCoverUrl } from '@/lib/manga/api';
+import { seriesLinks, withPrimarySource } from '@/lib/manga/links';
+import { Manga, Chapter } from '@/lib/manga/schema';
+import { getChapterLabel } from '@/lib/manga/chapters';
+import { addToLibrary, getLibrary, getReadingProgress, libraryGlobalId, removeFromLibrary, toLibrarySeries } from '@/lib/storage';
+import { ReadingProgress } from '@/types/manga';
+import { getReaderPath } from '@/lib/utils';
+import { providerRegistry } from '@/lib/manga/providers/registry';
 
 export default function SeriesDetail() {
   const { provider, id } = useParams<{ provider: string; id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { jobs, downloaded } = useDownloads();
   
-  const [details, setDetails] = useState<MangaDetails | null>(null);
+  const [details, setDetails] = useState<Manga | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [loading, setLoading] = useState(true);
   const [isInLibrary, setIsInLibrary] = useState(false);
   const [progress, setProgress] = useState<Record<string, ReadingProgress>>({});
   const [languageFilter, setLanguageFilter] = useState('all');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [showRangeDialog, setShowRangeDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showSourcesDialog, setShowSourcesDialog] = useState(false);
+
+  // Linked series share the library entry and progress of their primary source
+  const globalSeriesId = `${provider}:${id}`;
 
   useEffect(() => {
     loadSeriesData();
     checkLibraryStatus();
     loadProgress();
+
+    return seriesLinks.subscribe(() => {
+      loadSeriesData();
+      checkLibraryStatus();
+      loadProgress();
+    });
   }, [provider, id]);
 
   const loadSeriesData = async () => {
@@ -34,11 +60,11 @@ export default function SeriesDetail() {
     
     try {
       setLoading(true);
-      const [response, chaptersData] = await Promise.all([
-        getMangaDetails(id, provider),
-        getMangaChapters(id, provider)
+      const [manga, chaptersData] = await Promise.all([
+        getMangaDetails(globalSeriesId),
+        getMergedChapters(globalSeriesId)
       ]);
-      setDetails(response.data);
+      setDetails(manga);
       setChapters(chaptersData);
     } catch (error) {
       toast({
@@ -55,8 +81,10 @@ export default function SeriesDetail() {
     if (!id) return;
     
     try {
+      // Series ids are only unique within a provider
       const library = await getLibrary();
-      const inLibrary = library.some(s => s.seriesId === id);
+      const primary = seriesLinks.getPrimary(globalSeriesId);
+      const inLibrary = library.some(s => libraryGlobalId(s) === primary);
       setIsInLibrary(inLibrary);
     } catch (error) {
       console.error('Failed to check library status:', error);
@@ -67,7 +95,8 @@ export default function SeriesDetail() {
     if (!id) return;
     
     try {
-      const seriesProgress = await getReadingProgress(id);
+      const [progressProvider, progressSeriesId] = seriesLinks.getPrimary(globalSeriesId).split(':');
+      const seriesProgress = await getReadingProgress(progressSeriesId, progressProvider);
       setProgress(seriesProgress);
     } catch (error) {
       console.error('Failed to load progress:', error);
@@ -75,21 +104,10 @@ export default function SeriesDetail() {
   };
 
   const handleAddToLibrary = async () => {
-    if (!details || !id) return;
+    if (!details) return;
 
     try {
-      const series: Omit<LibrarySeries, 'addedAt'> = {
-        source: 'consumet',
-        seriesId: id,
-        title: details.title,
-        coverUrl: details.images.jpg.large_image_url || details.images.jpg.image_url,
-        lang: 'en',
-        status: 'plan-to-read',
-        provider,
-        providerId: details.providerId
-      };
-
-      await addToLibrary(series);
+      await addToLibrary(toLibrarySeries(withPrimarySource(details)));
       setIsInLibrary(true);
       
       toast({
@@ -109,7 +127,14 @@ export default function SeriesDetail() {
     if (!details || !id) return;
 
     try {
-      await removeFromLibrary('consumet', id);
+      // Local series are stored as 'custom' entries and their files go with them
+      if (provider === 'local') {
+        await removeFromLibrary(globalSeriesId);
+        await deleteLocalSeries(id);
+        navigate('/library');
+      } else {
+        await removeFromLibrary(seriesLinks.getPrimary(globalSeriesId));
+      }
       setIsInLibrary(false);
       
       toast({
@@ -125,19 +150,63 @@ export default function SeriesDetail() {
     }
   };
 
+  // Chapters merged from several sources may have been read from any of them
+  const findProgress = (chapter: Chapter): ReadingProgress | undefined =>
+    (chapter.sources?.map(source => source.chapterId) || [chapter.id])
+      .map(chapterId => progress[chapterId])
+      .find(Boolean);
+
   const handleChapterClick = (chapter: Chapter) => {
-    // For now, just show a toast since we don't have a reader implementation yet
-    toast({
-      title: 'Reader coming soon',
-      description: `Chapter ${chapter.chapter} will open in the reader`
+    const chapterProgress = findProgress(chapter);
+
+    navigate(getReaderPath(chapter.id, {
+      seriesId: globalSeriesId,
+      page: chapterProgress && !chapterProgress.read ? chapterProgress.lastPage : undefined
+    }));
+  };
+
+  const queueDownloads = (toDownload: Chapter[]) => {
+    if (!details) return;
+
+    const pending = toDownload.filter(chapter => !downloaded[chapter.id]);
+    pending.forEach(chapter => {
+      downloadManager.enqueue({
+        chapterId: chapter.id,
+        seriesId: globalSeriesId,
+        seriesTitle: details.title,
+        chapterLabel: getChapterLabel(chapter)
+      });
     });
+
+    if (toDownload.length > 1) {
+      toast({
+        title: pending.length > 0 ? 'Downloading' : 'Nothing to download',
+        description: pending.length > 0
+          ? `${pending.length} chapter${pending.length === 1 ? '' : 's'} added to the download queue`
+          : 'These chapters are already downloaded'
+      });
+    }
+  };
+
+  const handleDownloadUnread = () => {
+    queueDownloads(chapters.filter(chapter => !findProgress(chapter)?.read));
   };
 
+  const handleDownloadRange = (from: number, to: number) => {
+    queueDownloads(chapters.filter(chapter => {
+      const number = parseFloat(chapter.chapterNumber);
+      return number >= from && number <= to;
+    }));
+  };
+
+  const chapterNumbers = chapters.map(chapter => parseFloat(chapter.chapterNumber)).filter(n => !isNaN(n));
+
   const filteredChapters = chapters
     .filter(chapter => languageFilter === 'all' || chapter.id.includes(languageFilter))
     .sort((a, b) => {
-      const aNum = parseFloat(a.chapter);
-      const bNum = parseFloat(b.chapter);
+      // Extras without a number come first, as in the merged list
+      const aNum = parseFloat(a.chapterNumber || '0');
+      const bNum = parseFloat(b.chapterNumber || '0');
       return sortOrder === 'asc' ? aNum - bNum : bNum - aNum;
     });
 
@@ -191,7 +260,7 @@ export default function SeriesDetail() {
         <div className="space-y-4">
           <div className="aspect-[3/4] relative overflow-hidden rounded-lg">
             <img
-              src={details.images.jpg.large_image_url || details.images.jpg.image_url}
+              src={getCoverUrl(details.cover)}
               alt={details.title}
               className="w-full h-full object-cover"
               onError={(e) => {
@@ -229,8 +298,8 @@ export default function SeriesDetail() {
         <div className="space-y-6">
           <div>
             <h2 className="text-xl font-semibold mb-2">{details.title}</h2>
-            {details.title_english && details.title_english !== details.title && (
-              <p className="text-muted-foreground mb-2">{details.title_english}</p>
+            {details.titleEnglish && details.titleEnglish !== details.title && (
+              <p className="text-muted-foreground mb-2">{details.titleEnglish}</p>
             )}
             
             <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mb-4">
@@ -252,25 +321,19 @@ export default function SeriesDetail() {
                   <span>{details.score}</span>
                 </div>
               )}
-              {details.members && (
-                <div className="flex items-center gap-1">
-                  <Users className="h-4 w-4" />
-                  <span>{details.members.toLocaleString()}</span>
-                </div>
-              )}
-              {details.published?.from && (
+              {details.year && (
                 <div className="flex items-center gap-1">
                   <Calendar className="h-4 w-4" />
-                  <span>{new Date(details.published.from).getFullYear()}</span>
+                  <span>{details.year}</span>
                 </div>
               )}
             </div>
 
-            {details.genres && details.genres.length > 0 && (
+            {details.tags.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-4">
-                {details.genres.map((genre) => (
-                  <Badge key={genre.mal_id} variant="secondary">
-                    {genre.name}
+                {details.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary">
+                    {tag}
                   </Badge>
                 ))}
               </div>
@@ -294,6 +357,36 @@ export default function SeriesDetail() {
           <h3 className="text-lg font-semibold">Chapters ({filteredChapters.length})</h3>
           
           <div className="flex gap-2">
+            {/* Local chapters are already stored offline */}
+            {provider !== 'local' && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={chapters.length === 0}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleDownloadUnread}>
+                    Download unread
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowRangeDialog(true)}>
+                    Download range...
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            <Button variant="outline" onClick={() => setShowSourcesDialog(true)}>
+              <Layers className="mr-2 h-4 w-4" />
+              Sources
+            </Button>
+
+            <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={chapters.length === 0}>
+              <FileArchive className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+
             <Select value={languageFilter} onValueChange={setLanguageFilter}>
               <SelectTrigger className="w-32">
                 <SelectValue />
@@ -319,9 +412,10 @@ export default function SeriesDetail() {
 
         <div className="grid gap-2">
           {filteredChapters.map((chapter) => {
-            const chapterProgress = progress[chapter.id];
-            const isRead = chapterProgress?.percent === 100;
-            const isPartiallyRead = chapterProgress && chapterProgress.percent > 0 && chapterProgress.percent < 100;
+            const globalChapterId = chapter.id;
+            const chapterProgress = findProgress(chapter);
+            const isRead = chapterProgress?.read === true;
+            const isPartiallyRead = !isRead && chapterProgress && chapterProgress.percent > 0;
             
             return (
               <Card
@@ -335,17 +429,31 @@ export default function SeriesDetail() {
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <h4 className={`font-medium ${isRead ? 'text-muted-foreground' : ''}`}>
-                        Chapter {chapter.chapter}
-                        {chapter.title && chapter.title !== `Chapter ${chapter.chapter}` && (
+                        {getChapterLabel(chapter)}
+                        {chapter.title && chapter.title !== getChapterLabel(chapter) && (
                           <span className="font-normal text-muted-foreground ml-2">
                             - {chapter.title}
                           </span>
                         )}
                       </h4>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
-                        <span>{chapter.pages} pages</span>
-                        <span>{new Date(chapter.publishAt).toLocaleDateString()}</span>
+                        {!!chapter.pagesCount && <span>{chapter.pagesCount} pages</span>}
+                        <span>{new Date(chapter.publishedAt).toLocaleDateString()}</span>
                       </div>
+
+                      {chapter.sources && chapter.sources.length > 1 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {chapter.sources.map((source, index) => (
+                            <Badge
+                              key={source.chapterId}
+                              variant={index === 0 ? 'secondary' : 'outline'}
+                              className="text-xs font-normal"
+                            >
+                              {providerRegistry.getProvider(source.provider)?.displayName || source.provider}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                       
                       {isPartiallyRead && (
                         <div className="mt-2">
@@ -362,7 +470,17 @@ export default function SeriesDetail() {
                       )}
                     </div>
                     
-                    <div className="shrink-0 ml-4">
+                    <div className="shrink-0 ml-4 flex items-center gap-2">
+                      {provider !== 'local' && (
+                        <ChapterDownloadButton
+                          job={jobs[globalChapterId]}
+                          isDownloaded={!!downloaded[globalChapterId]}
+                          onDownload={() => queueDownloads([chapter])}
+                          onPause={() => downloadManager.pause(globalChapterId)}
+                          onResume={() => downloadManager.resume(globalChapterId)}
+                          onDelete={() => downloadManager.cancel(globalChapterId)}
+                        />
+                      )}
                       {isRead ? (
                         <Badge variant="secondary">Read</Badge>
                       ) : isPartiallyRead ? (
@@ -378,6 +496,31 @@ export default function SeriesDetail() {
           })}
         </div>
       </div>
+
+      <DownloadRangeDialog
+        open={showRangeDialog}
+        onOpenChange={setShowRangeDialog}
+        minChapter={chapterNumbers.length > 0 ? Math.min(...chapterNumbers) : 1}
+        maxChapter={chapterNumbers.length > 0 ? Math.max(...chapterNumbers) : 1}
+        onConfirm={handleDownloadRange}
+      />
+
+      {provider && id && (
+        <ExportDialog
+          open={showExportDialog}
+          onOpenChange={setShowExportDialog}
+          seriesId={globalSeriesId}
+        />
+      )}
+
+      {provider && id && (
+        <SeriesSourcesDialog
+          open={showSourcesDialog}
+          onOpenChange={setShowSourcesDialog}
+          seriesId={globalSeriesId}
+          title={details.title}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { Settings, Save, RotateCcw, Database, Smartphone, Eye } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Settings, Save, RotateCcw, Database, Smartphone, Eye, AlertTriangle, Download, Upload, FileInput, Layers, Activity } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -11,21 +12,180 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useSettings } from '@/hooks/useSettings';
 import { clearAllData, getStorageSize } from '@/lib/storage';
+import { clearDownloads, getDownloadsSize } from '@/lib/downloads';
+import { clearRuntimeCaches, getCacheSize } from '@/lib/serviceWorker';
+import { clearLocalSeries, getLocalStorageSize } from '@/lib/local/store';
+import { clearCache as clearApiCache } from '@/lib/manga/api';
+import { getPersistentCacheSize } from '@/lib/manga/cache';
+import { CorruptEntry, getCorruptEntries, clearCorruptEntries } from '@/lib/migrations';
+import { BackupFile, downloadBackup, parseBackup } from '@/lib/backup';
+import BackupImportDialog from '@/components/settings/BackupImportDialog';
+import LibraryImportDialog from '@/components/settings/LibraryImportDialog';
+import SyncSettings from '@/components/settings/SyncSettings';
+import ProviderSettings from '@/components/settings/ProviderSettings';
+import MirrorSettings from '@/components/settings/MirrorSettings';
+import { ImportedEntry } from '@/lib/import/schema';
+import { parseImportFile, getReviewQueue } from '@/lib/import/importer';
 
 export default function SettingsPage() {
-  const { settings, updateSetting, resetSettings, isLoading } = useSettings();
+  const { settings, updateSetting, resetSettings, refreshSettings, isLoading } = useSettings();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [storageSize, setStorageSize] = useState<number>(0);
+  const [downloadsSize, setDownloadsSize] = useState<number>(0);
+  const [cacheSize, setCacheSize] = useState<number>(0);
+  const [localFilesSize, setLocalFilesSize] = useState<number>(0);
+  const [corruptEntries, setCorruptEntries] = useState<CorruptEntry[]>([]);
+  const [pendingImport, setPendingImport] = useState<BackupFile | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const libraryImportInputRef = useRef<HTMLInputElement>(null);
+  const [libraryImportOpen, setLibraryImportOpen] = useState(false);
+  const [libraryImportEntries, setLibraryImportEntries] = useState<ImportedEntry[] | null>(null);
+  const [reviewQueueSize, setReviewQueueSize] = useState(0);
+
+  useEffect(() => {
+    getCorruptEntries().then(setCorruptEntries);
+    getReviewQueue().then(queue => setReviewQueueSize(queue.length));
+    loadStorageSize();
+  }, []);
 
   const loadStorageSize = async () => {
-    const size = await getStorageSize();
+    const [size, downloads, cache, apiCache, localFiles] = await Promise.all([
+      getStorageSize(),
+      getDownloadsSize(),
+      getCacheSize(),
+      getPersistentCacheSize(),
+      getLocalStorageSize()
+    ]);
     setStorageSize(size);
+    setDownloadsSize(downloads);
+    setCacheSize(cache + apiCache);
+    setLocalFilesSize(localFiles);
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await Promise.all([clearRuntimeCaches(), clearApiCache()]);
+      const [cache, apiCache] = await Promise.all([getCacheSize(), getPersistentCacheSize()]);
+      setCacheSize(cache + apiCache);
+      toast({
+        title: 'Cache cleared',
+        description: 'Cached covers, pages, search results and chapter lists have been removed'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to clear cache',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleClearDownloads = async () => {
+    if (confirm('Delete all downloaded chapters? They will no longer be readable offline.')) {
+      try {
+        await clearDownloads();
+        setDownloadsSize(0);
+        toast({
+          title: 'Downloads deleted',
+          description: 'All downloaded chapters have been removed'
+        });
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: 'Failed to delete downloads',
+          variant: 'destructive'
+        });
+      }
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await downloadBackup();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to export data',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport(parseBackup(await file.text()));
+    } catch (error) {
+      toast({
+        title: 'Invalid backup',
+        description: error instanceof Error ? error.message : 'Could not read the backup file',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleLibraryImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const entries = parseImportFile(await file.text());
+      if (entries.length === 0) {
+        toast({
+          title: 'Nothing to import',
+          description: 'The file does not contain any series'
+        });
+        return;
+      }
+      setLibraryImportEntries(entries);
+      setLibraryImportOpen(true);
+    } catch (error) {
+      toast({
+        title: 'Invalid file',
+        description: error instanceof Error ? error.message : 'Could not read the file',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleReviewQueue = () => {
+    setLibraryImportEntries(null);
+    setLibraryImportOpen(true);
+  };
+
+  const handleImported = () => {
+    refreshSettings();
+    loadStorageSize();
+  };
+
+  const handleDiscardCorruptEntries = async () => {
+    try {
+      await clearCorruptEntries();
+      setCorruptEntries([]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to discard damaged entries',
+        variant: 'destructive'
+      });
+    }
   };
 
   const handleClearData = async () => {
     if (confirm('Are you sure you want to clear all data? This action cannot be undone.')) {
       try {
-        await clearAllData();
+        await Promise.all([
+          clearAllData(),
+          clearDownloads(),
+          clearRuntimeCaches(),
+          clearApiCache(),
+          clearLocalSeries()
+        ]);
         toast({
           title: 'Data cleared',
           description: 'All local data has been cleared successfully'
@@ -186,6 +346,28 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Source Settings */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Sources
+          </CardTitle>
+          <CardDescription>
+            Choose which sources are searched; sources higher in the list are preferred when results overlap
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ProviderSettings />
+          <Button variant="outline" onClick={() => navigate('/diagnostics')}>
+            <Activity className="mr-2 h-4 w-4" />
+            Source Status
+          </Button>
+          <Separator />
+          <MirrorSettings />
+        </CardContent>
+      </Card>
+
       {/* Sync Settings */}
       <Card className="card-gradient">
         <CardHeader>
@@ -198,20 +380,11 @@ export default function SettingsPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Auto Sync */}
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <Label htmlFor="auto-sync">Auto Sync</Label>
-              <p className="text-sm text-muted-foreground">
-                Automatically backup your data every 12 hours
-              </p>
-            </div>
-            <Switch
-              id="auto-sync"
-              checked={settings.autoSync}
-              onCheckedChange={(checked) => updateSetting('autoSync', checked)}
-            />
-          </div>
+          <SyncSettings
+            settings={settings}
+            updateSetting={updateSetting}
+            onSynced={handleImported}
+          />
 
           <Separator />
 
@@ -227,32 +400,125 @@ export default function SettingsPage() {
               <p>Current usage: {formatBytes(storageSize)}</p>
               <p>This includes your library, reading progress, and cached data</p>
             </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <p>Offline cache: {formatBytes(cacheSize)}</p>
+              <Button variant="outline" size="sm" onClick={handleClearCache}>
+                Clear Cache
+              </Button>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <p>Offline downloads: {formatBytes(downloadsSize)}</p>
+              <Button variant="outline" size="sm" onClick={handleClearDownloads} disabled={downloadsSize === 0}>
+                Delete Downloads
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Imported local files: {formatBytes(localFilesSize)}
+            </p>
           </div>
 
+          {corruptEntries.length > 0 && (
+            <>
+              <Separator />
+
+              {/* Damaged Data */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                    Damaged Entries
+                  </Label>
+                  <Button variant="outline" size="sm" onClick={handleDiscardCorruptEntries}>
+                    Discard
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {corruptEntries.length} stored {corruptEntries.length === 1 ? 'entry was' : 'entries were'} unreadable
+                  and set aside during a data upgrade ({Array.from(new Set(corruptEntries.map(e => e.key))).join(', ')})
+                </p>
+              </div>
+            </>
+          )}
+
           <Separator />
 
           {/* Manual Sync */}
           <div className="space-y-2">
             <Label>Manual Backup</Label>
             <div className="flex gap-2">
-              <Button variant="outline" disabled>
-                <Database className="mr-2 h-4 w-4" />
-                Sync Now
-              </Button>
-              <Button variant="outline" disabled>
+              <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
                 Import Data
               </Button>
-              <Button variant="outline" disabled>
+              <Button variant="outline" onClick={handleExport}>
+                <Download className="mr-2 h-4 w-4" />
                 Export Data
               </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
             </div>
             <p className="text-sm text-muted-foreground">
-              Cloud sync will be available in a future update
+              Export your library, reading progress and settings to a file, or restore them from one
             </p>
           </div>
         </CardContent>
       </Card>
 
+      {/* Import from other apps */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileInput className="h-5 w-5 text-primary" />
+            Import from Other Apps
+          </CardTitle>
+          <CardDescription>
+            Bring your library over from MyAnimeList or Tachiyomi/Mihon
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => libraryImportInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose File
+            </Button>
+            {reviewQueueSize > 0 && (
+              <Button variant="outline" onClick={handleReviewQueue}>
+                Review Matches
+                <Badge variant="secondary" className="ml-2">{reviewQueueSize}</Badge>
+              </Button>
+            )}
+            <input
+              ref={libraryImportInputRef}
+              type="file"
+              accept=".xml,.json,application/xml,text/xml,application/json"
+              className="hidden"
+              onChange={handleLibraryImportFile}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Accepts a MyAnimeList manga list export (.xml) or a Tachiyomi/Mihon backup in JSON format
+          </p>
+        </CardContent>
+      </Card>
+
+      <LibraryImportDialog
+        open={libraryImportOpen}
+        entries={libraryImportEntries}
+        onOpenChange={setLibraryImportOpen}
+        onQueueChange={setReviewQueueSize}
+      />
+
+      <BackupImportDialog
+        backup={pendingImport}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        onImported={handleImported}
+      />
+
       {/* App Settings */}
       <Card className="card-gradient">
         <CardHeader>
@@ -1,61 +1,4 @@
-export interface ConsumetMangaProvider {
-  id: string;
-  name: string;
-  languages: string[];
-}
-
-export interface MangaSearchResult {
-  mal_id: number | string;
-  title: string;
-  title_english?: string;
-  title_japanese?: string;
-  images: {
-    jpg: {
-      image_url: string;
-      small_image_url: string;
-      large_image_url: string;
-    };
-  };
-  status: string;
-  chapters?: number;
-  volumes?: number;
-  score?: number;
-  synopsis?: string;
-  genres: Array<{
-    mal_id: number;
-    name: string;
-  }>;
-  authors: Array<{
-    mal_id: number;
-    name: string;
-  }>;
-  published: {
-    from: string;
-    to?: string;
-  };
-  provider?: string;
-  providerId?: string;
-}
-
-export interface MangaDetails extends Omit<MangaSearchResult, 'chapters'> {
-  chaptersData?: Chapter[];
-  chapters?: number;
-  members?: number;
-  provider?: string;
-  providerId?: string;
-}
-
-export interface Chapter {
-  id: string;
-  title: string;
-  chapter: string;
-  pages: number;
-  publishAt: string;
-  readAt?: string;
-  externalUrl?: string;
-  provider?: string;
-  providerId?: string;
-}
+import type { SeriesLinkTable } from '@/lib/manga/links';
 
 export interface LibrarySeries {
   source: 'jikan' | 'custom' | 'consumet';
@@ -65,6 +8,7 @@ export interface LibrarySeries {
   lang: string;
   addedAt: string;
   lastReadAt?: string;
+  updatedAt?: string; // last change to the entry itself, used when syncing
   status: 'reading' | 'completed' | 'plan-to-read' | 'dropped';
   provider?: string;
   providerId?: string;
@@ -72,10 +16,21 @@ export interface LibrarySeries {
 
 export interface ReadingProgress {
   seriesId: string;
+  provider?: string; // the series id is only unique within its provider; missing on old progress
   chapterId: string;
   lastPage: number;
   totalPages: number;
   percent: number;
+  read: boolean;
+  completedAt?: string;
+  updatedAt: string;
+}
+
+// Points at the chapter a series is currently being read at
+export interface CurrentChapter {
+  seriesId: string;
+  provider?: string;
+  chapterId: string;
   updatedAt: string;
 }
 
@@ -92,6 +47,8 @@ export interface AppSettings {
 export interface SyncData {
   library: LibrarySeries[];
   progress: Record<string, ReadingProgress>;
+  currentChapters: Record<string, CurrentChapter>;
   settings: AppSettings;
+  seriesLinks?: SeriesLinkTable; // missing in data synced by older versions
   lastSync: string;
 }
\ No newline at end of file
@@ -1,7 +1,55 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
+import { handleImageProxy } from "./server/image-proxy";
+
+// Lists the build output for the service worker to precache (see public/sw.js).
+// Bundle file names are content hashed, so the version changes with every change.
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const publicDir = path.resolve(__dirname, "public");
+      const publicFiles = fs
+        .readdirSync(publicDir)
+        .filter((file) => file !== "sw.js" && fs.statSync(path.join(publicDir, file)).isFile());
+      const files = Array.from(new Set([
+        "/index.html",
+        ...publicFiles.map((file) => `/${file}`),
+        ...Object.keys(bundle).filter((file) => !file.endsWith(".map")).map((file) => `/${file}`),
+      ]));
+      const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+
+      this.emitFile({
+        type: "asset",
+        fileName: "precache-manifest.json",
+        source: JSON.stringify({ version, files }),
+      });
+    },
+  };
+}
+
+// Serves /api/image from both the dev server and `vite preview`
+function imageProxy(): Plugin {
+  return {
+    name: "image-proxy",
+    configureServer(server) {
+      server.middlewares.use("/api/image", (req, res, next) => {
+        handleImageProxy(req, res).catch(next);
+      });
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use("/api/image", (req, res, next) => {
+        handleImageProxy(req, res).catch(next);
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +57,12 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    imageProxy(),
+    precacheManifest(),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),